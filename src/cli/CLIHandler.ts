@@ -62,14 +62,17 @@ export class CLIHandler {
       const arg = args[i];
 
       if (arg.startsWith('--')) {
-        const [key, value] = arg.slice(2).split('=');
-        if (value !== undefined) {
-          options[key] = this.parseValue(value);
+        // Split on the first "=" only, so values such as --set=KEY=VALUE stay whole
+        const separator = arg.indexOf('=');
+        const key = separator === -1 ? arg.slice(2) : arg.slice(2, separator);
+        let value: any = true;
+        if (separator !== -1) {
+          value = this.parseValue(arg.slice(separator + 1));
         } else if (i + 1 < args.length && !args[i + 1].startsWith('-')) {
-          options[key] = this.parseValue(args[++i]);
-        } else {
-          options[key] = true;
+          value = this.parseValue(args[++i]);
         }
+        // Collect repeated options (e.g. several --set) into an array
+        options[key] = key in options ? [...[options[key]].flat(), value] : value;
       } else if (arg.startsWith('-') && arg.length > 1) {
         // Handle short options
         const flags = arg.slice(1);
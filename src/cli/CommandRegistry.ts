@@ -1,10 +1,14 @@
 import { CLIHandler } from './CLIHandler.js';
 import { ScanCommand } from './commands/ScanCommand.js';
 import { StartCommand } from './commands/StartCommand.js';
+import { EnvCommand } from './commands/EnvCommand.js';
 import { StatusCommand } from './commands/StatusCommand.js';
 import { LogsCommand } from './commands/LogsCommand.js';
+import { ErrorsCommand } from './commands/ErrorsCommand.js';
+import { WaitForCommand } from './commands/WaitForCommand.js';
 import { StopCommand } from './commands/StopCommand.js';
 import { RestartCommand } from './commands/RestartCommand.js';
+import { GroupCommand } from './commands/GroupCommand.js';
 
 export class CommandRegistry {
   private handler: CLIHandler;
@@ -18,10 +22,14 @@ export class CommandRegistry {
     // Register all CLI commands
     this.handler.registerCommand(new ScanCommand());
     this.handler.registerCommand(new StartCommand());
+    this.handler.registerCommand(new EnvCommand());
     this.handler.registerCommand(new StatusCommand());
     this.handler.registerCommand(new LogsCommand());
+    this.handler.registerCommand(new ErrorsCommand());
+    this.handler.registerCommand(new WaitForCommand());
     this.handler.registerCommand(new StopCommand());
     this.handler.registerCommand(new RestartCommand());
+    this.handler.registerCommand(new GroupCommand());
   }
 
   getHandler(): CLIHandler {
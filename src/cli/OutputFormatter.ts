@@ -1,5 +1,10 @@
 import { CLIResult } from './types.js';
-import { ProjectInfo, DevProcess, LogEntry } from '../types.js';
+import { ProjectInfo, DevProcess, Diagnostic, FrameworkInfo, LogEntry, WorkspaceInfo } from '../types.js';
+import { ProjectConfig } from '../config/ProjectConfig.js';
+import { GroupStartResult, GroupStopResult } from '../components/ProcessGroupManager.js';
+import { StopResult } from '../components/ProcessManager.js';
+import { LogWaitResult } from '../components/LogWaiter.js';
+import { EnvInspection } from '../components/EnvInspector.js';
 
 export class OutputFormatter {
   formatResult(result: CLIResult, asJson: boolean = false): string {
@@ -14,43 +19,90 @@ export class OutputFormatter {
     return result.message || '✅ Success';
   }
 
-  formatProjects(projects: ProjectInfo[], asJson: boolean = false): string {
+  formatProjects(
+    projects: ProjectInfo[],
+    asJson: boolean = false,
+    extras: { workspace?: WorkspaceInfo | null; config?: ProjectConfig | null; configError?: string } = {}
+  ): string {
+    const { workspace, config, configError } = extras;
+
     if (asJson) {
       return JSON.stringify({ 
         success: true, 
         count: projects.length,
+        workspace: workspace || undefined,
+        config: config || undefined,
+        configError,
         projects: projects.map(p => ({
           name: p.packageJson?.name || 'Unnamed',
           directory: p.directory,
           devScript: p.packageJson?.scripts?.dev,
-          hasEnvFile: !!p.envPath,
-          envPath: p.envPath,
-          priority: p.priority
+          scripts: p.scripts,
+          packageManager: p.packageManager,
+          framework: p.framework,
+          hasEnvFile: p.envFiles.length > 0,
+          envFiles: p.envFiles,
+          priority: p.priority,
+          internalDependencies: p.internalDependencies
         }))
       }, null, 2);
     }
 
-    if (projects.length === 0) {
-      return '📦 No projects with dev scripts found';
+    if (projects.length === 0 && !config && !configError) {
+      return '📦 No projects with long-running scripts found';
     }
 
-    let output = `📦 Found ${projects.length} project(s) with dev scripts:\n`;
+    let output = `📦 Found ${projects.length} project(s) with long-running scripts:\n`;
     projects.forEach((project, index) => {
       const name = project.packageJson?.name || 'Unnamed';
-      const devScript = project.packageJson?.scripts?.dev || 'Unknown';
-      const envStatus = project.envPath ? '🌍 .env' : '';
+      const envStatus = project.envFiles.length > 0 ? '🌍 .env' : '';
       
       output += `\n  ${index + 1}. ${name}\n`;
       output += `     📁 ${project.directory}\n`;
-      output += `     🚀 ${devScript}\n`;
+      output += `     📦 ${project.packageManager}\n`;
+      if (project.framework) {
+        output += `     🧩 ${this.formatFramework(project.framework)}\n`;
+      }
+      project.scripts.forEach(script => {
+        output += `     🚀 ${script}: ${project.packageJson?.scripts?.[script]}\n`;
+      });
       if (envStatus) {
         output += `     ${envStatus}\n`;
       }
+      if (project.internalDependencies && project.internalDependencies.length > 0) {
+        output += `     🔗 depends on ${project.internalDependencies.join(', ')}\n`;
+      }
     });
 
+    if (workspace) {
+      const tools = workspace.tools.length > 0 ? ` [${workspace.tools.join(', ')}]` : '';
+      output += `\n🗂️  Workspace at ${workspace.root} (${workspace.source})${tools}: ${workspace.packages.length} package(s)\n`;
+      workspace.packages.forEach(pkg => {
+        const deps = pkg.internalDependencies.length > 0 ? ` → ${pkg.internalDependencies.join(', ')}` : '';
+        output += `     • ${pkg.name}${deps}\n`;
+      });
+    }
+
+    if (config) {
+      output += `\n⚙️  Processes defined in ${config.configPath}:\n`;
+      config.processes.forEach(definition => {
+        const port = definition.port ? ` :${definition.port}` : '';
+        const deps = definition.dependsOn.length > 0 ? ` (after ${definition.dependsOn.join(', ')})` : '';
+        output += `     • ${definition.name}: ${definition.script} in ${definition.cwd}${port}${deps}\n`;
+      });
+    }
+
+    if (configError) {
+      output += `\n⚠️  Invalid project config: ${configError}\n`;
+    }
+
     return output;
   }
 
+  private formatFramework(framework: FrameworkInfo): string {
+    return framework.version ? `${framework.name} ${framework.version}` : framework.name;
+  }
+
   formatProcess(process: DevProcess, asJson: boolean = false): string {
     if (asJson) {
       return JSON.stringify({
@@ -58,10 +110,19 @@ export class OutputFormatter {
         process: {
           pid: process.pid,
           directory: process.directory,
+          name: process.name,
+          script: process.script,
+          packageManager: process.packageManager,
+          framework: process.framework,
           status: process.status,
           startTime: process.startTime,
           ports: process.ports,
-          uptime: Date.now() - process.startTime.getTime()
+          urls: process.urls,
+          uptime: Date.now() - process.startTime.getTime(),
+          restartPolicy: process.restartPolicy?.policy || 'never',
+          restartCount: process.restartCount,
+          lastExitCode: process.lastExitCode,
+          lastExitSignal: process.lastExitSignal
         }
       }, null, 2);
     }
@@ -69,16 +130,28 @@ export class OutputFormatter {
     const uptime = this.formatUptime(Date.now() - process.startTime.getTime());
     const portsStr = process.ports.length > 0 ? process.ports.join(', ') : 'None detected';
     const statusIcon = this.getStatusIcon(process.status);
+    const lastExit = process.lastExitSignal
+      ? `signal ${process.lastExitSignal}`
+      : process.lastExitCode !== undefined && process.lastExitCode !== null ? `code ${process.lastExitCode}` : null;
+    const restartStr = process.restartPolicy && process.restartPolicy.policy !== 'never'
+      ? `\n  🔁 Restarts: ${process.restartCount} (${process.restartPolicy.policy})${lastExit ? `, last exit ${lastExit}` : ''}`
+      : '';
+    const urlsStr = process.urls.map(url => `\n  🔗 ${url.kind === 'network' ? 'Network' : 'Local'}: ${url.url}`).join('');
 
     return `${statusIcon} Dev server status:
   📊 Status: ${process.status}
   🆔 PID: ${process.pid}
   📁 Directory: ${process.directory}
+  🏷️  Name: ${process.name}
+  📜 Script: ${process.packageManager} run ${process.script}${process.framework ? ` (${this.formatFramework(process.framework)})` : ''}
   🕐 Uptime: ${uptime}
-  🌐 Ports: ${portsStr}`;
+  🌐 Ports: ${portsStr}${urlsStr}${restartStr}`;
   }
 
-  formatLogs(logs: LogEntry[], asJson: boolean = false): string {
+  /**
+   * @param color 開発サーバーが出力した元の色付けで表示する（JSONでは`raw`を含める）
+   */
+  formatLogs(logs: LogEntry[], asJson: boolean = false, color: boolean = false): string {
     if (asJson) {
       return JSON.stringify({
         success: true,
@@ -87,7 +160,8 @@ export class OutputFormatter {
           timestamp: log.timestamp.toISOString(),
           level: log.level,
           source: log.source,
-          message: log.message
+          message: log.message,
+          ...(color && log.raw ? { raw: log.raw } : {})
         }))
       }, null, 2);
     }
@@ -98,44 +172,201 @@ export class OutputFormatter {
 
     let output = `📝 Showing ${logs.length} log entries:\n`;
     logs.forEach(log => {
-      const timestamp = log.timestamp.toLocaleTimeString();
-      const levelIcon = this.getLogLevelIcon(log.level);
-      const sourceIcon = log.source === 'stderr' ? '🔴' : '🔵';
-      
-      output += `\n${timestamp} ${levelIcon}${sourceIcon} ${log.message}`;
+      output += `\n${this.formatLogLine(log, color)}`;
+    });
+
+    return output;
+  }
+
+  formatLogLine(log: LogEntry, color: boolean = false): string {
+    const timestamp = log.timestamp.toLocaleTimeString();
+    const levelIcon = this.getLogLevelIcon(log.level);
+    const sourceIcon = log.source === 'stderr' ? '🔴' : '🔵';
+    // Reset at the end so an unterminated color does not bleed into the next line
+    const message = color && log.raw ? `${log.raw}\x1b[0m` : log.message;
+
+    return `${timestamp} ${levelIcon}${sourceIcon} ${message}`;
+  }
+
+  formatDiagnostics(diagnostics: Diagnostic[], asJson: boolean = false): string {
+    if (asJson) {
+      return JSON.stringify({
+        success: true,
+        count: diagnostics.length,
+        diagnostics
+      }, null, 2);
+    }
+
+    if (diagnostics.length === 0) {
+      return '✅ No compile errors';
+    }
+
+    const errors = diagnostics.filter(d => !d.resolved && d.severity === 'error').length;
+    const warnings = diagnostics.filter(d => !d.resolved && d.severity === 'warning').length;
+    let output = `🩺 ${errors} error(s), ${warnings} warning(s):\n`;
+
+    diagnostics.forEach(diagnostic => {
+      const icon = diagnostic.resolved ? '✔️ ' : diagnostic.severity === 'error' ? '❌' : '⚠️ ';
+      const location = diagnostic.file
+        ? `${diagnostic.file}${diagnostic.line !== undefined ? `:${diagnostic.line}` : ''}${diagnostic.column !== undefined ? `:${diagnostic.column}` : ''}`
+        : '(no file)';
+      const code = diagnostic.code ? ` [${diagnostic.code}]` : '';
+      const count = diagnostic.count > 1 ? ` (x${diagnostic.count})` : '';
+      const resolved = diagnostic.resolved ? ' (resolved)' : '';
+
+      output += `\n${icon} ${location}${code}${count}${resolved}`;
+      output += `\n   ${diagnostic.source}: ${diagnostic.message}`;
+    });
+
+    return output;
+  }
+
+  formatLogWaitResult(result: LogWaitResult, asJson: boolean = false): string {
+    if (asJson) {
+      return JSON.stringify({
+        success: result.outcome === 'matched',
+        ...result
+      }, null, 2);
+    }
+
+    if (!result.match) {
+      return result.outcome === 'timeout'
+        ? `⏰ No matching line after ${Math.round(result.elapsed / 1000)}s`
+        : '💥 Process exited before a matching line appeared';
+    }
+
+    let output = `✅ Matched after ${Math.round(result.elapsed / 1000)}s:\n`;
+    result.before.forEach(log => {
+      output += `\n  ${this.formatLogLine(log)}`;
+    });
+    output += `\n> ${this.formatLogLine(result.match)}`;
+    result.after.forEach(log => {
+      output += `\n  ${this.formatLogLine(log)}`;
     });
 
     return output;
   }
 
+  formatEnvInspection(inspection: EnvInspection, asJson: boolean = false): string {
+    if (asJson) {
+      return JSON.stringify({
+        success: true,
+        ...inspection
+      }, null, 2);
+    }
+
+    const files = inspection.files.length > 0 ? inspection.files.join(', ') : '(no .env files)';
+    let output = `🌍 Env (${inspection.mode}): ${files}`;
+    output += inspection.exampleFile ? `\n📋 Checked against ${inspection.exampleFile}\n` : '\n';
+
+    inspection.variables.forEach(variable => {
+      const icon = { ok: '✅', missing: '❌', empty: '⚠️ ', extra: '➕' }[variable.status];
+      const value = variable.value !== undefined ? `=${variable.value}` : '';
+      const source = variable.source ? ` (${variable.source})` : '';
+      const status = variable.status !== 'ok' ? ` [${variable.status}]` : '';
+      output += `\n${icon} ${variable.key}${value}${source}${status}`;
+    });
+
+    inspection.warnings.forEach(warning => {
+      output += `\n⚠️  ${warning}`;
+    });
+
+    output += `\n\n${inspection.missing.length} missing, ${inspection.empty.length} empty, ${inspection.extra.length} extra`;
+    return output;
+  }
+
   formatStartResult(process: DevProcess, asJson: boolean = false): string {
     if (asJson) {
       return this.formatProcess(process, true);
     }
 
-    const portsStr = process.ports.length > 0 
-      ? `\n  🌐 Available on: ${process.ports.map(p => `http://localhost:${p}`).join(', ')}`
+    const addresses = this.getAddresses(process);
+    const portsStr = addresses.length > 0
+      ? `\n  🌐 Available on: ${addresses.join(', ')}`
       : '';
 
     return `🚀 Dev server started successfully!
   🆔 PID: ${process.pid}
-  📁 Directory: ${process.directory}${portsStr}`;
+  📁 Directory: ${process.directory}
+  🏷️  Name: ${process.name}
+  📜 Script: ${process.packageManager} run ${process.script}${portsStr}`;
+  }
+
+  formatGroupStartResult(result: GroupStartResult, asJson: boolean = false): string {
+    if (asJson) {
+      return JSON.stringify({ success: true, ...result }, null, 2);
+    }
+
+    let output = `🚀 Started ${result.started.length} process(es): ${result.order.join(' → ')}\n`;
+    result.started.forEach(process => {
+      const addresses = this.getAddresses(process);
+      const ports = addresses.length > 0 ? ` 🌐 ${addresses.join(', ')}` : '';
+      output += `  • ${process.name} (PID ${process.pid}) ${process.directory}${ports}\n`;
+    });
+    return output.trimEnd();
   }
 
-  formatStopResult(wasRunning: boolean, asJson: boolean = false): string {
+  formatGroupStopResult(result: GroupStopResult, asJson: boolean = false): string {
+    if (asJson) {
+      return JSON.stringify({ success: result.failed.length === 0, ...result }, null, 2);
+    }
+
+    if (result.stopped.length === 0 && result.failed.length === 0) {
+      return '💤 No process in the group was running';
+    }
+
+    let output = `⏹️  Stopped ${result.stopped.length} process(es)`;
+    if (result.stopped.length > 0) {
+      output += `: ${result.stopped.join(' → ')}`;
+    }
+    if (result.failed.length > 0) {
+      output += `\n❌ Failed to stop: ${result.failed.join(', ')}`;
+    }
+    return output;
+  }
+
+  formatStopResult(wasRunning: boolean, asJson: boolean = false, result?: StopResult): string {
     if (asJson) {
       return JSON.stringify({
-        success: true,
+        success: result ? result.success : true,
         wasRunning,
-        message: wasRunning ? 'Dev server stopped' : 'No dev server was running'
+        message: wasRunning ? 'Dev server stopped' : 'No dev server was running',
+        ...(result ? {
+          pids: result.pids,
+          forced: result.forced,
+          survivors: result.survivors,
+          portsInUse: result.portsInUse
+        } : {})
       }, null, 2);
     }
 
-    if (wasRunning) {
-      return '⏹️  Dev server stopped successfully';
-    } else {
+    if (!wasRunning) {
       return '💤 No dev server was running';
     }
+
+    const lines = [result && !result.success
+      ? '⚠️  Dev server did not stop cleanly'
+      : '⏹️  Dev server stopped successfully'];
+    if (result?.forced) {
+      lines.push('🔨 Some processes ignored SIGTERM and were killed');
+    }
+    if (result && result.survivors.length > 0) {
+      lines.push(`🧟 Still running: PID ${result.survivors.join(', ')}`);
+    }
+    if (result && result.portsInUse.length > 0) {
+      lines.push(`🔌 Ports still in use: ${result.portsInUse.join(', ')}`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * ログから見つけたURL（無ければ検出済みポートから組み立てたlocalhostのURL）
+   */
+  private getAddresses(process: DevProcess): string[] {
+    if (process.urls.length > 0) {
+      return process.urls.map(url => url.kind === 'network' ? `${url.url} (network)` : url.url);
+    }
+    return process.ports.map(port => `http://localhost:${port}`);
   }
 
   private formatUptime(milliseconds: number): string {
@@ -154,6 +385,7 @@ export class OutputFormatter {
 
   private getStatusIcon(status: string): string {
     switch (status) {
+      case 'ready': return '✅';
       case 'running': return '🟢';
       case 'starting': return '🟡';
       case 'stopped': return '🔴';
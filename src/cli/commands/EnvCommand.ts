@@ -0,0 +1,87 @@
+import { resolve } from 'path';
+import { CLICommand, CLIOptions, CLIError } from '../types.js';
+import { OutputFormatter } from '../OutputFormatter.js';
+import { ENV_MODES, isEnvMode } from '../../components/EnvLoader.js';
+import { EnvInspector, isUnsetRequirement } from '../../components/EnvInspector.js';
+import { ProjectContextManager } from '../../context/ProjectContextManager.js';
+
+export class EnvCommand implements CLICommand {
+  name = 'env';
+  description = 'Check the environment a dev server would get against .env.example and required variables';
+  usage = 'npx npm-dev-mcp env [directory] [options]';
+  options = [
+    {
+      long: 'json',
+      description: 'Output in JSON format',
+      type: 'boolean' as const
+    },
+    {
+      long: 'name',
+      description: 'Process name from .npm-dev-mcp.json (uses its cwd, envFile and requiredEnv)',
+      type: 'string' as const
+    },
+    {
+      long: 'mode',
+      description: `Which .env files to load (${ENV_MODES.join(', ')})`,
+      type: 'string' as const,
+      default: 'development'
+    },
+    {
+      long: 'env',
+      description: 'Path to an extra environment file, loaded over the .env files of the project',
+      type: 'string' as const
+    },
+    {
+      long: 'reveal',
+      description: 'Show values of secret-looking variables instead of masking them',
+      type: 'boolean' as const
+    }
+  ];
+
+  private formatter = new OutputFormatter();
+
+  async execute(args: string[], options: CLIOptions): Promise<void> {
+    try {
+      const mode = options.mode;
+      if (mode !== undefined && !isEnvMode(mode)) {
+        throw new CLIError(`Invalid mode: ${mode}. Use one of: ${ENV_MODES.join(', ')}`);
+      }
+
+      const contextManager = ProjectContextManager.getInstance();
+      const processes = contextManager.getProjectConfig()?.processes || [];
+      const name = options.name !== undefined ? String(options.name) : undefined;
+      const definition = name ? processes.find(candidate => candidate.name === name) : undefined;
+      if (name && !definition) {
+        throw new CLIError(`No process named "${name}" is defined in .npm-dev-mcp.json`, 1);
+      }
+
+      const directory = resolve(options._args?.[0] || definition?.cwd || process.cwd());
+      // Without a process name, use the requirements of every process defined for the directory
+      const required = definition
+        ? definition.requiredEnv || []
+        : processes.filter(candidate => candidate.cwd === directory).flatMap(candidate => candidate.requiredEnv || []);
+
+      const inspector = new EnvInspector();
+      const inspection = await inspector.inspect({
+        directory,
+        mode,
+        envFile: options.env !== undefined ? resolve(String(options.env)) : definition?.envFile,
+        required,
+        reveal: !!options.reveal
+      });
+
+      console.log(this.formatter.formatEnvInspection(inspection, options.json));
+
+      if (!inspection.ok) {
+        const unset = inspection.variables.filter(isUnsetRequirement).map(variable => variable.key);
+        throw new CLIError(`Required environment variables are not set: ${unset.join(', ')}`, 1);
+      }
+
+    } catch (error) {
+      if (error instanceof CLIError) {
+        throw error;
+      }
+      throw new CLIError(`Failed to inspect environment: ${error}`, 1);
+    }
+  }
+}
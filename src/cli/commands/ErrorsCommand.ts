@@ -0,0 +1,67 @@
+import { CLICommand, CLIOptions, CLIError } from '../types.js';
+import { OutputFormatter } from '../OutputFormatter.js';
+import { ProcessManager } from '../../components/ProcessManager.js';
+
+export class ErrorsCommand implements CLICommand {
+  name = 'errors';
+  description = 'Show compile errors parsed from dev server logs';
+  usage = 'npx npm-dev-mcp errors [options]';
+  options = [
+    {
+      long: 'json',
+      description: 'Output in JSON format',
+      type: 'boolean' as const
+    },
+    {
+      long: 'name',
+      description: 'Process name to show errors for (when several are running)',
+      type: 'string' as const
+    },
+    {
+      long: 'all',
+      description: 'Include errors fixed by a later successful rebuild',
+      type: 'boolean' as const
+    }
+  ];
+
+  private formatter = new OutputFormatter();
+
+  async execute(args: string[], options: CLIOptions): Promise<void> {
+    try {
+      const processManager = ProcessManager.getInstance();
+      const status = await processManager.getStatus();
+
+      if (status.length === 0) {
+        const message = options.json
+          ? JSON.stringify({ success: false, error: 'No dev server is running' }, null, 2)
+          : '💤 No dev server is running. Start it with "start" command.';
+        console.log(message);
+        return;
+      }
+
+      const targetProcess = options.name
+        ? status.find(p => p.name === String(options.name))
+        : status[0];
+      if (!targetProcess) {
+        throw new CLIError(`No process named "${options.name}" is running.`, 1);
+      }
+
+      const logManager = processManager.getLogManager(targetProcess.directory, targetProcess.name);
+      if (!logManager) {
+        throw new CLIError('Failed to get log manager for process', 1);
+      }
+
+      const diagnostics = logManager.getDiagnostics()
+        .filter(diagnostic => options.all || !diagnostic.resolved)
+        .sort((a, b) => Number(a.resolved) - Number(b.resolved) || b.lastSeen.getTime() - a.lastSeen.getTime());
+
+      console.log(this.formatter.formatDiagnostics(diagnostics, options.json));
+
+    } catch (error) {
+      if (error instanceof CLIError) {
+        throw error;
+      }
+      throw new CLIError(`Failed to get errors: ${error}`, 1);
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import { CLICommand, CLIOptions, CLIError } from '../types.js';
+import { OutputFormatter } from '../OutputFormatter.js';
+import { ProcessGroupManager } from '../../components/ProcessGroupManager.js';
+
+export class GroupCommand implements CLICommand {
+  name = 'group';
+  description = 'Start or stop processes from .npm-dev-mcp.json in dependency order';
+  usage = 'npx npm-dev-mcp group <start|stop> [process names...] [options]';
+  options = [
+    {
+      long: 'json',
+      description: 'Output in JSON format',
+      type: 'boolean' as const
+    }
+  ];
+
+  private formatter = new OutputFormatter();
+
+  async execute(args: string[], options: CLIOptions): Promise<void> {
+    const [action, ...names] = options._args || [];
+
+    if (action !== 'start' && action !== 'stop') {
+      throw new CLIError(`Unknown group action: ${action ?? '(none)'}. Use "start" or "stop".`, 1);
+    }
+
+    try {
+      const groupManager = ProcessGroupManager.getInstance();
+
+      if (action === 'start') {
+        if (!options.json) {
+          console.log('🚀 Starting process group...');
+        }
+        const result = await groupManager.startGroup(names);
+        console.log(this.formatter.formatGroupStartResult(result, options.json));
+      } else {
+        const result = await groupManager.stopGroup(names);
+        console.log(this.formatter.formatGroupStopResult(result, options.json));
+        if (result.failed.length > 0) {
+          throw new CLIError(`Failed to stop: ${result.failed.join(', ')}`, 1);
+        }
+      }
+
+    } catch (error) {
+      if (error instanceof CLIError) {
+        throw error;
+      }
+      throw new CLIError(`Failed to ${action} process group: ${error}`, 1);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { CLICommand, CLIOptions, CLIError } from '../types.js';
 import { OutputFormatter } from '../OutputFormatter.js';
 import { ProcessManager } from '../../components/ProcessManager.js';
+import { LogFilter, matchesLogFilter, parseLogFilter } from '../../utils/logFilter.js';
 
 export class LogsCommand implements CLICommand {
   name = 'logs';
@@ -18,9 +19,54 @@ export class LogsCommand implements CLICommand {
       description: 'Follow log output',
       type: 'boolean' as const
     },
+    {
+      long: 'name',
+      description: 'Process name to show logs for (when several are running)',
+      type: 'string' as const
+    },
+    {
+      long: 'history',
+      description: 'Read saved logs from ~/.npm-dev-mcp/logs, including earlier runs',
+      type: 'boolean' as const
+    },
     {
       long: 'level',
-      description: 'Filter by log level (info, warn, error)',
+      description: 'Filter by log level (info, warn, error; comma-separated for several)',
+      type: 'string' as const
+    },
+    {
+      long: 'color',
+      description: 'Replay the original colors printed by the dev server',
+      type: 'boolean' as const
+    },
+    {
+      long: 'source',
+      description: 'Filter by output stream (stdout, stderr)',
+      type: 'string' as const
+    },
+    {
+      long: 'grep',
+      description: 'Show only lines matching a regular expression',
+      type: 'string' as const
+    },
+    {
+      long: 'ignore-case',
+      description: 'Make --grep case-insensitive',
+      type: 'boolean' as const
+    },
+    {
+      long: 'contains',
+      description: 'Show only lines containing the text (case-insensitive)',
+      type: 'string' as const
+    },
+    {
+      long: 'since',
+      description: 'Show lines after a time (ISO 8601, or relative such as 10m)',
+      type: 'string' as const
+    },
+    {
+      long: 'until',
+      description: 'Show lines before a time (ISO 8601, or relative such as 10m)',
       type: 'string' as const
     }
   ];
@@ -40,90 +86,93 @@ export class LogsCommand implements CLICommand {
         return;
       }
 
-      // Determine target process
-      // For now, if multiple, pick first or use directory arg if valid (CLI doesn't expose it yet easily in args[] for this command maybe?)
-      // We will assume if multiple are running, we might need a way to specify.
-      // But standard `logs` command usually implies current context.
-      // Let's pick the one matching CWD or just the first one.
-
-      // Update usage to allow directory? 'npx npm-dev-mcp logs [directory] [lines] [options]' is ambiguous.
-      // Let's assume Context or First.
-      const targetDirectory = status[0].directory; // Simplified for now.
-
-      // ... continue with logs for targetDirectory
+      // Determine target process: the named one, or the first one
+      const targetProcess = options.name
+        ? status.find(p => p.name === String(options.name))
+        : status[0];
+      if (!targetProcess) {
+        throw new CLIError(`No process named "${options.name}" is running.`, 1);
+      }
 
       // Parse lines argument
       let lines = 50; // default
       if (options._args && options._args.length > 0) {
         const linesArg = parseInt(options._args[0]);
         if (!isNaN(linesArg) && linesArg > 0) {
-          lines = Math.min(linesArg, 1000); // cap at 1000
+          lines = Math.min(linesArg, options.history ? 10000 : 1000); // cap at the ring buffer size unless reading history
         }
       }
 
+      let filter: LogFilter;
+      try {
+        filter = parseLogFilter({
+          level: options.level,
+          source: options.source,
+          pattern: options.grep,
+          ignoreCase: options['ignore-case'],
+          contains: options.contains,
+          since: options.since,
+          until: options.until
+        });
+      } catch (error) {
+        throw new CLIError(error instanceof Error ? error.message : String(error), 1);
+      }
+
       if (options.follow) {
-        await this.followLogs(processManager, lines, options, targetDirectory);
+        await this.followLogs(processManager, lines, filter, options, targetProcess.directory, targetProcess.name);
       } else {
-        await this.showLogs(processManager, lines, options, targetDirectory);
+        await this.showLogs(processManager, lines, filter, options, targetProcess.directory, targetProcess.name);
       }
 
     } catch (error) {
+      if (error instanceof CLIError) {
+        throw error;
+      }
       throw new CLIError(`Failed to get logs: ${error}`, 1);
     }
   }
 
-  private async showLogs(processManager: ProcessManager, lines: number, options: CLIOptions, directory?: string): Promise<void> {
-    const logManager = processManager.getLogManager(directory);
+  private async showLogs(processManager: ProcessManager, lines: number, filter: LogFilter, options: CLIOptions, directory?: string, name?: string): Promise<void> {
+    const logManager = processManager.getLogManager(directory, name);
     if (!logManager) {
       console.error('Failed to get log manager for process');
       return;
     }
-    let logs = await logManager.getLogs(lines);
+    // Saved history is filtered after reading, so it covers the last N lines rather than N matches
+    const logs = options.history
+      ? (await logManager.getHistory(lines)).filter(log => matchesLogFilter(log, filter))
+      : logManager.queryLogs({ ...filter, limit: lines }).entries;
 
-    // Filter by level if specified
-    if (options.level) {
-      const level = options.level.toLowerCase();
-      logs = logs.filter(log => log.level === level);
-    }
-
-    const output = this.formatter.formatLogs(logs, options.json);
+    const output = this.formatter.formatLogs(logs, options.json, !!options.color);
     console.log(output);
   }
 
-  private async followLogs(processManager: ProcessManager, lines: number, options: CLIOptions, directory?: string): Promise<void> {
+  private async followLogs(processManager: ProcessManager, lines: number, filter: LogFilter, options: CLIOptions, directory?: string, name?: string): Promise<void> {
     console.log(`👀 Following logs (Press Ctrl+C to exit)...\n`);
 
-    // Show initial logs
-    await this.showLogs(processManager, lines, { ...options, json: false }, directory);
+    const logManager = processManager.getLogManager(directory, name);
+    if (!logManager) {
+      console.error('Failed to get log manager for process');
+      return;
+    }
 
-    const logManager = processManager.getLogManager(directory);
-    if (!logManager) return;
-    let lastLogCount = (await logManager.getLogs(1000)).length;
+    // Show initial logs
+    const initial = logManager.queryLogs({ ...filter, limit: lines });
+    console.log(this.formatter.formatLogs(initial.entries, false, !!options.color));
+    let cursor = initial.cursor;
 
     const checkForNewLogs = async () => {
       try {
-        const currentLogs = await logManager.getLogs(1000);
-        if (currentLogs.length > lastLogCount) {
-          // Show only new logs
-          const newLogs = currentLogs.slice(lastLogCount);
-          let filteredLogs = newLogs;
-
-          // Apply level filter
-          if (options.level) {
-            const level = options.level.toLowerCase();
-            filteredLogs = newLogs.filter(log => log.level === level);
-          }
-
-          // Display new logs
-          filteredLogs.forEach(log => {
-            const timestamp = log.timestamp.toLocaleTimeString();
-            const levelIcon = this.getLogLevelIcon(log.level);
-            const sourceIcon = log.source === 'stderr' ? '🔴' : '🔵';
-            console.log(`${timestamp} ${levelIcon}${sourceIcon} ${log.message}`);
-          });
-
-          lastLogCount = currentLogs.length;
+        const result = logManager.queryLogs({ ...filter, cursor, limit: 1000 });
+        cursor = result.cursor;
+        if (result.skipped > 0) {
+          console.log(`⚠️  ${result.skipped} lines were dropped before they could be shown`);
         }
+
+        // Display new logs
+        result.entries.forEach(log => {
+          console.log(this.formatter.formatLogLine(log, !!options.color));
+        });
       } catch (error) {
         console.error(`❌ Error reading logs: ${error}`);
       }
@@ -139,13 +188,4 @@ export class LogsCommand implements CLICommand {
       process.exit(0);
     });
   }
-
-  private getLogLevelIcon(level: string): string {
-    switch (level) {
-      case 'error': return '❌';
-      case 'warn': return '⚠️ ';
-      case 'info': return 'ℹ️ ';
-      default: return '📄';
-    }
-  }
 }
\ No newline at end of file
@@ -12,6 +12,11 @@ export class RestartCommand implements CLICommand {
       description: 'Output in JSON format',
       type: 'boolean' as const
     },
+    {
+      long: 'name',
+      description: 'Process name to restart (when several run in the same directory)',
+      type: 'string' as const
+    },
     {
       long: 'wait',
       description: 'Seconds to wait before restarting',
@@ -33,16 +38,16 @@ export class RestartCommand implements CLICommand {
         throw new CLIError('No dev server is running. Use "start" command to start it.', 1);
       }
 
-      // Determine target (first one for CLI default behavior?)
-      const targetDirectory = status[0].directory; // Simplified for now
-
-      const targetProcess = status.find(p => p.directory === targetDirectory);
-      if (targetProcess) {
-        console.log(`🔄 Restarting dev server for ${targetProcess.directory}...`);
-      } else {
-        console.log('🔄 Restarting dev server...');
+      // Determine target (first one, or the named one, for CLI default behavior)
+      const targetProcess = options.name
+        ? status.find(p => p.name === String(options.name))
+        : status[0];
+      if (!targetProcess) {
+        throw new CLIError(`No process named "${options.name}" is running.`, 1);
       }
 
+      console.log(`🔄 Restarting dev server "${targetProcess.name}" for ${targetProcess.directory}...`);
+
       // Add wait if specified
       const waitTime = options.wait || 1;
       if (waitTime > 1) {
@@ -51,14 +56,16 @@ export class RestartCommand implements CLICommand {
       }
 
       // Restart the server
-      const newProcess = await processManager.restartDevServer(targetDirectory);
+      const newProcess = await processManager.restartDevServer(targetProcess.directory, targetProcess.name);
 
       // Wait a moment for potential port detection
       await new Promise(resolve => setTimeout(resolve, 2000));
 
       // Get updated status
       const newStatus = await processManager.getStatus();
-      const finalProcess = newStatus.find(p => p.directory === newProcess.directory) || newProcess;
+      const finalProcess = newStatus.find(
+        p => p.directory === newProcess.directory && p.name === newProcess.name
+      ) || newProcess;
 
       const output = this.formatter.formatStartResult(finalProcess, options.json);
       console.log('\n🚀 Dev server restarted successfully!');
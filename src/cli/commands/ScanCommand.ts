@@ -5,7 +5,7 @@ import { ProjectContextManager } from '../../context/ProjectContextManager.js';
 
 export class ScanCommand implements CLICommand {
   name = 'scan';
-  description = 'Scan for projects with dev scripts in current directory';
+  description = 'Scan for projects with long-running scripts in current directory';
   usage = 'npx npm-dev-mcp scan [options]';
   options = [
     {
@@ -34,8 +34,18 @@ export class ScanCommand implements CLICommand {
         : process.cwd();
 
       const projects = await scanner.scanForProjects(startDir);
+      const workspace = await scanner.scanWorkspace(startDir);
+
+      // An invalid .npm-dev-mcp.json is reported alongside the scan result instead of failing it
+      let config = null;
+      let configError: string | undefined;
+      try {
+        config = contextManager.getProjectConfig();
+      } catch (error) {
+        configError = error instanceof Error ? error.message : String(error);
+      }
       
-      const output = this.formatter.formatProjects(projects, options.json);
+      const output = this.formatter.formatProjects(projects, options.json, { workspace, config, configError });
       console.log(output);
 
     } catch (error) {
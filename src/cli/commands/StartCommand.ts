@@ -1,13 +1,19 @@
+import { relative, resolve } from 'path';
 import { CLICommand, CLIOptions, CLIError } from '../types.js';
 import { OutputFormatter } from '../OutputFormatter.js';
 import { ProcessManager } from '../../components/ProcessManager.js';
-import { EnvLoader } from '../../components/EnvLoader.js';
+import { ENV_MODES, EnvLoader, INHERIT_ENV_MODES, parseEnvSettings } from '../../components/EnvLoader.js';
 import { ProjectContextManager } from '../../context/ProjectContextManager.js';
 import { ProjectScanner } from '../../components/ProjectScanner.js';
+import { ProcessNotReadyError } from '../../components/ReadinessChecker.js';
+import { PortConflictError } from '../../components/PortPreflight.js';
+import { ProjectConfigValidator } from '../../config/ProjectConfig.js';
+import { EnvSettings, RestartPolicyConfig } from '../../types.js';
+import { isPackageManager, PACKAGE_MANAGERS } from '../../utils/packageManager.js';
 
 export class StartCommand implements CLICommand {
   name = 'start';
-  description = 'Start npm run dev server for current project';
+  description = 'Start an npm script (default: dev) for current project';
   usage = 'npx npm-dev-mcp start [directory] [options]';
   options = [
     {
@@ -15,14 +21,78 @@ export class StartCommand implements CLICommand {
       description: 'Output in JSON format',
       type: 'boolean' as const
     },
+    {
+      long: 'script',
+      description: 'package.json script to run (dev, start, serve, storybook, watch...)',
+      type: 'string' as const,
+      default: 'dev'
+    },
+    {
+      long: 'name',
+      description: 'Process name to run alongside others in the same directory (default: script name)',
+      type: 'string' as const
+    },
+    {
+      long: 'package-manager',
+      description: `Package manager to use (${PACKAGE_MANAGERS.join(', ')}; default: auto-detect)`,
+      type: 'string' as const
+    },
+    {
+      long: 'with-deps',
+      description: 'Start workspace packages this package depends on first, in dependency order',
+      type: 'boolean' as const
+    },
+    {
+      long: 'wait-ready',
+      description: 'Wait until the server is ready (a detected port accepts connections, or the configured readiness check passes)',
+      type: 'boolean' as const
+    },
+    {
+      long: 'ready-timeout',
+      description: 'Seconds to wait for readiness with --wait-ready',
+      type: 'number' as const,
+      default: 60
+    },
+    {
+      long: 'restart',
+      description: 'Restart policy when the server exits unexpectedly (never, on-failure, always)',
+      type: 'string' as const
+    },
     {
       long: 'port',
       description: 'Specify port number',
       type: 'number' as const
     },
+    {
+      long: 'auto-port',
+      description: 'Use a free port if the expected port is already in use',
+      type: 'boolean' as const
+    },
     {
       long: 'env',
-      description: 'Path to environment file',
+      description: 'Path to an extra environment file, loaded over the .env files of the project',
+      type: 'string' as const
+    },
+    {
+      long: 'mode',
+      description: `Which .env files to load (${ENV_MODES.join(', ')})`,
+      type: 'string' as const,
+      default: 'development'
+    },
+    {
+      long: 'set',
+      description: 'Set an environment variable over the .env files as KEY=VALUE (repeatable, kept on restart)',
+      type: 'string' as const
+    },
+    {
+      long: 'inherit-env',
+      description: `Which variables of this shell to pass on (${INHERIT_ENV_MODES.join(', ')}; none keeps PATH, HOME and the like)`,
+      type: 'string' as const,
+      default: 'full'
+    },
+    {
+      long: 'env-allow',
+      description: 'Variables to pass on with --inherit-env allowlist (comma-separated)',
       type: 'string' as const
     }
   ];
@@ -34,6 +104,34 @@ export class StartCommand implements CLICommand {
       const processManager = ProcessManager.getInstance();
       const envLoader = new EnvLoader();
       const contextManager = ProjectContextManager.getInstance();
+      const requestedScript: string | undefined = options.script !== undefined ? String(options.script) : undefined;
+      let script = requestedScript || 'dev';
+
+      const packageManager = options['package-manager'];
+      if (packageManager !== undefined && !isPackageManager(packageManager)) {
+        throw new CLIError(`Invalid package manager: ${packageManager}. Use one of: ${PACKAGE_MANAGERS.join(', ')}`);
+      }
+
+      let requestedSettings: EnvSettings;
+      try {
+        requestedSettings = parseEnvSettings({
+          mode: options.mode,
+          env: this.parseAssignments(options.set),
+          inheritEnv: options['inherit-env'],
+          envAllowlist: options['env-allow'] !== undefined
+            ? String(options['env-allow']).split(',').map(key => key.trim()).filter(Boolean)
+            : undefined
+        });
+      } catch (error) {
+        throw new CLIError(error instanceof Error ? error.message : String(error));
+      }
+
+      let restart: RestartPolicyConfig | undefined;
+      try {
+        restart = options.restart !== undefined ? ProjectConfigValidator.validateRestart(String(options.restart)) : undefined;
+      } catch (error) {
+        throw new CLIError(error instanceof Error ? error.message : String(error));
+      }
 
       // Determine target directory
       let targetDirectory: string | undefined;
@@ -41,56 +139,147 @@ export class StartCommand implements CLICommand {
         targetDirectory = options._args[0];
       }
 
+      // Use the process definition from .npm-dev-mcp.json when the name matches one
+      const name = options.name !== undefined ? String(options.name) : undefined;
+      const definition = name
+        ? contextManager.getProjectConfig()?.processes.find(candidate => candidate.name === name)
+        : undefined;
+      if (definition) {
+        targetDirectory = targetDirectory || definition.cwd;
+        script = requestedScript || definition.script;
+      }
+
       // If no directory specified, use context or auto-detect
       if (!targetDirectory) {
         if (contextManager.isInitialized()) {
           const context = contextManager.getContext();
           targetDirectory = context.rootDirectory;
 
-          // Verify the project has a dev script
-          if (!context.packageJson?.scripts?.dev) {
+          // Verify the project defines the script to run
+          if (!context.packageJson?.scripts?.[script]) {
             // Try to find a suitable project
             const scanner = new ProjectScanner();
-            const projects = await scanner.scanForProjects(context.rootDirectory);
+            const project = await scanner.findBestProject(context.rootDirectory, requestedScript);
 
-            if (projects.length === 0) {
-              throw new CLIError('No projects with dev scripts found in current directory. Use "scan" command to see available projects.');
+            if (!project) {
+              const target = requestedScript ? `"${requestedScript}" script` : 'long-running scripts';
+              throw new CLIError(`No projects with ${target} found in current directory. Use "scan" command to see available projects.`);
             }
 
             // Use the highest priority project
-            targetDirectory = projects[0].directory;
+            targetDirectory = project.directory;
+            if (!requestedScript && !project.hasDevScript) {
+              script = project.scripts[0];
+            }
           }
         }
       }
 
-      // Prepare environment
-      let envPath: string | undefined = options.env;
-      if (!envPath && contextManager.isInitialized()) {
-        envPath = contextManager.getContext().envPath;
+      // Prepare environment from the layered .env files of the target directory
+      const envDirectory = resolve(targetDirectory || process.cwd());
+      const envFile = options.env !== undefined ? resolve(String(options.env)) : definition?.envFile;
+      const envSettings: EnvSettings = { ...requestedSettings, envFile };
+
+      // Add port to environment if specified (--set PORT=... still wins)
+      const port = options.port || definition?.port;
+      if (port) {
+        envSettings.overrides = { PORT: port.toString(), ...envSettings.overrides };
       }
+      const prepared = await envLoader.prepareEnvironment({ directory: envDirectory, ...envSettings });
+      const env = prepared.env;
 
-      const env = await envLoader.prepareEnvironment(envPath);
+      // Start workspace dependencies first
+      if (options['with-deps']) {
+        const scanner = new ProjectScanner();
+        const plan = await scanner.getWorkspaceStartPlan(resolve(targetDirectory || process.cwd()));
 
-      // Add port to environment if specified
-      if (options.port) {
-        env.PORT = options.port.toString();
+        for (const dependency of plan.dependencies) {
+          // Dependencies share the mode and inheritance, but the overrides are meant for the target only
+          const dependencySettings: EnvSettings = { mode: envSettings.mode, inheritEnv: envSettings.inheritEnv };
+          const { env: dependencyEnv } = await envLoader.prepareEnvironment({ directory: dependency.directory, ...dependencySettings });
+          const dependencyProcess = await processManager.startDevServer(dependency.directory, dependencyEnv, {
+            script: dependency.hasDevScript ? 'dev' : dependency.scripts[0],
+            packageManager,
+            envSettings: dependencySettings
+          });
+          if (!options.json) {
+            console.log(`📦 Started dependency ${dependency.packageJson.name} (PID ${dependencyProcess.pid})`);
+          }
+        }
+        if (plan.skipped.length > 0 && !options.json) {
+          console.log(`⏭️  Skipped dependencies without long-running scripts: ${plan.skipped.join(', ')}`);
+        }
       }
 
       // Start dev server
-      const devProcess = await processManager.startDevServer(targetDirectory, env);
+      const devProcess = await processManager.startDevServer(targetDirectory, env, {
+        script,
+        packageManager: packageManager || definition?.packageManager,
+        name,
+        readiness: definition?.readiness,
+        waitForReady: !!options['wait-ready'],
+        readyTimeout: options['ready-timeout'] ? Number(options['ready-timeout']) * 1000 : undefined,
+        restart: restart || definition?.restart,
+        autoPort: !!options['auto-port'],
+        envSettings
+      });
 
       // Wait a moment for potential port detection
       await new Promise(resolve => setTimeout(resolve, 2000));
 
       // Get updated status
       const allProcesses = await processManager.getStatus();
-      const finalProcess = allProcesses.find(p => p.directory === devProcess.directory) || devProcess;
+      const finalProcess = allProcesses.find(
+        p => p.directory === devProcess.directory && p.name === devProcess.name
+      ) || devProcess;
 
       const output = this.formatter.formatStartResult(finalProcess, options.json);
       console.log(output);
+      if (!options.json && prepared.files.length > 0) {
+        console.log(`  🌍 Env files (${prepared.mode}): ${prepared.files.map(file => relative(envDirectory, file)).join(', ')}`);
+      }
+      if (!options.json && envSettings.overrides) {
+        console.log(`  🧩 Env overrides: ${Object.keys(envSettings.overrides).join(', ')}`);
+      }
+      if (!options.json && envSettings.inheritEnv && envSettings.inheritEnv.mode !== 'full') {
+        console.log(`  🔒 Inherited env: ${envSettings.inheritEnv.mode}${envSettings.inheritEnv.allow ? ` (${envSettings.inheritEnv.allow.join(', ')})` : ''}`);
+      }
+      if (!options.json && devProcess.defaultPortInUse) {
+        const { port, owner } = devProcess.defaultPortInUse;
+        console.log(`  ⚠️  Default port ${port} is in use${owner ? ` by PID ${owner.pid}${owner.command ? ` (${owner.command})` : ''}` : ''}, the dev server picks a free port`);
+      }
+      if (!options.json) {
+        for (const warning of prepared.warnings) {
+          console.log(`  ⚠️  ${warning}`);
+        }
+      }
 
     } catch (error) {
+      if (error instanceof ProcessNotReadyError && !options.json) {
+        console.log(this.formatter.formatLogs(error.lastLogs, false));
+      }
+      if (error instanceof PortConflictError && !error.reason && !options.json) {
+        console.log('💡 Use --auto-port to start on a free port instead');
+      }
       throw new CLIError(`Failed to start dev server: ${error}`, 1);
     }
   }
+
+  /**
+   * --set KEY=VALUE（複数指定可）を変数の一覧にする
+   */
+  private parseAssignments(value: unknown): Record<string, string> | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    const assignments: Record<string, string> = {};
+    for (const assignment of [value].flat().map(String)) {
+      const separator = assignment.indexOf('=');
+      if (separator <= 0) {
+        throw new Error(`Invalid --set value: ${assignment}. Use KEY=VALUE`);
+      }
+      assignments[assignment.slice(0, separator)] = assignment.slice(separator + 1);
+    }
+    return assignments;
+  }
 }
\ No newline at end of file
@@ -12,10 +12,21 @@ export class StopCommand implements CLICommand {
       description: 'Output in JSON format',
       type: 'boolean' as const
     },
+    {
+      long: 'name',
+      description: 'Process name to stop (when several run in the same directory)',
+      type: 'string' as const
+    },
+    {
+      long: 'grace-period',
+      description: 'Seconds to wait after SIGTERM before sending SIGKILL',
+      type: 'number' as const,
+      default: 3
+    },
     {
       long: 'force',
       short: 'f',
-      description: 'Force stop the server',
+      description: 'Force stop the server (SIGKILL without waiting)',
       type: 'boolean' as const
     }
   ];
@@ -36,22 +47,27 @@ export class StopCommand implements CLICommand {
         return;
       }
 
-      // Stop the server
-      const success = await processManager.stopDevServer();
-      
-      if (!success && options.force) {
-        // Force stop not implemented in ProcessManager yet, but we can indicate it was attempted
-        console.log('🔨 Force stop attempted...');
-      }
-      
-      if (success || !options.force) {
-        const output = this.formatter.formatStopResult(wasRunning, options.json);
-        console.log(output);
-      } else {
+      // Stop the server and every process it spawned
+      const gracePeriod = options.force
+        ? 0
+        : options['grace-period'] !== undefined ? Number(options['grace-period']) * 1000 : undefined;
+      const result = await processManager.stopDevServer(
+        undefined,
+        options.name !== undefined ? String(options.name) : undefined,
+        { gracePeriod }
+      );
+
+      const output = this.formatter.formatStopResult(wasRunning, options.json, result);
+      console.log(output);
+
+      if (!result.success) {
         throw new CLIError('Failed to stop dev server', 1);
       }
 
     } catch (error) {
+      if (error instanceof CLIError) {
+        throw error;
+      }
       throw new CLIError(`Failed to stop dev server: ${error}`, 1);
     }
   }
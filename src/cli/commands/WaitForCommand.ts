@@ -0,0 +1,127 @@
+import { CLICommand, CLIOptions, CLIError } from '../types.js';
+import { OutputFormatter } from '../OutputFormatter.js';
+import { ProcessManager } from '../../components/ProcessManager.js';
+import { LogWaiter } from '../../components/LogWaiter.js';
+import { LogFilter, parseLogFilter } from '../../utils/logFilter.js';
+
+export class WaitForCommand implements CLICommand {
+  name = 'wait-for';
+  description = 'Wait until a log line matching a pattern appears in the dev server output';
+  usage = 'npx npm-dev-mcp wait-for <pattern> [options]';
+  options = [
+    {
+      long: 'json',
+      description: 'Output in JSON format',
+      type: 'boolean' as const
+    },
+    {
+      long: 'name',
+      description: 'Process name to watch (when several are running)',
+      type: 'string' as const
+    },
+    {
+      long: 'timeout',
+      description: 'Seconds to wait before giving up',
+      type: 'number' as const,
+      default: 30
+    },
+    {
+      long: 'ignore-case',
+      description: 'Match the pattern case-insensitively',
+      type: 'boolean' as const
+    },
+    {
+      long: 'level',
+      description: 'Only match lines of these levels (info, warn, error; comma-separated)',
+      type: 'string' as const
+    },
+    {
+      long: 'source',
+      description: 'Only match lines from an output stream (stdout, stderr)',
+      type: 'string' as const
+    },
+    {
+      long: 'context',
+      description: 'Lines to show before and after the match',
+      type: 'number' as const,
+      default: 5
+    },
+    {
+      long: 'ignore-exit',
+      description: 'Keep waiting even if the process exits',
+      type: 'boolean' as const
+    }
+  ];
+
+  private formatter = new OutputFormatter();
+
+  async execute(args: string[], options: CLIOptions): Promise<void> {
+    try {
+      const pattern = options._args?.[0];
+      if (pattern === undefined) {
+        throw new CLIError('A pattern is required. Usage: ' + this.usage, 1);
+      }
+
+      let filter: LogFilter;
+      try {
+        filter = parseLogFilter({
+          pattern: String(pattern),
+          ignoreCase: options['ignore-case'],
+          level: options.level,
+          source: options.source
+        });
+      } catch (error) {
+        throw new CLIError(error instanceof Error ? error.message : String(error), 1);
+      }
+
+      const processManager = ProcessManager.getInstance();
+      const status = await processManager.getStatus();
+      if (status.length === 0) {
+        throw new CLIError('No dev server is running. Start it with "start" command.', 1);
+      }
+
+      const targetProcess = options.name
+        ? status.find(p => p.name === String(options.name))
+        : status[0];
+      if (!targetProcess) {
+        throw new CLIError(`No process named "${options.name}" is running.`, 1);
+      }
+
+      const logManager = processManager.getLogManager(targetProcess.directory, targetProcess.name);
+      if (!logManager) {
+        throw new CLIError('Failed to get log manager for process', 1);
+      }
+
+      if (!options.json) {
+        console.log(`⏳ Waiting for /${filter.pattern!.source}/ in ${targetProcess.name}...`);
+      }
+
+      const waiter = new LogWaiter();
+      const result = await waiter.waitForLog({
+        name: targetProcess.name,
+        logManager,
+        getStatus: () => processManager.getProcess(targetProcess.directory, targetProcess.name)?.status ?? 'stopped'
+      }, {
+        filter,
+        timeout: (options.timeout !== undefined ? Number(options.timeout) : 30) * 1000,
+        failOnExit: !options['ignore-exit'],
+        context: options.context !== undefined ? Number(options.context) : undefined
+      });
+
+      console.log(this.formatter.formatLogWaitResult(result, options.json));
+
+      if (result.outcome !== 'matched') {
+        throw new CLIError(
+          result.outcome === 'timeout' ? 'Timed out waiting for the pattern' : 'Process exited before the pattern appeared',
+          1
+        );
+      }
+
+    } catch (error) {
+      if (error instanceof CLIError) {
+        throw error;
+      }
+      throw new CLIError(`Failed to wait for log: ${error}`, 1);
+    }
+  }
+}
@@ -1,17 +1,166 @@
 import { promises as fs } from 'fs';
+import { join, relative } from 'path';
+import { EnvFileOrder, EnvMode, EnvSettings, InheritEnvPolicy } from '../types.js';
+import { DotenvEntry, DotenvParseResult, expandDotenv, parseDotenv } from '../utils/dotenv.js';
+import { fileExists, readJsonFile } from '../utils/fileSystem.js';
 import { Logger } from '../utils/logger.js';
+import { FrameworkAdapter, FrameworkDetector } from './FrameworkDetector.js';
+
+export const ENV_MODES: EnvMode[] = ['development', 'test', 'production'];
+
+export function isEnvMode(value: unknown): value is EnvMode {
+  return typeof value === 'string' && (ENV_MODES as string[]).includes(value);
+}
+
+/**
+ * モードで読み込む.envファイル名（優先度の低い順）
+ */
+export function getEnvFileNames(mode: EnvMode, order: EnvFileOrder = 'vite'): string[] {
+  if (order === 'next') {
+    // Tests should produce the same results for everyone, so Next.js skips .env.local
+    return ['.env', `.env.${mode}`, ...(mode === 'test' ? [] : ['.env.local']), `.env.${mode}.local`];
+  }
+  return ['.env', '.env.local', `.env.${mode}`, `.env.${mode}.local`];
+}
+
+/**
+ * ディレクトリにある.envファイル（全モード分）を探す
+ */
+export async function findEnvFiles(directory: string): Promise<string[]> {
+  const names = ['.env', '.env.local', ...ENV_MODES.flatMap(mode => [`.env.${mode}`, `.env.${mode}.local`])];
+  const found: string[] = [];
+  for (const name of names) {
+    const envPath = join(directory, name);
+    if (await fileExists(envPath)) {
+      found.push(envPath);
+    }
+  }
+  return found;
+}
+
+export const INHERIT_ENV_MODES: InheritEnvPolicy['mode'][] = ['full', 'allowlist', 'none'];
+
+/**
+ * inheritEnvがfull以外でも引き継ぐ、コマンドの実行に必要な変数（Windowsでの名前を含む）
+ */
+export const ESSENTIAL_ENV = ['PATH', 'HOME', 'TMPDIR', 'TEMP', 'TMP', 'USERPROFILE', 'APPDATA', 'SYSTEMROOT', 'COMSPEC', 'PATHEXT'];
+
+// Names accepted as variable overrides (no "=" or whitespace)
+const ENV_NAME_PATTERN = /^[A-Za-z_][\w.-]*$/;
+
+/**
+ * ポリシーに従って引き継ぐ環境変数を選ぶ（WindowsではPathのように大文字小文字が異なるため区別しない）
+ */
+export function getInheritedEnv(
+  policy: InheritEnvPolicy = { mode: 'full' },
+  source: Record<string, string | undefined> = process.env
+): Record<string, string> {
+  const allowed = new Set(
+    [...ESSENTIAL_ENV, ...(policy.mode === 'allowlist' ? policy.allow || [] : [])].map(key => key.toUpperCase())
+  );
+  const inherited: Record<string, string> = {};
+  for (const [key, value] of Object.entries(source)) {
+    if (value !== undefined && (policy.mode === 'full' || allowed.has(key.toUpperCase()))) {
+      inherited[key] = value;
+    }
+  }
+  return inherited;
+}
+
+/**
+ * ツール・CLIの引数から環境変数の指定を作る
+ *
+ * envの値は文字列のほか数値・真偽値も受け付けて文字列にする。
+ * envAllowlistだけが指定された場合はinheritEnvをallowlistとみなす。
+ */
+export function parseEnvSettings(input: {
+  mode?: unknown;
+  envFile?: string;
+  env?: unknown;
+  inheritEnv?: unknown;
+  envAllowlist?: unknown;
+}): EnvSettings {
+  if (input.mode !== undefined && !isEnvMode(input.mode)) {
+    throw new Error(`Invalid mode: ${JSON.stringify(input.mode)}. Use one of: ${ENV_MODES.join(', ')}`);
+  }
+
+  let overrides: Record<string, string> | undefined;
+  if (input.env !== undefined) {
+    if (typeof input.env !== 'object' || input.env === null || Array.isArray(input.env)) {
+      throw new Error(`Invalid env: ${JSON.stringify(input.env)}. Must be an object of variable names and values`);
+    }
+    overrides = {};
+    for (const [key, value] of Object.entries(input.env)) {
+      if (!ENV_NAME_PATTERN.test(key)) {
+        throw new Error(`Invalid env variable name: ${JSON.stringify(key)}`);
+      }
+      if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+        throw new Error(`Invalid env.${key}: ${JSON.stringify(value)}. Must be a string`);
+      }
+      overrides[key] = String(value);
+    }
+  }
+
+  let allow: string[] | undefined;
+  if (input.envAllowlist !== undefined) {
+    if (!Array.isArray(input.envAllowlist) || input.envAllowlist.some(key => typeof key !== 'string' || !ENV_NAME_PATTERN.test(key))) {
+      throw new Error(`Invalid envAllowlist: ${JSON.stringify(input.envAllowlist)}. Must be an array of variable names`);
+    }
+    allow = input.envAllowlist;
+  }
+
+  const inheritMode = input.inheritEnv ?? (allow ? 'allowlist' : undefined);
+  if (inheritMode !== undefined && !(INHERIT_ENV_MODES as unknown[]).includes(inheritMode)) {
+    throw new Error(`Invalid inheritEnv: ${JSON.stringify(inheritMode)}. Use one of: ${INHERIT_ENV_MODES.join(', ')}`);
+  }
+  if (allow && inheritMode !== 'allowlist') {
+    throw new Error('envAllowlist can only be used with inheritEnv "allowlist"');
+  }
+
+  return {
+    ...(input.mode !== undefined ? { mode: input.mode } : {}),
+    ...(input.envFile !== undefined ? { envFile: input.envFile } : {}),
+    ...(overrides ? { overrides } : {}),
+    ...(inheritMode !== undefined ? { inheritEnv: { mode: inheritMode as InheritEnvPolicy['mode'], ...(allow ? { allow } : {}) } } : {})
+  };
+}
+
+export interface EnvOptions extends EnvSettings {
+  /** このディレクトリの.envファイルをモードに応じて読み込む */
+  directory?: string;
+  /** 優先順位の判定に使うフレームワーク（省略時はdirectoryのpackage.jsonから判定） */
+  framework?: FrameworkAdapter | null;
+}
+
+export interface PreparedEnvironment {
+  env: Record<string, string>;
+  mode: EnvMode;
+  order: EnvFileOrder;
+  /** 読み込んだファイル（優先度の低い順） */
+  files: string[];
+  /** .envファイルまたはoverridesで定義された変数ごとの採用元（directoryからの相対パス、process.env、またはoverride） */
+  sources: Record<string, string>;
+  /** 解析できなかった行の警告（"ファイル:行: 内容"） */
+  warnings: string[];
+}
 
 export class EnvLoader {
   private logger = Logger.getInstance();
+  private frameworkDetector = new FrameworkDetector();
 
-  async loadEnvFile(filePath: string): Promise<Record<string, string>> {
+  async loadEnvFile(filePath: string): Promise<DotenvParseResult> {
     try {
       this.logger.debug(`Loading environment file: ${filePath}`);
       const content = await fs.readFile(filePath, 'utf-8');
-      return this.parseEnvFile(content);
+      const result = parseDotenv(content);
+      for (const warning of result.warnings) {
+        this.logger.warn(`${filePath}:${warning.line}: ${warning.message}`);
+      }
+      this.logger.debug(`Parsed ${result.entries.length} environment variables`);
+      return result;
     } catch (error) {
       this.logger.warn(`Failed to load env file ${filePath}`, { error });
-      return {};
+      return { entries: [], warnings: [] };
     }
   }
 
@@ -22,61 +171,77 @@ export class EnvLoader {
     return { ...base, ...additional };
   }
 
-  private parseEnvFile(content: string): Record<string, string> {
-    const env: Record<string, string> = {};
-    const lines = content.split('\n');
+  /**
+   * 子プロセスに渡す環境変数を準備する
+   *
+   * Vite・Next.jsと同じく、モードに応じた.envファイルを優先度の低い順にすべて読み込み、
+   * 既に設定されている環境変数（process.envのうちinheritEnvで引き継ぐもの）は上書きしない。
+   * overridesはそのどちらよりも優先する。
+   */
+  async prepareEnvironment(options: EnvOptions = {}): Promise<PreparedEnvironment> {
+    const mode = options.mode || 'development';
+    const framework = options.framework !== undefined
+      ? options.framework
+      : options.directory ? await this.detectFramework(options.directory) : null;
+    const order = framework?.envFileOrder || 'vite';
 
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      
-      // Skip empty lines and comments
-      if (!trimmedLine || trimmedLine.startsWith('#')) {
-        continue;
-      }
+    const candidates = options.directory
+      ? getEnvFileNames(mode, order).map(name => join(options.directory!, name))
+      : [];
+    if (options.envFile && !candidates.includes(options.envFile)) {
+      candidates.push(options.envFile);
+    }
 
-      // Find the first = sign
-      const equalIndex = trimmedLine.indexOf('=');
-      if (equalIndex === -1) {
+    const files: string[] = [];
+    const entries = new Map<string, DotenvEntry>();
+    const sources: Record<string, string> = {};
+    const warnings: string[] = [];
+    for (const file of candidates) {
+      if (!(await fileExists(file))) {
         continue;
       }
-
-      const key = trimmedLine.substring(0, equalIndex).trim();
-      let value = trimmedLine.substring(equalIndex + 1).trim();
-
-      // Remove surrounding quotes if present
-      if ((value.startsWith('"') && value.endsWith('"')) ||
-          (value.startsWith("'") && value.endsWith("'"))) {
-        value = value.slice(1, -1);
+      const result = await this.loadEnvFile(file);
+      const source = options.directory ? relative(options.directory, file) : file;
+      files.push(file);
+      for (const entry of result.entries) {
+        entries.set(entry.key, entry);
+        sources[entry.key] = source;
       }
+      warnings.push(...result.warnings.map(warning => `${source}:${warning.line}: ${warning.message}`));
+    }
 
-      // Handle escaped characters
-      value = value
-        .replace(/\\n/g, '\n')
-        .replace(/\\r/g, '\r')
-        .replace(/\\t/g, '\t')
-        .replace(/\\\\/g, '\\')
-        .replace(/\\"/g, '"')
-        .replace(/\\'/g, "'");
-
-      if (key) {
-        env[key] = value;
+    // Inherited variables take precedence over the files, and the overrides over both
+    const baseEnv = { ...getInheritedEnv(options.inheritEnv), ...options.overrides };
+    for (const key of Object.keys(sources)) {
+      if (baseEnv[key] !== undefined) {
+        sources[key] = 'process.env';
       }
     }
+    for (const key of Object.keys(options.overrides || {})) {
+      sources[key] = 'override';
+    }
+    // Expand after layering, so a reference resolves to the value that wins across all files
+    const fileVars = expandDotenv(entries, baseEnv);
 
-    this.logger.debug(`Parsed ${Object.keys(env).length} environment variables`);
-    return env;
+    if (files.length > 0) {
+      this.logger.debug(`Loaded env files for ${mode}: ${files.join(', ')}`);
+    }
+    return {
+      env: await this.mergeEnvVars(fileVars, baseEnv),
+      mode,
+      order,
+      files,
+      sources,
+      warnings
+    };
   }
 
-  async prepareEnvironment(envPath?: string): Promise<Record<string, string>> {
-    // Start with current process environment
-    const baseEnv = { ...process.env } as Record<string, string>;
-    
-    if (!envPath) {
-      return baseEnv;
+  private async detectFramework(directory: string): Promise<FrameworkAdapter | null> {
+    try {
+      const packageJson = await readJsonFile(join(directory, 'package.json'));
+      return (await this.frameworkDetector.detect(directory, packageJson))?.adapter || null;
+    } catch {
+      return null;
     }
-
-    // Load and merge .env file
-    const envFileVars = await this.loadEnvFile(envPath);
-    return this.mergeEnvVars(baseEnv, envFileVars);
   }
-}
\ No newline at end of file
+}
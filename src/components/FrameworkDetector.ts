@@ -0,0 +1,262 @@
+import { join } from 'path';
+import { EnvFileOrder, FrameworkId, FrameworkInfo } from '../types.js';
+import { fileExists, findUpwards, readJsonFile } from '../utils/fileSystem.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * フレームワークごとの起動・ログ出力の違い
+ */
+export interface FrameworkAdapter {
+  id: FrameworkId;
+  name: string;
+  /** 依存関係に含まれていればこのフレームワークとみなすパッケージ（先頭をバージョン表示に使う） */
+  packages: string[];
+  /** 依存関係から判断できない場合に使う設定ファイル */
+  configFiles: string[];
+  /** 開発サーバーを起動するスクリプトのコマンド */
+  commandPattern: RegExp;
+  /** Viteの開発サーバーをそのまま使う（`vite dev`でも起動できる） */
+  usesViteCli?: boolean;
+  defaultPort: number;
+  /** ポートを指定するフラグ（無ければ環境変数PORTだけで指定する） */
+  portFlag?: string;
+  /** 既定ポートが使用中なら開発サーバー自身が次の空きポートを選ぶ（終了・確認待ちにならない） */
+  findsFreePort?: boolean;
+  /** 起動が完了したときに出力される行（ReadinessCheckerに渡すためフラグ無しで書く） */
+  readyPattern: RegExp;
+  /** コンパイルエラーの見出し行 */
+  errorPatterns: RegExp[];
+  /** HMR・再ビルドで変更が反映されたことを示す行 */
+  hmrPatterns: RegExp[];
+  /** .envファイルの優先順位（デフォルト: vite） */
+  envFileOrder?: EnvFileOrder;
+}
+
+export interface DetectedFramework extends FrameworkInfo {
+  adapter: FrameworkAdapter;
+}
+
+// Vite本体と、Viteの上に乗るフレームワークで共通の出力
+const VITE_READY = /ready in \d+(\.\d+)? ?m?s|➜ +Local: +http/;
+const VITE_ERRORS = [/\[vite\] (Internal server error|Pre-transform error|error)\b/i, /^\s*✘ \[ERROR\]/, /\[plugin:[\w:@/-]+\]/];
+const VITE_HMR = [/\[vite\] (\(\w+\) )?hmr update\b/, /\[vite\] (\(\w+\) )?page reload\b/];
+
+/**
+ * 対応フレームワーク
+ *
+ * 上から順に判定するため、Viteの上に乗るフレームワークをViteより前に置く。
+ * Storybookは他のフレームワークと併用されるため最後に置き、スクリプトのコマンドで判定する。
+ */
+export const FRAMEWORK_ADAPTERS: FrameworkAdapter[] = [
+  {
+    id: 'next',
+    name: 'Next.js',
+    packages: ['next'],
+    configFiles: ['next.config.js', 'next.config.mjs', 'next.config.ts'],
+    commandPattern: /\bnext\s+dev\b/,
+    defaultPort: 3000,
+    portFlag: '--port',
+    readyPattern: /✓ Ready in|ready - started server|[Rr]eady on http/,
+    errorPatterns: [/^\s*⨯ /, /Failed to compile/, /^error - /],
+    hmrPatterns: [/✓ Compiled\b/, /compiled (successfully|client and server)/, /^event - compiled/],
+    envFileOrder: 'next'
+  },
+  {
+    id: 'nuxt',
+    name: 'Nuxt',
+    packages: ['nuxt'],
+    configFiles: ['nuxt.config.ts', 'nuxt.config.js', 'nuxt.config.mjs'],
+    commandPattern: /\bnuxi?\s+dev\b/,
+    defaultPort: 3000,
+    portFlag: '--port',
+    readyPattern: /Vite client (built|warmed up) in|Nuxt .*ready in|Nitro built in/,
+    errorPatterns: [/^\s*(ERROR|\[nuxt\] \[error\])\b/, ...VITE_ERRORS],
+    hmrPatterns: [...VITE_HMR, /Vite server hmr \d+ files? in/]
+  },
+  {
+    id: 'astro',
+    name: 'Astro',
+    packages: ['astro'],
+    configFiles: ['astro.config.mjs', 'astro.config.js', 'astro.config.ts', 'astro.config.mts'],
+    commandPattern: /\bastro\s+dev\b/,
+    defaultPort: 4321,
+    portFlag: '--port',
+    findsFreePort: true,
+    readyPattern: /astro +v[\d.]+ ready in/,
+    errorPatterns: [/^\s*(\d{2}:\d{2}:\d{2} )?\[ERROR\]/, ...VITE_ERRORS],
+    hmrPatterns: [...VITE_HMR, /\[watch\] /]
+  },
+  {
+    id: 'remix',
+    name: 'Remix',
+    packages: ['@remix-run/dev'],
+    configFiles: ['remix.config.js', 'remix.config.mjs'],
+    commandPattern: /\bremix\s+(vite:)?dev\b/,
+    usesViteCli: true,
+    // The Vite-based dev server; the classic compiler serves the app on PORT (3000)
+    defaultPort: 5173,
+    portFlag: '--port',
+    readyPattern: new RegExp(`${VITE_READY.source}|\\[remix-serve\\] http|Remix App Server started`),
+    errorPatterns: [...VITE_ERRORS],
+    hmrPatterns: [...VITE_HMR, /💿 (Rebuilt|Built) in/]
+  },
+  {
+    id: 'sveltekit',
+    name: 'SvelteKit',
+    packages: ['@sveltejs/kit'],
+    configFiles: ['svelte.config.js', 'svelte.config.mjs'],
+    commandPattern: /\bsvelte-kit\s+dev\b/,
+    usesViteCli: true,
+    defaultPort: 5173,
+    portFlag: '--port',
+    findsFreePort: true,
+    readyPattern: VITE_READY,
+    errorPatterns: [...VITE_ERRORS, /\[vite-plugin-svelte\] .*error/i],
+    hmrPatterns: VITE_HMR
+  },
+  {
+    id: 'angular',
+    name: 'Angular',
+    packages: ['@angular/core', '@angular/cli'],
+    configFiles: ['angular.json'],
+    commandPattern: /\bng\s+serve\b/,
+    defaultPort: 4200,
+    portFlag: '--port',
+    readyPattern: /Compiled successfully|Application bundle generation complete|Angular Live Development Server is listening/,
+    errorPatterns: [/^\s*✘ \[ERROR\]/, /^\s*Error: src\//, /^ERROR in /, /Application bundle generation failed/],
+    hmrPatterns: [/Page reload sent to client/, /Component update sent to client/, /Application bundle generation complete/]
+  },
+  {
+    id: 'gatsby',
+    name: 'Gatsby',
+    packages: ['gatsby'],
+    configFiles: ['gatsby-config.js', 'gatsby-config.ts', 'gatsby-config.mjs'],
+    commandPattern: /\bgatsby\s+develop\b/,
+    defaultPort: 8000,
+    portFlag: '--port',
+    readyPattern: /You can now view .* in the browser/,
+    errorPatterns: [/^\s*ERROR( #\d+)?\b/],
+    hmrPatterns: [/success Re-building development bundle/]
+  },
+  {
+    id: 'react-scripts',
+    name: 'Create React App',
+    packages: ['react-scripts'],
+    configFiles: [],
+    commandPattern: /\breact-scripts\s+start\b/,
+    // react-scripts has no port flag and reads PORT only
+    defaultPort: 3000,
+    readyPattern: /Compiled successfully|You can now view .* in the browser/,
+    errorPatterns: [/Failed to compile/],
+    hmrPatterns: [/Compiled successfully/, /Compiled with warnings/],
+    envFileOrder: 'next'
+  },
+  {
+    id: 'vite',
+    name: 'Vite',
+    packages: ['vite'],
+    configFiles: ['vite.config.ts', 'vite.config.js', 'vite.config.mts', 'vite.config.mjs', 'vite.config.cjs'],
+    commandPattern: /\bvite\b(?!\s+build)/,
+    defaultPort: 5173,
+    portFlag: '--port',
+    findsFreePort: true,
+    readyPattern: VITE_READY,
+    errorPatterns: VITE_ERRORS,
+    hmrPatterns: VITE_HMR
+  },
+  {
+    id: 'storybook',
+    name: 'Storybook',
+    packages: ['storybook'],
+    configFiles: [],
+    commandPattern: /\bstorybook\s+dev\b|\bstart-storybook\b/,
+    defaultPort: 6006,
+    portFlag: '--port',
+    readyPattern: /Storybook [\d.]+[\w.-]* (for [\w-]+ )?started/,
+    errorPatterns: [/^\s*(SB_[A-Z_]+\d*|ERR!) /],
+    hmrPatterns: []
+  }
+];
+
+export function getFrameworkAdapter(id: FrameworkId): FrameworkAdapter | null {
+  return FRAMEWORK_ADAPTERS.find(adapter => adapter.id === id) || null;
+}
+
+/**
+ * 依存関係と設定ファイルからプロジェクトのフレームワークを判定する
+ */
+export class FrameworkDetector {
+  private logger = Logger.getInstance();
+
+  async detect(directory: string, packageJson: any): Promise<DetectedFramework | null> {
+    const dependencies: Record<string, string> = {
+      ...packageJson?.devDependencies,
+      ...packageJson?.dependencies
+    };
+
+    let adapter = FRAMEWORK_ADAPTERS.find(candidate => candidate.packages.some(pkg => dependencies[pkg]));
+    if (!adapter) {
+      for (const candidate of FRAMEWORK_ADAPTERS) {
+        if (await this.hasConfigFile(directory, candidate)) {
+          adapter = candidate;
+          break;
+        }
+      }
+    }
+    if (!adapter) {
+      return null;
+    }
+
+    const version = await this.getVersion(directory, adapter, dependencies);
+    this.logger.debug(`Detected ${adapter.name}${version ? ` ${version}` : ''} in ${directory}`);
+    return { id: adapter.id, name: adapter.name, version, adapter };
+  }
+
+  /**
+   * スクリプトのコマンドを実行するフレームワークを選ぶ
+   *
+   * `vite dev`のように複数のフレームワークに当てはまるコマンドは、プロジェクトで検出した
+   * フレームワークを優先する。コマンドがどのフレームワークにも当てはまらなければnull
+   * （`node server.js`などにフレームワークの既定ポートを当てはめないため）。
+   */
+  resolveForScript(scriptCommand: string, detected?: DetectedFramework | null): DetectedFramework | null {
+    const adapter = FRAMEWORK_ADAPTERS.find(candidate => candidate.commandPattern.test(scriptCommand));
+    if (!adapter) {
+      return null;
+    }
+    if (detected && (adapter === detected.adapter || (adapter.id === 'vite' && detected.adapter.usesViteCli))) {
+      return detected;
+    }
+    return { id: adapter.id, name: adapter.name, adapter };
+  }
+
+  private async hasConfigFile(directory: string, adapter: FrameworkAdapter): Promise<boolean> {
+    for (const configFile of adapter.configFiles) {
+      if (await fileExists(join(directory, configFile))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * インストール済みのバージョン（node_modulesを親ディレクトリまで探す）、無ければpackage.jsonの指定
+   */
+  private async getVersion(directory: string, adapter: FrameworkAdapter, dependencies: Record<string, string>): Promise<string | undefined> {
+    const pkg = adapter.packages.find(candidate => dependencies[candidate]) || adapter.packages[0];
+
+    const installed = await findUpwards(directory, join('node_modules', pkg, 'package.json'));
+    if (installed) {
+      try {
+        const { version } = await readJsonFile(installed);
+        if (typeof version === 'string') {
+          return version;
+        }
+      } catch {
+        // Fall back to the declared range
+      }
+    }
+
+    return dependencies[pkg];
+  }
+}
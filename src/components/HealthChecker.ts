@@ -1,6 +1,7 @@
 import { Logger } from '../utils/logger.js';
 import { ProcessManager } from './ProcessManager.js';
 import { ProjectContextManager } from '../context/ProjectContextManager.js';
+import { isActiveStatus } from '../utils/processUtils.js';
 
 export interface HealthStatus {
   isHealthy: boolean;
@@ -89,7 +90,7 @@ export class HealthChecker {
       const processManager = ProcessManager.getInstance();
       const processes = await processManager.getStatus();
 
-      if (processes.some(p => p.status === 'running')) {
+      if (processes.some(p => isActiveStatus(p.status))) {
         devServerStatus = 'running';
       }
 
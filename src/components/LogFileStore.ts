@@ -0,0 +1,193 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import { basename, join } from 'path';
+import { LogEntry } from '../types.js';
+import { LogFileConfig, LogFileConfigValidator } from '../config/LogFileConfig.js';
+import { Logger } from '../utils/logger.js';
+
+// 先頭行のタイムスタンプを読むために読み込むバイト数
+const HEAD_BYTES = 4096;
+
+/**
+ * ディレクトリとプロセス名からログファイル名（拡張子なし）を作る
+ *
+ * 同名のディレクトリを区別するため、フルパスのハッシュを付ける。
+ */
+export function getLogFileName(directory: string, name: string): string {
+  const sanitize = (value: string) => value.replace(/[^A-Za-z0-9._-]/g, '_');
+  const hash = createHash('sha1').update(directory).digest('hex').slice(0, 8);
+  return `${sanitize(basename(directory))}-${sanitize(name)}-${hash}`;
+}
+
+/**
+ * 1プロセス分のログをJSON Lines形式でディスクに保存する
+ *
+ * `<name>.log`に追記し、サイズまたは経過時間が上限を超えたら`<name>.log.1`, `.log.2`...へローテーションする。
+ * 同じディレクトリとプロセス名であれば過去の実行分も同じファイル群に残る。
+ */
+export class LogFileStore {
+  private logger = Logger.getInstance();
+  private pending: string[] = [];
+  private writeChain: Promise<void> = Promise.resolve();
+  private flushScheduled = false;
+  /** 現在のファイルの先頭行の時刻（undefinedは未確認） */
+  private firstEntryTime: number | null | undefined = undefined;
+  readonly filePath: string;
+
+  constructor(
+    directory: string,
+    name: string,
+    private config: LogFileConfig = LogFileConfigValidator.validateLogFileConfig(process.env)
+  ) {
+    this.filePath = join(config.directory, `${getLogFileName(directory, name)}.log`);
+  }
+
+  append(entry: LogEntry): void {
+    this.pending.push(JSON.stringify({
+      timestamp: entry.timestamp.toISOString(),
+      level: entry.level,
+      source: entry.source,
+      message: entry.message,
+      raw: entry.raw
+    }) + '\n');
+
+    // Batch lines written in the same tick into one append
+    if (!this.flushScheduled) {
+      this.flushScheduled = true;
+      setImmediate(() => {
+        this.flushScheduled = false;
+        this.flush();
+      });
+    }
+  }
+
+  /**
+   * 未書き込みの行をファイルに書き出す
+   */
+  flush(): Promise<void> {
+    this.writeChain = this.writeChain
+      .then(() => this.writePending())
+      .catch(error => {
+        this.logger.warn(`Failed to write log file ${this.filePath}`, { error });
+      });
+    return this.writeChain;
+  }
+
+  /**
+   * ローテーション済みのファイルも含めて新しい順に遡り、直近のログを古い順で返す
+   */
+  async readRecent(lines: number): Promise<LogEntry[]> {
+    await this.flush();
+
+    let entries: LogEntry[] = [];
+    for (const file of this.getFiles()) {
+      let content: string;
+      try {
+        content = await fs.readFile(file, 'utf-8');
+      } catch {
+        continue; // Not rotated that far yet
+      }
+
+      entries = this.parseLines(content).concat(entries);
+      if (entries.length >= lines) {
+        break;
+      }
+    }
+
+    return entries.slice(Math.max(0, entries.length - lines));
+  }
+
+  private async writePending(): Promise<void> {
+    if (this.pending.length === 0) {
+      return;
+    }
+
+    const chunk = this.pending.join('');
+    this.pending = [];
+
+    await fs.mkdir(this.config.directory, { recursive: true });
+    await this.rotateIfNeeded();
+    await fs.appendFile(this.filePath, chunk);
+
+    if (!this.firstEntryTime) {
+      this.firstEntryTime = await this.readFirstEntryTime();
+    }
+  }
+
+  private async rotateIfNeeded(): Promise<void> {
+    let size: number;
+    try {
+      size = (await fs.stat(this.filePath)).size;
+    } catch {
+      return; // Nothing written yet
+    }
+
+    if (this.firstEntryTime === undefined) {
+      this.firstEntryTime = await this.readFirstEntryTime();
+    }
+
+    const tooLarge = size >= this.config.maxSize;
+    const tooOld = this.firstEntryTime !== null && Date.now() - this.firstEntryTime >= this.config.maxAge;
+    if (!tooLarge && !tooOld) {
+      return;
+    }
+
+    this.logger.debug(`Rotating log file ${this.filePath}`, { size, tooOld });
+
+    const files = this.getFiles();
+    await fs.rm(files[files.length - 1], { force: true });
+    for (let i = files.length - 2; i >= 0; i--) {
+      try {
+        await fs.rename(files[i], files[i + 1]);
+      } catch {
+        // Ignore missing files in the rotation chain
+      }
+    }
+    this.firstEntryTime = null;
+  }
+
+  private async readFirstEntryTime(): Promise<number | null> {
+    let handle;
+    try {
+      handle = await fs.open(this.filePath, 'r');
+      const buffer = Buffer.alloc(HEAD_BYTES);
+      const { bytesRead } = await handle.read(buffer, 0, HEAD_BYTES, 0);
+      const firstLine = buffer.toString('utf-8', 0, bytesRead).split('\n')[0];
+      const time = new Date(JSON.parse(firstLine).timestamp).getTime();
+      return Number.isNaN(time) ? null : time;
+    } catch {
+      return null;
+    } finally {
+      await handle?.close();
+    }
+  }
+
+  /** 現在のファイルとローテーション済みファイル（新しい順） */
+  private getFiles(): string[] {
+    const files = [this.filePath];
+    for (let i = 1; i <= this.config.maxFiles; i++) {
+      files.push(`${this.filePath}.${i}`);
+    }
+    return files;
+  }
+
+  private parseLines(content: string): LogEntry[] {
+    const entries: LogEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const raw = JSON.parse(line);
+        entries.push({
+          timestamp: new Date(raw.timestamp),
+          level: raw.level,
+          message: raw.message,
+          source: raw.source,
+          ...(raw.raw ? { raw: raw.raw } : {})
+        });
+      } catch {
+        // Skip lines truncated by a crash
+      }
+    }
+    return entries;
+  }
+}
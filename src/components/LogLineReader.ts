@@ -0,0 +1,126 @@
+import { stripAnsi } from '../utils/ansi.js';
+import { detectLogLevel } from '../utils/logLevel.js';
+
+// 後続の行が来なければ保留中のエントリを確定するまでの時間（キャプチャファイルの監視間隔より長くする）
+const GROUP_FLUSH_DELAY = 300;
+
+/**
+ * 直前の行の続きとして同じエントリにまとめる行
+ */
+const CONTINUATION_PATTERNS: RegExp[] = [
+  // Stack frames: "    at foo (/app/src/index.js:10:5)"
+  /^\s+at\s/,
+  // Elided frames: "    ... 4 more", "    ... 7 lines matching cause stack trace ..."
+  /^\s+\.\.\.\s*\d+\s+(more|lines?)\b/,
+  // Code frames: "  10 | const a = 1;", "> 11 | foo()", "     |     ^"
+  /^\s*>?\s*\d*\s*\|/,
+  // Markers under the offending source: "    ^^^^", "      ~~~"
+  /^\s*[\^~]+\s*$/,
+  // Error properties and causes printed by Node: "  code: 'ERR_X'", "  [cause]: Error: ...", "}"
+  /^\s+\[cause\]:/,
+  /^\s*\}\s*$/
+];
+
+/**
+ * ストリームのチャンクを行に分割し、スタックトレースなどの継続行を1つのエントリにまとめる
+ *
+ * チャンクは複数行や行の途中で区切られて届くため、改行までの残りは次のチャンクに持ち越す。
+ * 1行ごとに後続が継続行かどうかを見てから確定するため、最後の行は次の行が届くか
+ * 一定時間出力が無くなるまで保留される。
+ */
+export class LogLineReader {
+  private partial = '';
+  private partialPersist = true;
+  private pending: string[] = [];
+  private pendingPersist = true;
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param onEntry 確定したエントリ（複数行の場合は改行区切り）を受け取る
+   */
+  constructor(
+    private onEntry: (message: string, persist: boolean) => void,
+    private flushDelay: number = GROUP_FLUSH_DELAY
+  ) {}
+
+  /**
+   * @param persist このチャンクで確定したエントリを履歴ファイルに保存するかどうか
+   */
+  push(chunk: string, persist: boolean = true): void {
+    const lines = (this.partial + chunk).split(/\r?\n/);
+    this.partial = lines.pop() ?? '';
+    this.partialPersist = persist;
+
+    for (const line of lines) {
+      this.addLine(line, persist);
+    }
+
+    this.scheduleFlush();
+  }
+
+  /**
+   * 保留中の行の途中とエントリをすべて確定する
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.partial) {
+      const partial = this.partial;
+      this.partial = '';
+      this.addLine(partial, this.partialPersist);
+    }
+    this.emitPending();
+  }
+
+  private addLine(line: string, persist: boolean): void {
+    if (stripAnsi(line).trim().length === 0) {
+      return;
+    }
+
+    if (this.pending.length > 0 && this.isContinuation(line)) {
+      this.pending.push(line);
+      this.pendingPersist = persist;
+      return;
+    }
+
+    this.emitPending();
+    this.pending = [line];
+    this.pendingPersist = persist;
+  }
+
+  private isContinuation(line: string): boolean {
+    const plain = stripAnsi(line);
+    if (CONTINUATION_PATTERNS.some(pattern => pattern.test(plain))) {
+      return true;
+    }
+    // After an error or warning header, indented lines (Vite's "Plugin:" and "File:", esbuild's location) belong to it as well
+    const headerLevel = detectLogLevel(this.pending[0]);
+    return /^\s+\S/.test(plain) && (headerLevel === 'error' || headerLevel === 'warn');
+  }
+
+  private emitPending(): void {
+    if (this.pending.length === 0) {
+      return;
+    }
+    const message = this.pending.join('\n');
+    this.pending = [];
+    this.onEntry(message, this.pendingPersist);
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.pending.length === 0 && !this.partial) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, this.flushDelay);
+    this.flushTimer.unref();
+  }
+}
@@ -1,43 +1,133 @@
 import { ChildProcess } from 'child_process';
-import { LogEntry } from '../types.js';
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { Diagnostic, LogEntry } from '../types.js';
 import { Logger } from '../utils/logger.js';
+import { LogFilter, matchesLogFilter } from '../utils/logFilter.js';
+import { detectLogLevel, LogLevelRule } from '../utils/logLevel.js';
+import { stripAnsi } from '../utils/ansi.js';
+import { collectDiagnostics } from '../utils/diagnostics.js';
+import { FrameworkAdapter } from './FrameworkDetector.js';
+import { LogFileStore } from './LogFileStore.js';
+import { LogLineReader } from './LogLineReader.js';
+import { CAPTURE_TRUNCATE_SIZE, CaptureFiles, claimCaptureOwnership, FileTailer } from './OutputCapture.js';
+
+// queryLogsで件数を省略した場合の上限
+const DEFAULT_QUERY_LIMIT = 100;
+
+export interface LogQuery extends LogFilter {
+  /** 前回の結果で返したカーソル。指定するとそれ以降のログだけを古い順に返す */
+  cursor?: string;
+  limit?: number;
+}
+
+export interface LogQueryResult {
+  entries: LogEntry[];
+  /** 次回の問い合わせに渡すカーソル */
+  cursor: string;
+  /** limitを超えたため返さなかった一致行がある */
+  hasMore: boolean;
+  /** カーソルが別のLogManager（MCPサーバーの再起動前など）のものだったため、バッファの先頭から返した */
+  cursorExpired: boolean;
+  /** カーソル以降に出力されたがリングバッファから押し出されて読めなかった行数 */
+  skipped: number;
+}
 
 export class LogManager {
   private logger = Logger.getInstance();
   private logs: LogEntry[] = [];
   private logStream: NodeJS.ReadableStream | null = null;
   private readonly maxLogs = 1000;
+  private listeners: Set<(entry: LogEntry) => void> = new Set();
+  private tailers: FileTailer[] = [];
+  private readers: LogLineReader[] = [];
+  /** 次に追加するログの通し番号（logs[i]の番号は nextSeq - logs.length + i） */
+  private nextSeq = 0;
+  /** カーソルがこのインスタンスのものか判別するための識別子 */
+  private readonly instanceId = randomBytes(4).toString('hex');
+  private levelRules: LogLevelRule[];
+
+  /**
+   * @param fileStore 指定するとログをディスクにも保存し、リングバッファを超えた履歴を読めるようにする
+   * @param framework 指定するとフレームワーク固有のコンパイルエラー表示をerrorとして判定し、
+   *   HMRの行を再ビルドの成功として扱う
+   */
+  constructor(private fileStore: LogFileStore | null = null, private framework: FrameworkAdapter | null = null) {
+    this.levelRules = (framework?.errorPatterns || []).map(pattern => ({ pattern, level: 'error' as const }));
+  }
 
-  async startLogging(process: ChildProcess): Promise<void> {
+  /**
+   * キャプチャファイルを追いかけてログを集める
+   *
+   * 子プロセスのstdout/stderrはパイプではなくファイルに書かれるため、MCPサーバーの再起動後も
+   * 同じファイルから読み続けられる。
+   * @param process 自分で起動した子プロセス（再接続時はnullで、終了はProcessManagerが検出する）
+   * @param resume 再接続時に指定。各ファイルの既存内容はメモリに読み込むが、
+   *   前のMCPサーバーが保存済みのものとして履歴ファイルには書かない
+   */
+  async startLogging(process: ChildProcess | null, capture: CaptureFiles, resume: boolean = false): Promise<void> {
     this.logger.info('Starting log monitoring');
-    
-    if (process.stdout) {
-      process.stdout.on('data', (data: Buffer) => {
-        this.addLog('info', data.toString(), 'stdout');
-      });
-    }
+    await this.stopTailing();
+    // Only the owner empties what it has read; other readers such as CLI commands just follow.
+    // The process that spawned the child was recorded as the owner when the capture was opened
+    const owner = process !== null || await claimCaptureOwnership(capture);
 
-    if (process.stderr) {
-      process.stderr.on('data', (data: Buffer) => {
-        this.addLog('error', data.toString(), 'stderr');
+    for (const source of ['stdout', 'stderr'] as const) {
+      const filePath = capture[source];
+      const persistFrom = resume ? await this.getFileSize(filePath) : 0;
+      const level = source === 'stdout' ? 'info' : 'error';
+      const reader = new LogLineReader((message, persist) => {
+        this.addLog(level, message, source, persist);
       });
+      const tailer = new FileTailer(filePath, (chunk, endOffset) => {
+        reader.push(chunk, endOffset > persistFrom);
+      }, 0, owner ? CAPTURE_TRUNCATE_SIZE : null);
+      tailer.start();
+      this.tailers.push(tailer);
+      this.readers.push(reader);
     }
 
-    process.on('error', (error) => {
-      this.addLog('error', `Process error: ${error.message}`, 'stderr');
-    });
+    if (process) {
+      process.on('error', (error) => {
+        this.addLog('error', `Process error: ${error.message}`, 'stderr');
+      });
 
-    process.on('exit', (code, signal) => {
-      const message = signal 
-        ? `Process exited with signal ${signal}` 
-        : `Process exited with code ${code}`;
-      this.addLog('info', message, 'stdout');
-    });
+      process.on('exit', async (code, signal) => {
+        // Read the last output before recording the exit
+        await Promise.all(this.tailers.map(tailer => tailer.drain()));
+        this.readers.forEach(reader => reader.flush());
+        const message = signal 
+          ? `Process exited with signal ${signal}` 
+          : `Process exited with code ${code}`;
+        this.addLog('info', message, 'stdout');
+      });
+    }
   }
 
   async stopLogging(): Promise<void> {
     this.logger.info('Stopping log monitoring');
     this.logStream = null;
+    await this.stopTailing();
+    await this.fileStore?.flush();
+  }
+
+  /**
+   * プロセスの起動など、管理側の出来事をログに記録する
+   */
+  addEvent(message: string): void {
+    this.addLog('info', `[npm-dev-mcp] ${message}`, 'stdout');
+  }
+
+  /**
+   * ディスクに保存された履歴（過去の実行分を含む）から直近のログを取得する
+   *
+   * ファイル保存が無効な場合はメモリ上のログを返す。
+   */
+  async getHistory(lines?: number): Promise<LogEntry[]> {
+    if (!this.fileStore) {
+      return this.getLogs(lines);
+    }
+    return this.fileStore.readRecent(lines || 50);
   }
 
   async getLogs(lines?: number): Promise<LogEntry[]> {
@@ -51,67 +141,166 @@ export class LogManager {
     return this.logs.slice(totalLogs - requestedLines);
   }
 
+  /**
+   * 条件に一致するログを取得する
+   *
+   * カーソル無しでは一致した直近のlimit件、カーソル有りではカーソル以降に一致した行を古い順にlimit件返す。
+   * 返されたカーソルを次回渡すと、新しく出力された行だけを読める。
+   */
+  queryLogs(query: LogQuery = {}): LogQueryResult {
+    const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+    const firstSeq = this.nextSeq - this.logs.length;
+
+    let start = 0;
+    let skipped = 0;
+    let cursorExpired = false;
+    if (query.cursor !== undefined) {
+      const position = this.decodeCursor(query.cursor);
+      if (position === null || position > this.nextSeq) {
+        cursorExpired = true;
+      } else {
+        start = Math.max(0, position - firstSeq);
+        skipped = Math.max(0, firstSeq - position);
+      }
+    }
+
+    const matched: number[] = [];
+    for (let i = start; i < this.logs.length; i++) {
+      if (matchesLogFilter(this.logs[i], query)) {
+        matched.push(i);
+      }
+    }
+
+    const hasMore = matched.length > limit;
+    const fromCursor = query.cursor !== undefined;
+    // Following a cursor returns the oldest unread lines first so that none are missed
+    const selected = fromCursor ? matched.slice(0, limit) : matched.slice(Math.max(0, matched.length - limit));
+    const nextPosition = fromCursor && hasMore
+      ? firstSeq + selected[selected.length - 1] + 1
+      : this.nextSeq;
+
+    return {
+      entries: selected.map(i => this.logs[i]),
+      cursor: this.encodeCursor(nextPosition),
+      hasMore,
+      cursorExpired,
+      skipped
+    };
+  }
+
+  /**
+   * ログの前後に出力された行を取得する（リングバッファから押し出された行は含まない）
+   */
+  getSurroundingLogs(entry: LogEntry, before: number, after: number): { before: LogEntry[]; after: LogEntry[] } {
+    const index = this.logs.lastIndexOf(entry);
+    if (index === -1) {
+      return { before: [], after: [] };
+    }
+    return {
+      before: this.logs.slice(Math.max(0, index - before), index),
+      after: this.logs.slice(index + 1, index + 1 + after)
+    };
+  }
+
+  /**
+   * ログの直後を指すカーソル（押し出された行なら現在の末尾）
+   */
+  getCursorAfter(entry: LogEntry): string {
+    const index = this.logs.lastIndexOf(entry);
+    if (index === -1) {
+      return this.encodeCursor(this.nextSeq);
+    }
+    return this.encodeCursor(this.nextSeq - this.logs.length + index + 1);
+  }
+
+  /**
+   * リングバッファ内のログからコンパイルエラー・警告を抽出する
+   */
+  getDiagnostics(): Diagnostic[] {
+    return collectDiagnostics(this.logs, { successPatterns: this.framework?.hmrPatterns });
+  }
+
+  private encodeCursor(position: number): string {
+    return Buffer.from(`${this.instanceId}:${position}`).toString('base64url');
+  }
+
+  /**
+   * @returns このインスタンスのカーソルなら位置、別インスタンスのものならnull
+   * @throws {Error} カーソルの形式が不正な場合
+   */
+  private decodeCursor(cursor: string): number | null {
+    const [instanceId, position] = Buffer.from(cursor, 'base64url').toString().split(':');
+    const parsed = Number(position);
+    if (!instanceId || !Number.isInteger(parsed) || parsed < 0) {
+      throw new Error(`Invalid cursor: ${JSON.stringify(cursor)}`);
+    }
+    return instanceId === this.instanceId ? parsed : null;
+  }
+
+  /**
+   * 新しいログを受け取るリスナーを登録する。戻り値の関数で登録解除
+   */
+  onLog(listener: (entry: LogEntry) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
   async clearLogs(): Promise<void> {
     this.logs = [];
     this.logger.debug('Logs cleared');
   }
 
-  private addLog(level: 'info' | 'error' | 'warn', message: string, source: 'stdout' | 'stderr'): void {
-    // Parse the actual log level from the message content
-    const parsedLevel = this.parseLogLevel(message);
-    
+  private async stopTailing(): Promise<void> {
+    const tailers = this.tailers;
+    const readers = this.readers;
+    this.tailers = [];
+    this.readers = [];
+    await Promise.all(tailers.map(tailer => tailer.stop()));
+    readers.forEach(reader => reader.flush());
+  }
+
+  private async getFileSize(filePath: string): Promise<number> {
+    try {
+      return (await fs.stat(filePath)).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  private addLog(level: 'info' | 'error' | 'warn', message: string, source: 'stdout' | 'stderr', persist: boolean = true): void {
+    const text = stripAnsi(message).trim();
     const logEntry: LogEntry = {
       timestamp: new Date(),
-      level: parsedLevel || level,
-      message: message.trim(),
+      // Parse the actual log level from the message content
+      level: detectLogLevel(message, this.levelRules) || level,
+      message: text,
       source
     };
+    if (text !== message.trim()) {
+      logEntry.raw = message.trim();
+    }
 
     this.logs.push(logEntry);
+    this.nextSeq++;
+    if (persist) {
+      this.fileStore?.append(logEntry);
+    }
 
     // Maintain ring buffer by removing old logs
     if (this.logs.length > this.maxLogs) {
       this.logs = this.logs.slice(this.logs.length - this.maxLogs);
     }
 
+    for (const listener of this.listeners) {
+      listener(logEntry);
+    }
+
     // Also output to internal logger for debugging
     this.logger.debug(`[${source}] ${logEntry.message}`);
   }
 
-  private parseLogLevel(message: string): 'info' | 'error' | 'warn' | null {
-    const lowerMessage = message.toLowerCase();
-    
-    // Common error patterns
-    if (lowerMessage.includes('error') || 
-        lowerMessage.includes('failed') || 
-        lowerMessage.includes('cannot') ||
-        lowerMessage.includes('unable') ||
-        lowerMessage.includes('exception')) {
-      return 'error';
-    }
-    
-    // Common warning patterns
-    if (lowerMessage.includes('warn') || 
-        lowerMessage.includes('warning') || 
-        lowerMessage.includes('deprecated') ||
-        lowerMessage.includes('notice')) {
-      return 'warn';
-    }
-    
-    // Check for log level prefixes
-    const logLevelRegex = /\[(error|warn|warning|info|debug)\]/i;
-    const match = message.match(logLevelRegex);
-    if (match) {
-      const level = match[1].toLowerCase();
-      if (level === 'warning') return 'warn';
-      if (['error', 'warn', 'info'].includes(level)) {
-        return level as 'error' | 'warn' | 'info';
-      }
-    }
-    
-    return null;
-  }
-
   getLogStats(): { total: number; errors: number; warnings: number; info: number } {
     const stats = {
       total: this.logs.length,
@@ -0,0 +1,144 @@
+import { DevProcess, LogEntry } from '../types.js';
+import { LogFilter, matchesLogFilter } from '../utils/logFilter.js';
+import { Logger } from '../utils/logger.js';
+import { LogManager } from './LogManager.js';
+
+/** ログを待つデフォルトの最大時間 */
+export const DEFAULT_LOG_WAIT_TIMEOUT = 30000;
+/** 一致した行の前後に返すデフォルトの行数 */
+export const DEFAULT_CONTEXT_LINES = 5;
+
+const CHECK_INTERVAL = 200;
+// 一致した行の後に続く行を待つ時間
+const AFTER_CONTEXT_WAIT = 300;
+// 終了を検出してから、まだ読み込まれていない最後の出力を待つ時間
+const EXIT_GRACE = 300;
+
+export type LogWaitOutcome = 'matched' | 'timeout' | 'exited';
+
+/**
+ * ログを待つ対象プロセス
+ */
+export interface LogWaitTarget {
+  name: string;
+  logManager: LogManager;
+  getStatus: () => DevProcess['status'];
+}
+
+export interface LogWaitOptions {
+  /** 待つ行の条件（pattern・levels・sourceなど） */
+  filter: LogFilter;
+  /** 基準点（LogManager.queryLogsのカーソル）。指定するとそれ以降に出力済みの行も対象にする */
+  cursor?: string;
+  timeout?: number;
+  /** 一致する前にプロセスが終了したら待つのをやめる（デフォルト: true） */
+  failOnExit?: boolean;
+  /** 一致した行の前後に返す行数 */
+  context?: number;
+}
+
+export interface LogWaitResult {
+  outcome: LogWaitOutcome;
+  match?: LogEntry;
+  before: LogEntry[];
+  after: LogEntry[];
+  /** 一致した行の直後（一致しなければ現在の末尾）を指すカーソル */
+  cursor: string;
+  /** 指定されたカーソルが無効だったため、出力済みの行を対象にしなかった */
+  cursorExpired: boolean;
+  elapsed: number;
+}
+
+/**
+ * プロセスの出力に条件に一致する行が現れるまで待つ
+ */
+export class LogWaiter {
+  private logger = Logger.getInstance();
+
+  async waitForLog(target: LogWaitTarget, options: LogWaitOptions): Promise<LogWaitResult> {
+    const startedAt = Date.now();
+    const timeout = options.timeout ?? DEFAULT_LOG_WAIT_TIMEOUT;
+    const failOnExit = options.failOnExit ?? true;
+    const context = options.context ?? DEFAULT_CONTEXT_LINES;
+    const { logManager } = target;
+
+    let match: LogEntry | undefined;
+    let cursorExpired = false;
+    if (options.cursor !== undefined) {
+      // Lines printed after the cursor but before this call count as well
+      const existing = logManager.queryLogs({ ...options.filter, cursor: options.cursor, limit: 1 });
+      cursorExpired = existing.cursorExpired;
+      // An expired cursor rescans from the oldest stored line, so wait only for new lines instead
+      match = cursorExpired ? undefined : existing.entries[0];
+    }
+
+    let outcome: LogWaitOutcome = 'matched';
+    if (!match) {
+      const waited = await this.waitForNewMatch(target, options.filter, timeout, failOnExit);
+      outcome = waited.outcome;
+      match = waited.match;
+    }
+
+    if (!match) {
+      this.logger.info(`Waiting for a log line from "${target.name}" ended: ${outcome}`);
+      return {
+        outcome,
+        before: [],
+        after: [],
+        cursor: logManager.queryLogs({ limit: 0 }).cursor,
+        cursorExpired,
+        elapsed: Date.now() - startedAt
+      };
+    }
+
+    if (context > 0 && logManager.getSurroundingLogs(match, 0, context).after.length < context) {
+      await new Promise(resolve => setTimeout(resolve, AFTER_CONTEXT_WAIT));
+    }
+    const surrounding = logManager.getSurroundingLogs(match, context, context);
+
+    return {
+      outcome: 'matched',
+      match,
+      before: surrounding.before,
+      after: surrounding.after,
+      cursor: logManager.getCursorAfter(match),
+      cursorExpired,
+      elapsed: Date.now() - startedAt
+    };
+  }
+
+  private waitForNewMatch(
+    target: LogWaitTarget,
+    filter: LogFilter,
+    timeout: number,
+    failOnExit: boolean
+  ): Promise<{ outcome: LogWaitOutcome; match?: LogEntry }> {
+    return new Promise(resolve => {
+      let exitTimer: NodeJS.Timeout | undefined;
+
+      const finish = (outcome: LogWaitOutcome, match?: LogEntry) => {
+        unsubscribe();
+        clearTimeout(timeoutTimer);
+        clearInterval(statusTimer);
+        clearTimeout(exitTimer);
+        resolve({ outcome, match });
+      };
+
+      const unsubscribe = target.logManager.onLog(entry => {
+        if (matchesLogFilter(entry, filter)) {
+          finish('matched', entry);
+        }
+      });
+
+      const timeoutTimer = setTimeout(() => finish('timeout'), timeout);
+
+      const statusTimer = setInterval(() => {
+        const status = target.getStatus();
+        if (failOnExit && !exitTimer && (status === 'stopped' || status === 'error')) {
+          // The last lines may still be in the capture files
+          exitTimer = setTimeout(() => finish('exited'), EXIT_GRACE);
+        }
+      }, CHECK_INTERVAL);
+    });
+  }
+}
@@ -0,0 +1,197 @@
+import { closeSync, constants, mkdirSync, openSync, promises as fs, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { StringDecoder } from 'string_decoder';
+import { LogFileConfig, LogFileConfigValidator } from '../config/LogFileConfig.js';
+import { Logger } from '../utils/logger.js';
+import { isProcessRunning } from '../utils/processUtils.js';
+import { getLogFileName } from './LogFileStore.js';
+
+// 追記を確認する間隔
+const POLL_INTERVAL = 200;
+// 1回の読み込みで読む最大バイト数
+const READ_CHUNK_SIZE = 64 * 1024;
+/** 所有者が読み終えた内容がこのサイズを超えたらキャプチャファイルを空にする（内容はLogFileStoreに保存済み） */
+export const CAPTURE_TRUNCATE_SIZE = 1024 * 1024;
+// 所有者が空にした後も、書き込み側がファイルの末尾（先頭）から書き続けるよう追記モードで開く
+const CAPTURE_FLAGS = constants.O_WRONLY | constants.O_CREAT | constants.O_TRUNC | constants.O_APPEND;
+
+/**
+ * 開発サーバーのstdout/stderrを直接書き込ませるファイル
+ */
+export interface CaptureFiles {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * ディレクトリとプロセス名に対応するキャプチャファイルのパス
+ *
+ * MCPサーバーが再起動しても同じパスを導けるよう、ログファイルと同じ命名規則を使う。
+ */
+export function getCaptureFiles(
+  directory: string,
+  name: string,
+  config: LogFileConfig = LogFileConfigValidator.validateLogFileConfig(process.env)
+): CaptureFiles {
+  const base = join(config.directory, 'capture', getLogFileName(directory, name));
+  return { stdout: `${base}.stdout`, stderr: `${base}.stderr` };
+}
+
+/**
+ * キャプチャファイルを空にして追記モードで開き、子プロセスのstdioに渡すファイルディスクリプタを返す
+ *
+ * 起動する側のこのプロセスをキャプチャの所有者として記録する。
+ *
+ * 呼び出し側はspawn後に`closeCaptureFds`で閉じる（子プロセス側の複製は開いたまま残る）。
+ */
+export function openCaptureFiles(files: CaptureFiles): [number, number] {
+  mkdirSync(dirname(files.stdout), { recursive: true });
+  writeFileSync(getOwnerFile(files), String(process.pid));
+  const stdoutFd = openSync(files.stdout, CAPTURE_FLAGS);
+  try {
+    return [stdoutFd, openSync(files.stderr, CAPTURE_FLAGS)];
+  } catch (error) {
+    closeSync(stdoutFd);
+    throw error;
+  }
+}
+
+/**
+ * 再接続したプロセスのキャプチャの所有者になる
+ *
+ * 読み取り側はMCPサーバーとCLIのコマンドなど複数あり得るため、読み終えた内容を空にするのは
+ * 所有者だけにする。記録された所有者（起動した側など）がまだ動いていれば所有者にならない。
+ * @returns このプロセスが所有者になったか
+ */
+export async function claimCaptureOwnership(files: CaptureFiles): Promise<boolean> {
+  const ownerFile = getOwnerFile(files);
+  try {
+    const owner = parseInt(await fs.readFile(ownerFile, 'utf-8'), 10);
+    if (owner !== process.pid && await isProcessRunning(owner)) {
+      return false;
+    }
+  } catch {
+    // No owner recorded yet
+  }
+
+  try {
+    await fs.mkdir(dirname(ownerFile), { recursive: true });
+    await fs.writeFile(ownerFile, String(process.pid));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getOwnerFile(files: CaptureFiles): string {
+  return `${files.stdout}.owner`;
+}
+
+export function closeCaptureFds(fds: number[]): void {
+  for (const fd of fds) {
+    try {
+      closeSync(fd);
+    } catch {
+      // Already closed
+    }
+  }
+}
+
+/**
+ * ファイルへの追記をポーリングで読み取る（tail -f相当）
+ *
+ * 書き込み側のプロセスとは独立しているため、別のMCPサーバーからでも途中から読み始められる。
+ * キャプチャの所有者は、長時間動くサーバーでファイルが増え続けないよう、読み終えた内容が一定サイズを超えたら空にする。
+ */
+export class FileTailer {
+  private logger = Logger.getInstance();
+  private timer: NodeJS.Timeout | null = null;
+  private reading: Promise<void> = Promise.resolve();
+  private decoder = new StringDecoder('utf8');
+  // 空にする前までに読んだバイト数
+  private truncatedBytes = 0;
+
+  /**
+   * @param onData 読み取った文字列と、その末尾までに読んだ累計バイト数（空にした分を含む）
+   * @param truncateSize 読み終えた内容がこのサイズを超えたらファイルを空にする（所有者だけが指定し、nullなら空にしない）
+   */
+  constructor(
+    readonly filePath: string,
+    private onData: (chunk: string, endOffset: number) => void,
+    private offset: number = 0,
+    private truncateSize: number | null = null
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL);
+    // Do not keep the process alive just to follow output
+    this.timer.unref();
+  }
+
+  /**
+   * ポーリングを止め、最後まで読み切る
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.poll();
+  }
+
+  /**
+   * ポーリングを待たずに現時点の追記分を読む
+   */
+  drain(): Promise<void> {
+    return this.poll();
+  }
+
+  private poll(): Promise<void> {
+    this.reading = this.reading.then(() => this.readAppended()).catch(error => {
+      this.logger.debug(`Failed to read ${this.filePath}`, { error });
+    });
+    return this.reading;
+  }
+
+  private async readAppended(): Promise<void> {
+    let handle;
+    try {
+      handle = await fs.open(this.filePath, 'r');
+    } catch {
+      return; // Not created yet
+    }
+
+    try {
+      const { size } = await handle.stat();
+      if (size < this.offset) {
+        // Truncated by the owner of the capture or by a new run
+        this.truncatedBytes += this.offset;
+        this.offset = 0;
+        this.decoder = new StringDecoder('utf8');
+      }
+
+      const buffer = Buffer.alloc(READ_CHUNK_SIZE);
+      while (this.offset < size) {
+        const { bytesRead } = await handle.read(buffer, 0, Math.min(READ_CHUNK_SIZE, size - this.offset), this.offset);
+        if (bytesRead === 0) break;
+        this.offset += bytesRead;
+        const text = this.decoder.write(buffer.subarray(0, bytesRead));
+        if (text) {
+          this.onData(text, this.truncatedBytes + this.offset);
+        }
+      }
+
+      // The writer appends, so after truncating it continues from the start of the file.
+      // Output written between this size check and the truncation would be lost, so only
+      // truncate once everything has been read and the file has stopped growing
+      if (this.truncateSize !== null && this.offset >= this.truncateSize && (await handle.stat()).size === this.offset) {
+        await fs.truncate(this.filePath, 0);
+        this.truncatedBytes += this.offset;
+        this.offset = 0;
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+}
@@ -1,22 +1,36 @@
 import { exec } from 'child_process';
+import { readdir, readFile, readlink } from 'fs/promises';
 import { promisify } from 'util';
-import { PortInfo } from '../types.js';
+import { PortInfo, PortOwner } from '../types.js';
 import { Logger } from '../utils/logger.js';
+import { getDescendantPids } from '../utils/processUtils.js';
 
 const execAsync = promisify(exec);
 
+// /proc/net/tcp の st 列: 0A = LISTEN
+const TCP_LISTEN = '0A';
+// /proc/net/udp の st 列: 07 = CLOSE（接続していないバインド済みソケット）
+const UDP_UNCONNECTED = '07';
+
 export class PortDetector {
   private logger = Logger.getInstance();
 
+  /**
+   * プロセスとその子孫が待ち受けているポートを検出する
+   *
+   * npm run経由で起動したサーバーではソケットを持つのは孫以降のプロセスのため、子孫も全て調べる。
+   */
   async detectPorts(pid: number): Promise<PortInfo[]> {
     this.logger.debug(`Detecting ports for PID ${pid}`);
     
     try {
+      const pids = [pid, ...await getDescendantPids(pid)];
+
       // Try different methods based on the platform
       if (process.platform === 'darwin') {
-        return await this.detectPortsMacOS(pid);
+        return await this.detectPortsMacOS(pids);
       } else if (process.platform === 'linux') {
-        return await this.detectPortsLinux(pid);
+        return await this.detectPortsLinux(pids);
       } else {
         this.logger.warn(`Unsupported platform: ${process.platform}`);
         return [];
@@ -27,134 +41,147 @@ export class PortDetector {
     }
   }
 
-  private async detectPortsMacOS(pid: number): Promise<PortInfo[]> {
+  private async detectPortsMacOS(pids: number[]): Promise<PortInfo[]> {
     try {
-      const { stdout } = await execAsync(`lsof -i -P -n | grep ${pid}`);
-      return this.parseLsofOutput(stdout);
+      // -a ANDs the selections so only sockets owned by these PIDs are listed
+      const { stdout } = await execAsync(`lsof -P -n -a -i -p ${pids.join(',')}`);
+      return this.parseLsofOutput(stdout).filter(info => pids.includes(info.pid));
     } catch (error) {
       // Try alternative approach
       try {
         const { stdout } = await execAsync(`netstat -an | grep LISTEN`);
-        return this.parseNetstatOutputGeneric(stdout, pid);
+        return this.parseNetstatOutputGeneric(stdout, pids[0]);
       } catch {
         return [];
       }
     }
   }
 
-  private async detectPortsLinux(pid: number): Promise<PortInfo[]> {
-    try {
-      const { stdout } = await execAsync(`netstat -tulpn | grep ${pid}`);
-      return this.parseNetstatOutput(stdout);
-    } catch (error) {
-      // Fallback to ss command
-      try {
-        const { stdout } = await execAsync(`ss -tulpn | grep ${pid}`);
-        return this.parseSsOutput(stdout);
-      } catch {
-        return [];
+  /**
+   * 外部コマンドを使わず/procから検出する
+   *
+   * 各プロセスの/proc/<pid>/fdにあるソケットのinodeを集め、/proc/net/{tcp,tcp6,udp,udp6}で
+   * 待ち受け中のソケットと突き合わせる。
+   */
+  private async detectPortsLinux(pids: number[]): Promise<PortInfo[]> {
+    const owners = new Map<string, number>();
+    for (const pid of pids) {
+      for (const inode of await this.getSocketInodes(pid)) {
+        owners.set(inode, pid);
       }
     }
-  }
+    if (owners.size === 0) {
+      return [];
+    }
 
-  private parseLsofOutput(output: string): PortInfo[] {
     const ports: PortInfo[] = [];
-    const lines = output.split('\n').filter(line => line.trim());
-
-    for (const line of lines) {
-      const parts = line.split(/\s+/);
-      if (parts.length < 9) continue;
-
-      const name = parts[0];
-      const pidStr = parts[1];
-      const type = parts[4];
-      const address = parts[8];
-
-      if (!address.includes(':')) continue;
-
-      const portMatch = address.match(/:(\d+)$/);
-      if (!portMatch) continue;
-
-      const port = parseInt(portMatch[1]);
-      const protocol = type.toLowerCase().includes('tcp') ? 'tcp' : 'udp';
-      const pid = parseInt(pidStr);
-
-      if (!isNaN(port) && !isNaN(pid)) {
-        ports.push({
-          port,
-          protocol: protocol as 'tcp' | 'udp',
-          pid,
-          service: name
-        });
+    const names = new Map<number, string | undefined>();
+    for (const table of ['tcp', 'tcp6', 'udp', 'udp6']) {
+      const protocol = table.startsWith('tcp') ? 'tcp' : 'udp';
+      for (const socket of await this.readProcNet(table)) {
+        const pid = owners.get(socket.inode);
+        if (pid === undefined) continue;
+        if (socket.state !== (protocol === 'tcp' ? TCP_LISTEN : UDP_UNCONNECTED)) continue;
+        if (ports.some(info => info.port === socket.port && info.protocol === protocol)) continue;
+
+        if (!names.has(pid)) {
+          names.set(pid, await this.getProcessName(pid));
+        }
+        ports.push({ port: socket.port, protocol, pid, service: names.get(pid) });
       }
     }
 
     return ports;
   }
 
-  private parseNetstatOutput(output: string): PortInfo[] {
-    const ports: PortInfo[] = [];
-    const lines = output.split('\n').filter(line => line.trim());
-
-    for (const line of lines) {
-      const parts = line.split(/\s+/);
-      if (parts.length < 7) continue;
-
-      const protocol = parts[0].toLowerCase();
-      const address = parts[3];
-      const pidProgram = parts[6];
-
-      if (!address.includes(':')) continue;
+  /**
+   * /proc/<pid>/fdのうちソケットを指すもののinode
+   */
+  private async getSocketInodes(pid: number): Promise<string[]> {
+    let fds: string[];
+    try {
+      fds = await readdir(`/proc/${pid}/fd`);
+    } catch {
+      return []; // Exited, or owned by another user
+    }
 
-      const portMatch = address.match(/:(\d+)$/);
-      if (!portMatch) continue;
+    const inodes: string[] = [];
+    for (const fd of fds) {
+      try {
+        const match = (await readlink(`/proc/${pid}/fd/${fd}`)).match(/^socket:\[(\d+)\]$/);
+        if (match) {
+          inodes.push(match[1]);
+        }
+      } catch {
+        // The descriptor was closed while reading
+      }
+    }
+    return inodes;
+  }
 
-      const pidMatch = pidProgram.match(/(\d+)\//);
-      if (!pidMatch) continue;
+  /**
+   * /proc/net/<table>の各行からローカルポート・状態・inodeを読む
+   *
+   * 行の形式: `sl local_address rem_address st tx_queue:rx_queue tr:tm->when retrnsmt uid timeout inode ...`
+   * （local_addressは`<16進アドレス>:<16進ポート>`）
+   */
+  private async readProcNet(table: string): Promise<Array<{ port: number; state: string; inode: string }>> {
+    let content: string;
+    try {
+      content = await readFile(`/proc/net/${table}`, 'utf-8');
+    } catch {
+      return []; // e.g. IPv6 disabled
+    }
 
-      const port = parseInt(portMatch[1]);
-      const pid = parseInt(pidMatch[1]);
+    const sockets: Array<{ port: number; state: string; inode: string }> = [];
+    for (const line of content.split('\n').slice(1)) {
+      const fields = line.trim().split(/\s+/);
+      if (fields.length < 10) continue;
 
-      if (!isNaN(port) && !isNaN(pid)) {
-        ports.push({
-          port,
-          protocol: protocol.includes('tcp') ? 'tcp' : 'udp',
-          pid
-        });
+      const port = parseInt(fields[1].split(':')[1], 16);
+      if (!isNaN(port) && port > 0) {
+        sockets.push({ port, state: fields[3], inode: fields[9] });
       }
     }
+    return sockets;
+  }
 
-    return ports;
+  private async getProcessName(pid: number): Promise<string | undefined> {
+    try {
+      return (await readFile(`/proc/${pid}/comm`, 'utf-8')).trim();
+    } catch {
+      return undefined;
+    }
   }
 
-  private parseSsOutput(output: string): PortInfo[] {
+  private parseLsofOutput(output: string): PortInfo[] {
     const ports: PortInfo[] = [];
     const lines = output.split('\n').filter(line => line.trim());
 
     for (const line of lines) {
       const parts = line.split(/\s+/);
-      if (parts.length < 6) continue;
+      if (parts.length < 9) continue;
 
-      const protocol = parts[0].toLowerCase();
-      const address = parts[4];
-      const process = parts[6] || parts[5];
+      const name = parts[0];
+      const pidStr = parts[1];
+      const type = parts[4];
+      const address = parts[8];
 
       if (!address.includes(':')) continue;
 
       const portMatch = address.match(/:(\d+)$/);
       if (!portMatch) continue;
 
-      const pidMatch = process.match(/pid=(\d+)/);
-      if (!pidMatch) continue;
-
       const port = parseInt(portMatch[1]);
-      const pid = parseInt(pidMatch[1]);
+      const protocol = type.toLowerCase().includes('tcp') ? 'tcp' : 'udp';
+      const pid = parseInt(pidStr);
 
       if (!isNaN(port) && !isNaN(pid)) {
         ports.push({
           port,
-          protocol: protocol.includes('tcp') ? 'tcp' : 'udp',
-          pid
+          protocol: protocol as 'tcp' | 'udp',
+          pid,
+          service: name
         });
       }
     }
@@ -185,8 +212,64 @@ export class PortDetector {
     return ports;
   }
 
+  /**
+   * 指定ポートでTCP接続を待ち受けているプロセスを探す
+   *
+   * 他ユーザーのプロセスなど、所有者を特定できない場合はnullを返す。
+   */
+  async findPortOwner(port: number): Promise<PortOwner | null> {
+    try {
+      if (process.platform === 'linux') {
+        return await this.findPortOwnerLinux(port);
+      }
+      if (process.platform === 'darwin') {
+        const { stdout } = await execAsync(`lsof -nP -iTCP:${port} -sTCP:LISTEN -t`);
+        const pid = parseInt(stdout.trim().split('\n')[0], 10);
+        if (isNaN(pid)) return null;
+        const { stdout: command } = await execAsync(`ps -p ${pid} -o command=`);
+        return { port, pid, command: command.trim() || undefined };
+      }
+    } catch (error) {
+      this.logger.debug(`Failed to find owner of port ${port}`, { error });
+    }
+    return null;
+  }
+
+  private async findPortOwnerLinux(port: number): Promise<PortOwner | null> {
+    const inodes = new Set<string>();
+    for (const table of ['tcp', 'tcp6']) {
+      for (const socket of await this.readProcNet(table)) {
+        if (socket.port === port && socket.state === TCP_LISTEN) {
+          inodes.add(socket.inode);
+        }
+      }
+    }
+    if (inodes.size === 0) {
+      return null;
+    }
+
+    for (const entry of await readdir('/proc')) {
+      const pid = parseInt(entry, 10);
+      if (isNaN(pid)) continue;
+      const owned = await this.getSocketInodes(pid);
+      if (owned.some(inode => inodes.has(inode))) {
+        return { port, pid, command: await this.getCommandLine(pid) };
+      }
+    }
+    return null;
+  }
+
+  private async getCommandLine(pid: number): Promise<string | undefined> {
+    try {
+      const cmdline = await readFile(`/proc/${pid}/cmdline`, 'utf-8');
+      return cmdline.split('\0').filter(Boolean).join(' ') || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
   async getPortsByPid(pid: number): Promise<number[]> {
     const portInfos = await this.detectPorts(pid);
-    return portInfos.map(info => info.port);
+    return [...new Set(portInfos.map(info => info.port))];
   }
 }
\ No newline at end of file
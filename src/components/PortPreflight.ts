@@ -0,0 +1,118 @@
+import { PortOwner } from '../types.js';
+import { isLocalPortAccepting } from '../utils/network.js';
+import { Logger } from '../utils/logger.js';
+import { FrameworkAdapter, FrameworkDetector } from './FrameworkDetector.js';
+import { PortDetector } from './PortDetector.js';
+
+// 空きポートを探す範囲（期待ポートの次から）
+const FREE_PORT_SEARCH_RANGE = 100;
+
+// スクリプト内で明示されたポート（--port 3001 / --port=3001 / -p 3001）
+const EXPLICIT_PORT_PATTERN = /(?:--port[=\s]+|\s-p\s+)(\d{1,5})\b/;
+
+export class PortConflictError extends Error {
+  constructor(
+    public port: number,
+    public owner: PortOwner | null,
+    public reason?: string
+  ) {
+    const holder = owner
+      ? `PID ${owner.pid}${owner.command ? ` (${owner.command})` : ''}`
+      : 'another process';
+    super(`Port ${port} is already in use by ${holder}${reason ? `: ${reason}` : ''}`);
+    this.name = 'PortConflictError';
+  }
+}
+
+export interface PortPlan {
+  /** 起動に使うポート（推定できなければundefined） */
+  port?: number;
+  /** 使用中だったため別のポートを割り当てた場合の元のポートとその所有者 */
+  conflict?: { port: number; owner: PortOwner | null };
+  /** スクリプトに渡す追加の引数 */
+  extraArgs: string[];
+  /** 子プロセスの環境変数に追加する値 */
+  env: Record<string, string>;
+  /** 既定ポートが使用中だが、開発サーバー自身が空きポートを選ぶため起動を続ける場合のポートとその所有者 */
+  defaultPortInUse?: { port: number; owner: PortOwner | null };
+}
+
+export interface PortPreflightOptions {
+  /** 期待ポートが使用中なら空きポートを割り当てる（falseならPortConflictErrorを投げる。ただし空きポートを自分で選ぶフレームワークの既定ポートは除く） */
+  autoPort?: boolean;
+  /** 起動中の管理対象プロセスが使う予定のポート（まだ待ち受けていなくても使用中とみなす） */
+  reservedPorts?: number[];
+  /** 既定ポートとポート指定フラグを決めるフレームワーク（省略時はスクリプトのコマンドから判定） */
+  framework?: FrameworkAdapter | null;
+}
+
+/**
+ * 起動前に期待ポートの衝突を確認し、必要なら空きポートを割り当てる
+ */
+export class PortPreflight {
+  private logger = Logger.getInstance();
+  private portDetector = new PortDetector();
+  private frameworkDetector = new FrameworkDetector();
+
+  /**
+   * @param scriptCommand package.jsonに書かれたスクリプトのコマンド
+   * @throws {PortConflictError} 期待ポートが使用中で、自動割り当てしない（できない）場合
+   */
+  async check(scriptCommand: string, env: Record<string, string> | undefined, options: PortPreflightOptions = {}): Promise<PortPlan> {
+    const framework = options.framework !== undefined
+      ? options.framework
+      : this.frameworkDetector.resolveForScript(scriptCommand)?.adapter ?? null;
+    const explicitPort = scriptCommand.match(EXPLICIT_PORT_PATTERN)?.[1];
+    const envPort = env?.PORT ? parseInt(env.PORT, 10) : NaN;
+    const hasEnvPort = Number.isInteger(envPort) && envPort > 0;
+
+    // An explicit flag wins over PORT, which wins over the framework default
+    const port = explicitPort ? parseInt(explicitPort, 10)
+      : hasEnvPort ? envPort
+      : framework?.defaultPort;
+    if (!port) {
+      return { extraArgs: [], env: {} };
+    }
+
+    const reserved = options.reservedPorts || [];
+    if (!reserved.includes(port) && !(await isLocalPortAccepting(port, 500))) {
+      return { port, extraArgs: [], env: {} };
+    }
+
+    const owner = await this.portDetector.findPortOwner(port);
+    this.logger.warn(`Port ${port} is already in use`, { owner });
+
+    if (!options.autoPort) {
+      // Vite and the frameworks on top of it move off a busy default port by themselves
+      if (!explicitPort && !hasEnvPort && framework?.findsFreePort) {
+        return { extraArgs: [], env: {}, defaultPortInUse: { port, owner } };
+      }
+      throw new PortConflictError(port, owner);
+    }
+    if (explicitPort) {
+      throw new PortConflictError(port, owner, 'the script sets the port with a command-line flag, so it cannot be reassigned');
+    }
+
+    const freePort = await this.findFreePort(port + 1, reserved);
+    if (!freePort) {
+      throw new PortConflictError(port, owner, `no free port found in ${port + 1}-${port + FREE_PORT_SEARCH_RANGE}`);
+    }
+
+    this.logger.info(`Assigning port ${freePort} instead of ${port}${framework ? ` (${framework.name})` : ''}`);
+    return {
+      port: freePort,
+      conflict: { port, owner },
+      extraArgs: framework?.portFlag ? [framework.portFlag, freePort.toString()] : [],
+      env: { PORT: freePort.toString() }
+    };
+  }
+
+  private async findFreePort(from: number, reserved: number[]): Promise<number | null> {
+    for (let port = from; port < from + FREE_PORT_SEARCH_RANGE && port <= 65535; port++) {
+      if (!reserved.includes(port) && !(await isLocalPortAccepting(port, 500))) {
+        return port;
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,163 @@
+import { DevProcess, EnvSettings, ReadinessCheckConfig } from '../types.js';
+import { ProcessDefinition, ProjectConfig, PROJECT_CONFIG_FILE } from '../config/ProjectConfig.js';
+import { ProjectContextManager } from '../context/ProjectContextManager.js';
+import { topologicalSort } from '../utils/dependencyGraph.js';
+import { Logger } from '../utils/logger.js';
+import { EnvLoader } from './EnvLoader.js';
+import { ProcessManager } from './ProcessManager.js';
+
+export interface GroupStartResult {
+  /** 依存先が先に来る起動順 */
+  order: string[];
+  started: DevProcess[];
+}
+
+export interface GroupStopResult {
+  /** 依存元が先に来る停止順 */
+  order: string[];
+  stopped: string[];
+  failed: string[];
+}
+
+/**
+ * .npm-dev-mcp.jsonのdependsOnに従って複数のプロセスをまとめて起動・停止する
+ */
+export class ProcessGroupManager {
+  private static instance: ProcessGroupManager | null = null;
+  private logger = Logger.getInstance();
+  private envLoader = new EnvLoader();
+
+  static getInstance(): ProcessGroupManager {
+    if (!ProcessGroupManager.instance) {
+      ProcessGroupManager.instance = new ProcessGroupManager();
+    }
+    return ProcessGroupManager.instance;
+  }
+
+  /**
+   * 指定プロセス（未指定時は全定義）とその依存先を依存順に起動する
+   *
+   * 各プロセスの準備完了を待ってから依存元を起動する。途中で失敗した場合は
+   * この呼び出しで起動したプロセスを逆順に停止してからエラーを投げる。
+   * @throws {DependencyCycleError} 循環依存がある場合
+   */
+  async startGroup(names?: string[]): Promise<GroupStartResult> {
+    const config = this.requireConfig();
+    const order = this.resolveOrder(config, names);
+    const processManager = ProcessManager.getInstance();
+    const started: DevProcess[] = [];
+    const startedByThisCall: ProcessDefinition[] = [];
+
+    this.logger.info(`Starting process group: ${order.join(' -> ')}`);
+
+    try {
+      for (const name of order) {
+        const definition = this.getDefinition(config, name);
+        const alreadyRunning = processManager.getProcess(definition.cwd, definition.name);
+
+        const envSettings: EnvSettings = {
+          envFile: definition.envFile,
+          overrides: definition.port ? { PORT: definition.port.toString() } : undefined
+        };
+        const { env } = await this.envLoader.prepareEnvironment({ directory: definition.cwd, ...envSettings });
+
+        // Dependents start only after this process passes its readiness check
+        const readiness = this.getReadinessCheck(definition);
+        const hasDependents = order.some(other => this.getDefinition(config, other).dependsOn.includes(name));
+        const devProcess = await processManager.startDevServer(definition.cwd, env, {
+          script: definition.script,
+          name: definition.name,
+          packageManager: definition.packageManager,
+          readiness,
+          waitForReady: hasDependents || !!readiness,
+          restart: definition.restart,
+          envSettings
+        }).catch(error => {
+          if (!alreadyRunning && processManager.getProcess(definition.cwd, definition.name)) {
+            startedByThisCall.push(definition);
+          }
+          throw error;
+        });
+        if (!alreadyRunning || alreadyRunning.pid !== devProcess.pid) {
+          startedByThisCall.push(definition);
+        }
+
+        started.push(devProcess);
+      }
+    } catch (error) {
+      this.logger.error('Failed to start process group, stopping processes started so far', { error });
+      for (const definition of startedByThisCall.reverse()) {
+        await processManager.stopDevServer(definition.cwd, definition.name);
+      }
+      throw error;
+    }
+
+    return { order, started };
+  }
+
+  /**
+   * 指定プロセス（未指定時は全定義）とその依存先を起動時と逆の順序で停止する
+   */
+  async stopGroup(names?: string[]): Promise<GroupStopResult> {
+    const config = this.requireConfig();
+    const order = this.resolveOrder(config, names).reverse();
+    const processManager = ProcessManager.getInstance();
+    const stopped: string[] = [];
+    const failed: string[] = [];
+
+    this.logger.info(`Stopping process group: ${order.join(' -> ')}`);
+
+    for (const name of order) {
+      const definition = this.getDefinition(config, name);
+      if (!processManager.getProcess(definition.cwd, definition.name)) {
+        continue;
+      }
+
+      if ((await processManager.stopDevServer(definition.cwd, definition.name)).success) {
+        stopped.push(name);
+      } else {
+        failed.push(name);
+      }
+    }
+
+    return { order, stopped, failed };
+  }
+
+  private requireConfig(): ProjectConfig {
+    const config = ProjectContextManager.getInstance().getProjectConfig();
+    if (!config || config.processes.length === 0) {
+      throw new Error(`No process definitions found. Define processes in ${PROJECT_CONFIG_FILE} to use process groups.`);
+    }
+    return config;
+  }
+
+  private getDefinition(config: ProjectConfig, name: string): ProcessDefinition {
+    const definition = config.processes.find(candidate => candidate.name === name);
+    if (!definition) {
+      const available = config.processes.map(candidate => candidate.name).join(', ');
+      throw new Error(`Process "${name}" is not defined in ${config.configPath} (available: ${available})`);
+    }
+    return definition;
+  }
+
+  private resolveOrder(config: ProjectConfig, names?: string[]): string[] {
+    const roots = names && names.length > 0
+      ? names.map(name => this.getDefinition(config, name).name)
+      : config.processes.map(definition => definition.name);
+
+    return topologicalSort(roots, name => this.getDefinition(config, name).dependsOn);
+  }
+
+  /**
+   * readinessが無い場合はポートが定義されていればそのポートへの接続で判定する
+   *
+   * どちらも無い場合はundefinedを返し、ProcessManagerの既定の判定（フレームワークの起動完了の行、
+   * 不明なら検出したポートへの接続）を使う。
+   */
+  private getReadinessCheck(definition: ProcessDefinition): ReadinessCheckConfig | undefined {
+    if (definition.readiness) {
+      return definition.readiness;
+    }
+    return definition.port ? { type: 'port', port: definition.port } : undefined;
+  }
+}
@@ -1,16 +1,94 @@
 import { spawn, ChildProcess } from 'child_process';
-import { DevProcess } from '../types.js';
-import { isProcessRunning, killProcess, parsePort } from '../utils/processUtils.js';
+import { join } from 'path';
+import { DevProcess, EnvSettings, PackageManager, ReadinessCheckConfig, RestartPolicyConfig } from '../types.js';
+import { getDescendantPids, getProcessKey, isActiveStatus, isProcessRunning, isValidPid, signalProcessTree } from '../utils/processUtils.js';
+import { parseDevServerUrls } from '../utils/urlDiscovery.js';
+import { isLocalPortAccepting } from '../utils/network.js';
+import { fileExists, readJsonFile } from '../utils/fileSystem.js';
+import { buildRunCommand, detectPackageManager } from '../utils/packageManager.js';
 import { Logger } from '../utils/logger.js';
 import { LogManager } from './LogManager.js';
+import { LogFileStore } from './LogFileStore.js';
+import { closeCaptureFds, getCaptureFiles, openCaptureFiles } from './OutputCapture.js';
 import { PortDetector } from './PortDetector.js';
 import { ProjectContextManager } from '../context/ProjectContextManager.js';
 import { StateManager } from './StateManager.js';
+import { ReadinessChecker } from './ReadinessChecker.js';
+import { PortPreflight } from './PortPreflight.js';
+import { FrameworkAdapter, FrameworkDetector, getFrameworkAdapter } from './FrameworkDetector.js';
+import { EnvLoader } from './EnvLoader.js';
+
+// 再起動ポリシーで省略された項目のデフォルト値
+const DEFAULT_MAX_RESTARTS = 5;
+const DEFAULT_RESTART_WINDOW = 60000;
+const DEFAULT_RESTART_BACKOFF = 1000;
+const DEFAULT_MAX_RESTART_BACKOFF = 30000;
+
+// 再接続したプロセスの終了を確認する間隔
+const EXIT_CHECK_INTERVAL = 1000;
+
+// 停止時にSIGTERMからSIGKILLへ切り替えるまでのデフォルトの猶予
+export const DEFAULT_STOP_GRACE_PERIOD = 3000;
+// SIGKILL後やポート解放の確認で待つ最大時間
+const STOP_VERIFY_TIMEOUT = 2000;
+const STOP_POLL_INTERVAL = 100;
+
+export interface StartDevServerOptions {
+  script?: string;
+  packageManager?: PackageManager;
+  /** 同一ディレクトリ内でプロセスを識別する名前（デフォルト: スクリプト名） */
+  name?: string;
+  /** 準備完了の判定方法（デフォルト: フレームワークの起動完了の行。フレームワークが不明なら検出したポートへのTCP接続） */
+  readiness?: ReadinessCheckConfig;
+  /** 準備完了まで待ってから返す */
+  waitForReady?: boolean;
+  /** 準備完了を待つ最大時間（ミリ秒） */
+  readyTimeout?: number;
+  /** 予期しない終了時の再起動ポリシー（デフォルト: never） */
+  restart?: RestartPolicyConfig;
+  /** 期待ポートが使用中なら空きポートを割り当てる（falseなら起動せずにPortConflictErrorを投げる） */
+  autoPort?: boolean;
+  /** envを作った指定。状態に保存し、restartDevServerで同じ指定から環境変数を作り直す */
+  envSettings?: EnvSettings;
+}
+
+export interface StopDevServerOptions {
+  /** SIGTERMを送ってからSIGKILLに切り替えるまでの猶予（ミリ秒、0で即座にSIGKILL） */
+  gracePeriod?: number;
+}
+
+export interface StopResult {
+  /** 全ての子孫プロセスが終了し、記録済みのポートが解放された */
+  success: boolean;
+  /** シグナルを送ったプロセス（npmとその子孫） */
+  pids: number[];
+  /** 猶予内に終了せずSIGKILLを送った */
+  forced: boolean;
+  /** SIGKILL後も残っているプロセス */
+  survivors: number[];
+  /** 停止後も接続を受け付けているポート */
+  portsInUse: number[];
+}
 
 interface RunningProcess {
   info: DevProcess;
   child: ChildProcess | null;
   logManager: LogManager;
+  /** 既定ポート・準備完了の行・エラー表示の判定に使うフレームワーク */
+  framework: FrameworkAdapter | null;
+  /** 準備完了で解決するPromise（復元したプロセスではnull） */
+  ready: Promise<void> | null;
+  /** 自動再起動で同じ環境変数を使うために保持 */
+  env?: Record<string, string>;
+  /** ポートの割り当てなどでスクリプトに追加する引数 */
+  extraArgs: string[];
+  /** 起動前の確認で決めたポート（検出前からportsに記録する） */
+  plannedPort?: number;
+  /** stopDevServerによる意図的な停止中（自動再起動しない） */
+  stopping: boolean;
+  restartTimer?: NodeJS.Timeout;
+  /** 再接続したプロセスの終了監視（exitイベントが無いためポーリングする） */
+  exitWatcher?: NodeJS.Timeout;
 }
 
 export class ProcessManager {
@@ -18,6 +96,10 @@ export class ProcessManager {
   private logger = Logger.getInstance();
   private processes: Map<string, RunningProcess> = new Map();
   private portDetector: PortDetector;
+  private readinessChecker = new ReadinessChecker();
+  private portPreflight = new PortPreflight();
+  private frameworkDetector = new FrameworkDetector();
+  private envLoader = new EnvLoader();
 
   constructor() {
     this.portDetector = new PortDetector();
@@ -37,157 +119,248 @@ export class ProcessManager {
 
   async startDevServer(
     directory?: string,
-    env?: Record<string, string>
+    env?: Record<string, string>,
+    options: StartDevServerOptions = {}
   ): Promise<DevProcess> {
+    const script = options.script || 'dev';
+    const name = options.name || script;
+
     // Use project context if no directory specified
-    let targetDirectory = directory;
-    if (!targetDirectory) {
-      const contextManager = ProjectContextManager.getInstance();
-      if (contextManager.isInitialized()) {
-        targetDirectory = contextManager.getContext().rootDirectory;
-      } else {
-        targetDirectory = process.cwd();
-      }
-    }
+    const targetDirectory = directory || this.getDefaultDirectory();
+    const key = getProcessKey(targetDirectory, name);
 
-    this.logger.info(`Starting dev server in ${targetDirectory}`);
+    this.logger.info(`Starting "${script}" script as "${name}" in ${targetDirectory}`);
 
-    // Check if a process is already running for this directory
-    const existingProcess = this.processes.get(targetDirectory);
+    // Check if a process with the same name is already running for this directory
+    const existingProcess = this.processes.get(key);
     if (existingProcess && await this.isProcessRunning(existingProcess)) {
-      this.logger.info(`Dev server is already running for ${targetDirectory}`);
+      if (existingProcess.info.script !== script) {
+        throw new Error(
+          `Process "${name}" is already running script "${existingProcess.info.script}" in ${targetDirectory}. Stop it or use a different name to start "${script}".`
+        );
+      }
+      this.logger.info(`Process "${name}" is already running for ${targetDirectory}`);
+      if (options.waitForReady && existingProcess.ready) {
+        await existingProcess.ready;
+      }
       return existingProcess.info;
     }
 
+    const packageJson = await this.ensureScriptDefined(targetDirectory, script);
+    const scriptCommand: string = packageJson.scripts[script];
+    const packageManager = options.packageManager || await detectPackageManager(targetDirectory);
+    const framework = this.frameworkDetector.resolveForScript(
+      scriptCommand,
+      await this.frameworkDetector.detect(targetDirectory, packageJson)
+    );
+
+    // Check the expected port before spawning instead of finding EADDRINUSE in the logs
+    const portPlan = await this.portPreflight.check(scriptCommand, env, {
+      autoPort: options.autoPort,
+      reservedPorts: this.getReservedPorts(key),
+      framework: framework?.adapter ?? null
+    });
+    if (Object.keys(portPlan.env).length > 0) {
+      env = { ...(env || process.env as Record<string, string>), ...portPlan.env };
+    }
+
     try {
-      // Clean up any stale process for this directory
+      // Clean up any stale process for this directory and name
       if (existingProcess) {
-        await this.cleanupProcess(targetDirectory);
+        await this.cleanupProcess(key);
       }
 
-      // Spawn the npm run dev process
-      const childProcess = spawn('npm', ['run', 'dev'], {
-        cwd: targetDirectory,
-        env: env || process.env,
-        detached: false, // Keep attached for better control
-        stdio: ['ignore', 'pipe', 'pipe']
-      });
-
-      const pid = childProcess.pid!;
-
-      // Create properties
-      const logManager = new LogManager();
-
       const processInfo: DevProcess = {
-        pid,
+        pid: 0,
         directory: targetDirectory,
+        name,
+        script,
+        packageManager,
+        framework: framework ? { id: framework.id, name: framework.name, version: framework.version } : undefined,
         status: 'starting',
         startTime: new Date(),
-        ports: []
+        ports: portPlan.port ? [portPlan.port] : [],
+        urls: [],
+        restartPolicy: options.restart,
+        restartCount: 0,
+        envSettings: options.envSettings,
+        portAssignment: portPlan.conflict && portPlan.port
+          ? { port: portPlan.port, extraArgs: portPlan.extraArgs }
+          : undefined,
+        defaultPortInUse: portPlan.defaultPortInUse,
+        readinessCheck: options.readiness,
+        autoPort: options.autoPort
       };
 
       // Store in map
-      this.processes.set(targetDirectory, {
+      const proc: RunningProcess = {
         info: processInfo,
-        child: childProcess,
-        logManager
-      });
-
-      // Start logging
-      await logManager.startLogging(childProcess);
-
-      // Set up process event handlers
-      this.setupProcessHandlers(targetDirectory, childProcess);
-
-      // Wait a moment for the process to potentially start
-      await this.waitForProcessStart(targetDirectory);
-
-      // Detect ports after a short delay
-      setTimeout(async () => {
-        const proc = this.processes.get(targetDirectory);
-        if (proc) {
-          proc.info.ports = await this.portDetector.getPortsByPid(pid);
-          this.logger.info(`Detected ports for ${targetDirectory}: ${proc.info.ports.join(', ')}`);
-          this.saveCurrentState();
-        }
-      }, 3000);
+        child: null,
+        logManager: new LogManager(new LogFileStore(targetDirectory, name), framework?.adapter ?? null),
+        framework: framework?.adapter ?? null,
+        ready: null,
+        env,
+        extraArgs: portPlan.extraArgs,
+        plannedPort: portPlan.port,
+        stopping: false
+      };
+      this.processes.set(key, proc);
+      this.trackUrlsFromLogs(proc);
+
+      if (portPlan.conflict) {
+        const { port, owner } = portPlan.conflict;
+        proc.logManager.addEvent(
+          `Port ${port} is in use by ${owner ? `PID ${owner.pid}${owner.command ? ` (${owner.command})` : ''}` : 'another process'}, using port ${portPlan.port}`
+        );
+      }
+      if (portPlan.defaultPortInUse) {
+        const { port, owner } = portPlan.defaultPortInUse;
+        proc.logManager.addEvent(
+          `Default port ${port} is in use by ${owner ? `PID ${owner.pid}${owner.command ? ` (${owner.command})` : ''}` : 'another process'}, leaving the port to the dev server`
+        );
+      }
 
-      this.logger.info(`Dev server started with PID ${pid} for ${targetDirectory}`);
-      return processInfo;
+      await this.spawnProcess(key);
+      this.logger.info(`Dev server started with PID ${processInfo.pid} for ${key}`);
 
     } catch (error) {
-      this.logger.error(`Failed to start dev server for ${targetDirectory}`, { error });
-      const proc = this.processes.get(targetDirectory);
-      if (proc) {
+      this.logger.error(`Failed to start dev server for ${key}`, { error });
+      const proc = this.processes.get(key);
+      if (proc && isValidPid(proc.info.pid)) {
         proc.info.status = 'error';
+      } else {
+        // Never spawned, so do not keep an entry without a real PID
+        await this.cleanupProcess(key);
       }
       throw new Error(`Failed to start dev server: ${error}`);
     }
+
+    // Track readiness in the background; block on it only when requested
+    const proc = this.processes.get(key)!;
+    proc.ready = this.trackReadiness(proc, options.readiness || this.getDefaultReadinessCheck(proc), options.readyTimeout);
+    if (options.waitForReady) {
+      await proc.ready;
+    }
+
+    return proc.info;
   }
 
-  async stopDevServer(directory?: string): Promise<boolean> {
-    this.logger.info(`Stopping dev server${directory ? ` for ${directory}` : ''}`);
+  /**
+   * 開発サーバーをその子孫プロセスごと停止する
+   *
+   * プロセスグループと子孫それぞれにSIGTERMを送り、猶予内に終了しなければSIGKILLに切り替える。
+   * 最後に子孫が残っていないこと、記録済みのポートが解放されたことを確認する。
+   */
+  async stopDevServer(directory?: string, name?: string, options: StopDevServerOptions = {}): Promise<StopResult> {
+    this.logger.info(`Stopping dev server${directory ? ` for ${directory}` : ''}${name ? ` (${name})` : ''}`);
 
-    const targetDirectory = this.resolveTargetDirectory(directory);
-    const processData = this.processes.get(targetDirectory);
+    const key = this.resolveProcessKey(directory, name);
+    const processData = key ? this.processes.get(key) : undefined;
 
-    if (!processData) {
-      this.logger.info(`No dev server running for ${targetDirectory}`);
-      return true; // Already stopped or not found
+    if (!key || !processData) {
+      this.logger.info(`No dev server running for ${directory || 'default directory'}${name ? ` (${name})` : ''}`);
+      return { success: true, pids: [], forced: false, survivors: [], portsInUse: [] }; // Already stopped or not found
     }
 
+    // Keep the exit handler from treating this as a crash
+    processData.stopping = true;
+    clearTimeout(processData.restartTimer);
+
+    const pid = processData.info.pid;
+    if (!isValidPid(pid)) {
+      // Never spawned: there is nothing to signal, and pid 0 would mean our own process group
+      await this.cleanupProcess(key);
+      return { success: true, pids: [], forced: false, survivors: [], portsInUse: [] };
+    }
+    const ports = [...processData.info.ports];
+    const gracePeriod = options.gracePeriod ?? DEFAULT_STOP_GRACE_PERIOD;
+    let pids = [pid];
+
     try {
-      const pid = processData.info.pid;
+      // Collect the tree before signalling, since children are reparented once npm exits
+      pids = [pid, ...await getDescendantPids(pid)];
+      this.logger.debug(`Stopping process tree for ${key}`, { pids });
 
       // Try graceful shutdown first
-      if (processData.child) {
-        processData.child.kill('SIGTERM');
-      } else {
-        await killProcess(pid, 'SIGTERM');
+      signalProcessTree(pid, pids, 'SIGTERM');
+      let survivors = await this.waitForExit(pids, gracePeriod);
+
+      let forced = false;
+      if (survivors.length > 0) {
+        this.logger.warn(`Processes ${survivors.join(', ')} did not stop within ${gracePeriod}ms, forcing termination`);
+        forced = true;
+        signalProcessTree(pid, survivors, 'SIGKILL');
+        survivors = await this.waitForExit(survivors, STOP_VERIFY_TIMEOUT);
       }
 
-      // Wait a moment for graceful shutdown
-      await new Promise(resolve => setTimeout(resolve, 3000));
-
-      // Check if process is still running
-      if (await isProcessRunning(pid)) {
-        this.logger.warn(`Process ${pid} did not stop gracefully, forcing termination`);
-        await killProcess(pid, 'SIGKILL');
+      const portsInUse = await this.waitForPortsReleased(ports);
+      if (survivors.length > 0) {
+        this.logger.error(`Processes ${survivors.join(', ')} for ${key} survived SIGKILL`);
+      }
+      if (portsInUse.length > 0) {
+        this.logger.error(`Ports ${portsInUse.join(', ')} for ${key} are still in use after stopping`);
       }
 
-      await this.cleanupProcess(targetDirectory);
-      this.logger.info(`Dev server stopped successfully for ${targetDirectory}`);
-      return true;
+      await this.cleanupProcess(key);
+      const success = survivors.length === 0 && portsInUse.length === 0;
+      if (success) {
+        this.logger.info(`Dev server stopped successfully for ${key}`);
+      }
+      return { success, pids, forced, survivors, portsInUse };
 
     } catch (error) {
-      this.logger.error(`Failed to stop dev server for ${targetDirectory}`, { error });
-      await this.cleanupProcess(targetDirectory); // Clean up anyway
-      return false;
+      this.logger.error(`Failed to stop dev server for ${key}`, { error });
+      await this.cleanupProcess(key); // Clean up anyway
+      return { success: false, pids, forced: false, survivors: [], portsInUse: [] };
     }
   }
 
-  async restartDevServer(directory?: string): Promise<DevProcess> {
-    this.logger.info(`Restarting dev server${directory ? ` for ${directory}` : ''}`);
+  async restartDevServer(directory?: string, name?: string): Promise<DevProcess> {
+    this.logger.info(`Restarting dev server${directory ? ` for ${directory}` : ''}${name ? ` (${name})` : ''}`);
 
-    const targetDirectory = this.resolveTargetDirectory(directory);
+    const key = this.resolveProcessKey(directory, name);
+    // Read everything to carry over before stopDevServer removes the entry
+    const previous = key ? this.processes.get(key)?.info : undefined;
+    const targetDirectory = previous?.directory || directory || this.getDefaultDirectory();
 
-    await this.stopDevServer(targetDirectory);
+    // Rebuild the environment from the same settings, picking up edits to the .env files
+    const envSettings = previous?.envSettings;
+    const env = envSettings
+      ? (await this.envLoader.prepareEnvironment({ directory: targetDirectory, ...envSettings })).env
+      : undefined;
 
-    // Wait a moment before restarting
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    if (previous) {
+      await this.stopDevServer(previous.directory, previous.name);
+
+      // Wait a moment before restarting
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
 
-    return this.startDevServer(targetDirectory);
+    return this.startDevServer(targetDirectory, env, {
+      name: previous?.name || name,
+      script: previous?.script,
+      packageManager: previous?.packageManager,
+      readiness: previous?.readinessCheck,
+      restart: previous?.restartPolicy,
+      autoPort: previous?.autoPort,
+      envSettings
+    });
   }
 
   async getStatus(): Promise<DevProcess[]> {
     const activeProcesses: DevProcess[] = [];
 
-    for (const [dir, proc] of this.processes.entries()) {
+    for (const [key, proc] of this.processes.entries()) {
       // Update the process status
       const isRunning = await this.isProcessRunning(proc);
 
-      if (!isRunning && proc.info.status === 'running') {
-        proc.info.status = 'stopped';
+      // Reattached processes have no exit event, so handle the exit here if the watcher has not yet
+      if (!isRunning && isActiveStatus(proc.info.status)) {
+        if (proc.child) {
+          proc.info.status = 'stopped';
+        } else {
+          this.handleExit(key, proc, null, null);
+        }
       }
 
       // Try to update ports if the process is running
@@ -205,20 +378,46 @@ export class ProcessManager {
     return activeProcesses;
   }
 
-  getProcess(directory?: string): DevProcess | null {
-    const targetDirectory = this.resolveTargetDirectory(directory);
-    return this.processes.get(targetDirectory)?.info || null;
+  getProcess(directory?: string, name?: string): DevProcess | null {
+    const key = this.resolveProcessKey(directory, name);
+    return key ? this.processes.get(key)?.info || null : null;
   }
 
-  private resolveTargetDirectory(directory?: string): string {
-    if (directory) return directory;
+  /**
+   * ディレクトリとプロセス名から対象プロセスのキーを解決する
+   *
+   * どちらも省略可能。候補が複数残る場合は曖昧なためエラーとする。
+   */
+  private resolveProcessKey(directory?: string, name?: string): string | null {
+    let candidates = Array.from(this.processes.entries());
+
+    if (name) {
+      candidates = candidates.filter(([, proc]) => proc.info.name === name);
+    }
 
-    // If no directory specified, and only one process running, return that
-    if (this.processes.size === 1) {
-      const dir = this.processes.keys().next().value;
-      if (dir) return dir;
+    if (directory) {
+      candidates = candidates.filter(([, proc]) => proc.info.directory === directory);
+    } else if (candidates.length > 1) {
+      // If several processes match, narrow down to the project context or CWD
+      const defaultDirectory = this.getDefaultDirectory();
+      candidates = candidates.filter(([, proc]) => proc.info.directory === defaultDirectory);
     }
 
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    if (candidates.length > 1) {
+      const names = candidates.map(([, proc]) => proc.info.name).join(', ');
+      throw new Error(
+        `Multiple processes are running in ${candidates[0][1].info.directory} (${names}). Specify a process name.`
+      );
+    }
+
+    return candidates[0][0];
+  }
+
+  private getDefaultDirectory(): string {
     // Fallback to project context or CWD
     const contextManager = ProjectContextManager.getInstance();
     if (contextManager.isInitialized()) {
@@ -227,16 +426,247 @@ export class ProcessManager {
     return process.cwd();
   }
 
+  /**
+   * 他の管理対象プロセスが使う（使う予定の）ポート
+   */
+  private getReservedPorts(excludeKey: string): number[] {
+    return Array.from(this.processes.entries())
+      .filter(([key, proc]) => key !== excludeKey && (proc.info.status === 'starting' || isActiveStatus(proc.info.status)))
+      .flatMap(([, proc]) => proc.info.ports);
+  }
+
+  /**
+   * スクリプトが定義されていることを確認し、package.jsonの内容を返す
+   */
+  private async ensureScriptDefined(directory: string, script: string): Promise<any> {
+    const packageJsonPath = join(directory, 'package.json');
+    if (!(await fileExists(packageJsonPath))) {
+      throw new Error(`package.json not found in ${directory}`);
+    }
+
+    const packageJson = await readJsonFile(packageJsonPath);
+    if (typeof packageJson.scripts?.[script] !== 'string') {
+      const available = Object.keys(packageJson.scripts || {});
+      throw new Error(
+        `Script "${script}" is not defined in ${packageJsonPath}` +
+        (available.length > 0 ? ` (available: ${available.join(', ')})` : '')
+      );
+    }
+
+    return packageJson;
+  }
+
+  /**
+   * 準備完了の判定を開始し、成功したらステータスをreadyにする
+   */
+  private trackReadiness(proc: RunningProcess, check: ReadinessCheckConfig, timeout?: number): Promise<void> {
+    const ready = this.readinessChecker.waitUntilReady(check, {
+      name: proc.info.name,
+      logManager: proc.logManager,
+      getStatus: () => proc.info.status,
+      getPorts: () => proc.info.ports,
+      startedAt: proc.info.startTime
+    }, timeout).then(() => {
+      if (proc.info.status === 'running') {
+        proc.info.status = 'ready';
+        this.saveCurrentState();
+      }
+    });
+
+    ready.catch(error => {
+      this.logger.debug(`Readiness check did not succeed for ${getProcessKey(proc.info.directory, proc.info.name)}`, { error });
+    });
+
+    return ready;
+  }
+
+  private getDefaultReadinessCheck(proc: RunningProcess): ReadinessCheckConfig {
+    if (proc.framework) {
+      return { type: 'log', pattern: proc.framework.readyPattern.source };
+    }
+    const port = proc.env?.PORT ? parseInt(proc.env.PORT, 10) : NaN;
+    return { type: 'port', port: Number.isInteger(port) && port > 0 ? port : undefined };
+  }
+
+  /**
+   * 指定プロセスが全て終了するまで待ち、時間内に終了しなかったプロセスを返す
+   */
+  private async waitForExit(pids: number[], timeout: number): Promise<number[]> {
+    const deadline = Date.now() + timeout;
+    while (true) {
+      const alive: number[] = [];
+      for (const target of pids) {
+        if (await isProcessRunning(target)) {
+          alive.push(target);
+        }
+      }
+      if (alive.length === 0 || Date.now() >= deadline) {
+        return alive;
+      }
+      await new Promise(resolve => setTimeout(resolve, STOP_POLL_INTERVAL));
+    }
+  }
+
+  /**
+   * ポートが接続を受け付けなくなるまで待ち、解放されなかったポートを返す
+   */
+  private async waitForPortsReleased(ports: number[]): Promise<number[]> {
+    const deadline = Date.now() + STOP_VERIFY_TIMEOUT;
+    while (true) {
+      const inUse: number[] = [];
+      for (const port of ports) {
+        if (await isLocalPortAccepting(port, 500)) {
+          inUse.push(port);
+        }
+      }
+      if (inUse.length === 0 || Date.now() >= deadline) {
+        return inUse;
+      }
+      await new Promise(resolve => setTimeout(resolve, STOP_POLL_INTERVAL));
+    }
+  }
+
   private async isProcessRunning(proc: RunningProcess): Promise<boolean> {
     return await isProcessRunning(proc.info.pid);
   }
 
-  private setupProcessHandlers(directory: string, childProcess: ChildProcess): void {
-    const proc = this.processes.get(directory);
+  /**
+   * プロセス情報に従って<packageManager> run <script>を起動する（自動再起動でも使用）
+   *
+   * stdout/stderrはキャプチャファイルに直接書かせ、MCPサーバーとは別のプロセスグループで起動する。
+   * MCPサーバーが終了しても開発サーバーは動き続け、次のMCPサーバーが同じファイルから再接続できる。
+   */
+  private async spawnProcess(key: string): Promise<void> {
+    const proc = this.processes.get(key)!;
+    const { command, args } = buildRunCommand(proc.info.packageManager, proc.info.script, proc.extraArgs);
+
+    // Read the rest of the previous run before its capture files are truncated
+    await proc.logManager.stopLogging();
+    const capture = getCaptureFiles(proc.info.directory, proc.info.name);
+    const fds = openCaptureFiles(capture);
+
+    let childProcess: ChildProcess;
+    try {
+      childProcess = spawn(command, args, {
+        cwd: proc.info.directory,
+        env: proc.env || process.env,
+        detached: true, // Survive the MCP server exiting
+        stdio: ['ignore', fds[0], fds[1]]
+      });
+    } finally {
+      closeCaptureFds(fds);
+    }
+    // Let short-lived CLI commands exit while the server keeps running
+    childProcess.unref();
+
+    const pid = childProcess.pid!;
+    proc.child = childProcess;
+    proc.info.pid = pid;
+    proc.info.status = 'starting';
+    proc.info.startTime = new Date();
+    proc.info.ports = proc.plannedPort ? [proc.plannedPort] : [];
+    proc.info.urls = [];
+
+    // Start logging (the same LogManager keeps logs across automatic restarts)
+    proc.logManager.addEvent(`Started ${command} ${args.join(' ')} (PID ${pid})`);
+    await proc.logManager.startLogging(childProcess, capture);
+
+    // Set up process event handlers
+    this.setupProcessHandlers(key, childProcess);
+
+    // Wait for the process to spawn
+    await this.waitForProcessStart(childProcess);
+
+    // Detect ports after a short delay
+    setTimeout(async () => {
+      const current = this.processes.get(key);
+      if (current && current.info.pid === pid) {
+        const detected = await this.portDetector.getPortsByPid(pid);
+        current.info.ports = [...new Set([...current.info.ports, ...detected])];
+        this.logger.info(`Detected ports for ${key}: ${current.info.ports.join(', ')}`);
+        this.saveCurrentState();
+      }
+    }, 3000);
+  }
+
+  /**
+   * 予期しない終了時に再起動ポリシーに従って再起動を予約する
+   *
+   * windowMs内の再起動回数がmaxRestartsに達したらクラッシュループとみなしてerrorにする。
+   */
+  private scheduleRestart(key: string, proc: RunningProcess): void {
+    const policy = proc.info.restartPolicy;
+    if (!policy || policy.policy === 'never') {
+      return;
+    }
+
+    const failed = proc.info.lastExitCode !== 0;
+    if (policy.policy === 'on-failure' && !failed) {
+      return;
+    }
+
+    const now = Date.now();
+    const windowMs = policy.windowMs ?? DEFAULT_RESTART_WINDOW;
+    const maxRestarts = policy.maxRestarts ?? DEFAULT_MAX_RESTARTS;
+    const history = (proc.info.restartHistory || []).filter(time => now - time.getTime() < windowMs);
+    proc.info.restartHistory = history;
+
+    if (history.length >= maxRestarts) {
+      proc.info.status = 'error';
+      this.logger.error(`Crash loop detected for ${key}: restarted ${history.length} times within ${windowMs}ms, giving up`);
+      this.saveCurrentState();
+      return;
+    }
+
+    const delay = Math.min(
+      (policy.backoffMs ?? DEFAULT_RESTART_BACKOFF) * 2 ** history.length,
+      policy.maxBackoffMs ?? DEFAULT_MAX_RESTART_BACKOFF
+    );
+    this.logger.warn(`Process for ${key} exited unexpectedly, restarting in ${delay}ms (${policy.policy})`);
+
+    clearTimeout(proc.restartTimer);
+    proc.restartTimer = setTimeout(() => {
+      this.autoRestart(key, proc).catch(error => {
+        this.logger.error(`Automatic restart failed for ${key}`, { error });
+        proc.info.status = 'error';
+        this.saveCurrentState();
+      });
+    }, delay);
+    // Do not keep short-lived CLI processes alive just to restart a server
+    proc.restartTimer.unref();
+  }
+
+  private async autoRestart(key: string, proc: RunningProcess): Promise<void> {
+    proc.restartTimer = undefined;
+    // Skip if the process was stopped or replaced while waiting
+    if (this.processes.get(key) !== proc || proc.stopping) {
+      return;
+    }
+
+    proc.info.restartCount++;
+    proc.info.restartHistory = [...(proc.info.restartHistory || []), new Date()];
+    this.logger.info(`Restarting ${key} (restart #${proc.info.restartCount})`);
+
+    // A reattached process has no env, so rebuild it from the saved settings and port instead of using process.env
+    const { envSettings, portAssignment } = proc.info;
+    if (!proc.env && (envSettings || portAssignment)) {
+      const env = envSettings
+        ? (await this.envLoader.prepareEnvironment({ directory: proc.info.directory, ...envSettings })).env
+        : process.env as Record<string, string>;
+      proc.env = portAssignment ? { ...env, PORT: portAssignment.port.toString() } : env;
+    }
+
+    await this.spawnProcess(key);
+    proc.ready = this.trackReadiness(proc, proc.info.readinessCheck || this.getDefaultReadinessCheck(proc));
+    this.saveCurrentState();
+  }
+
+  private setupProcessHandlers(key: string, childProcess: ChildProcess): void {
+    const proc = this.processes.get(key);
     if (!proc) return;
 
     childProcess.on('spawn', () => {
-      this.logger.debug(`Process spawned successfully for ${directory}`);
+      this.logger.debug(`Process spawned successfully for ${key}`);
       if (proc.info) {
         proc.info.status = 'running';
         this.saveCurrentState();
@@ -244,7 +674,7 @@ export class ProcessManager {
     });
 
     childProcess.on('error', (error) => {
-      this.logger.error(`Process error for ${directory}`, { error });
+      this.logger.error(`Process error for ${key}`, { error });
       if (proc.info) {
         proc.info.status = 'error';
         this.saveCurrentState();
@@ -252,78 +682,116 @@ export class ProcessManager {
     });
 
     childProcess.on('exit', (code, signal) => {
-      this.logger.info(`Process for ${directory} exited with code ${code}, signal ${signal}`);
-      if (proc.info) {
-        proc.info.status = 'stopped';
-        this.saveCurrentState();
-      }
-    });
+      this.logger.info(`Process for ${key} exited with code ${code}, signal ${signal}`);
+      // Ignore a previous child after an automatic restart replaced it
+      if (proc.child !== childProcess) return;
 
-    // Listen for port information in the output
-    if (childProcess.stdout) {
-      childProcess.stdout.on('data', (data: Buffer) => {
-        const output = data.toString();
-        const ports = parsePort(output);
-        if (ports.length > 0) {
-          // Merge with existing ports
-          const allPorts = [...proc.info.ports, ...ports];
-          proc.info.ports = [...new Set(allPorts)]; // Remove duplicates
-          this.saveCurrentState();
-        }
-      });
-    }
+      this.handleExit(key, proc, code, signal);
+    });
   }
 
-  private async waitForProcessStart(directory: string): Promise<void> {
-    const proc = this.processes.get(directory);
-    if (!proc) return;
+  /**
+   * プロセス終了を記録し、意図的な停止でなければ再起動ポリシーを適用する
+   *
+   * 再接続したプロセスは親子関係が無く終了コードを取得できないため、codeとsignalはnullになる。
+   */
+  private handleExit(key: string, proc: RunningProcess, code: number | null, signal: NodeJS.Signals | null): void {
+    clearInterval(proc.exitWatcher);
+    proc.exitWatcher = undefined;
 
-    // Wait up to 10 seconds for the process to start properly
-    const maxWaitTime = 10000;
-    const checkInterval = 500;
-    let waited = 0;
+    proc.info.status = 'stopped';
+    proc.info.lastExitCode = code;
+    proc.info.lastExitSignal = signal;
+    this.saveCurrentState();
 
-    while (waited < maxWaitTime) {
-      if (proc.info.status === 'error') {
-        throw new Error('Process failed to start');
-      }
+    if (!proc.stopping) {
+      this.scheduleRestart(key, proc);
+    }
+  }
 
-      if (proc.info.status === 'running') {
+  /**
+   * 再接続したプロセスの終了をPIDの生存確認で検出する
+   */
+  private watchReattachedExit(key: string, proc: RunningProcess): void {
+    const pid = proc.info.pid;
+    proc.exitWatcher = setInterval(async () => {
+      if (proc.child || proc.info.pid !== pid || !isActiveStatus(proc.info.status)) {
+        clearInterval(proc.exitWatcher);
         return;
       }
+      if (!(await isProcessRunning(pid))) {
+        this.logger.info(`Reattached process for ${key} (PID ${pid}) exited`);
+        proc.logManager.addEvent(`Process ${pid} exited (exit code is not available after reattaching)`);
+        this.handleExit(key, proc, null, null);
+      }
+    }, EXIT_CHECK_INTERVAL);
+    proc.exitWatcher.unref();
+  }
 
-      await new Promise(resolve => setTimeout(resolve, checkInterval));
-      waited += checkInterval;
-    }
+  /**
+   * stdoutに出力されたURL（「Local:」「Network:」のバナー等）を記録し、そのポートも拾う
+   */
+  private trackUrlsFromLogs(proc: RunningProcess): void {
+    proc.logManager.onLog(entry => {
+      if (entry.source !== 'stdout') return;
+      const urls = parseDevServerUrls(entry.message)
+        .filter(url => !proc.info.urls.some(existing => existing.url === url.url));
+      if (urls.length > 0) {
+        proc.info.urls = [...proc.info.urls, ...urls];
+        // Merge with existing ports
+        proc.info.ports = [...new Set([...proc.info.ports, ...urls.map(url => url.port)])];
+        this.saveCurrentState();
+      }
+    });
+  }
 
-    // If we're still starting after the wait time, assume it's running
-    if (proc.info.status === 'starting') {
-      proc.info.status = 'running';
-    }
+  /**
+   * 子プロセスのspawn（またはerror）イベントを待つ
+   *
+   * 共有のステータスではなく子プロセス自身のイベントを見るため、起動直後に終了して
+   * 自動再起動が始まっても取り違えない。準備完了の判定はReadinessCheckerが行う。
+   */
+  private waitForProcessStart(childProcess: ChildProcess): Promise<void> {
+    // Wait up to 10 seconds for the process to start properly
+    const maxWaitTime = 10000;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, maxWaitTime);
+      childProcess.once('spawn', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      childProcess.once('error', (error) => {
+        clearTimeout(timer);
+        reject(new Error(`Process failed to start: ${error.message}`));
+      });
+    });
   }
 
-  private async cleanupProcess(directory: string): Promise<void> {
-    const proc = this.processes.get(directory);
+  private async cleanupProcess(key: string): Promise<void> {
+    const proc = this.processes.get(key);
     if (proc) {
+      clearTimeout(proc.restartTimer);
+      clearInterval(proc.exitWatcher);
       try {
         await proc.logManager.stopLogging();
       } catch {
         // Ignore cleanup errors
       }
-      this.processes.delete(directory);
+      this.processes.delete(key);
       this.saveCurrentState();
     }
   }
 
   private async cleanup(): Promise<void> {
-    for (const directory of this.processes.keys()) {
-      await this.cleanupProcess(directory);
+    for (const key of this.processes.keys()) {
+      await this.cleanupProcess(key);
     }
   }
 
-  getLogManager(directory?: string): LogManager | null {
-    const targetDirectory = this.resolveTargetDirectory(directory);
-    return this.processes.get(targetDirectory)?.logManager || null;
+  getLogManager(directory?: string, name?: string): LogManager | null {
+    const key = this.resolveProcessKey(directory, name);
+    return key ? this.processes.get(key)?.logManager || null : null;
   }
 
   /**
@@ -350,25 +818,54 @@ export class ProcessManager {
       const state = await stateManager.loadState();
 
       if (state?.devProcesses) {
-        for (const [dir, processInfo] of Object.entries(state.devProcesses)) {
+        for (const processInfo of Object.values(state.devProcesses)) {
           // プロセスがまだ実行中かチェック
           if (await isProcessRunning(processInfo.pid)) {
-            // LogManagerは新規作成（既存ログは復元できないが、インスタンスは必要）
-            const logManager = new LogManager();
-
-            this.processes.set(dir, {
+            // 旧形式の状態ファイルにはnameが無いためスクリプト名で補完
+            const script = processInfo.script || 'dev';
+            const name = processInfo.name || script;
+            const key = getProcessKey(processInfo.directory, name);
+            // 出力はキャプチャファイルに書かれ続けているため、そこから再接続する
+            const framework = processInfo.framework ? getFrameworkAdapter(processInfo.framework.id) : null;
+            const logManager = new LogManager(new LogFileStore(processInfo.directory, name), framework);
+            const proc: RunningProcess = {
               info: {
                 pid: processInfo.pid,
                 directory: processInfo.directory,
+                name,
+                script,
+                packageManager: processInfo.packageManager || 'npm',
+                framework: processInfo.framework,
                 status: 'running',
                 startTime: new Date(processInfo.startTime),
-                ports: processInfo.ports
+                ports: processInfo.ports,
+                urls: processInfo.urls || [],
+                restartPolicy: processInfo.restartPolicy,
+                restartCount: processInfo.restartCount || 0,
+                lastExitCode: processInfo.lastExitCode,
+                lastExitSignal: processInfo.lastExitSignal,
+                restartHistory: (processInfo.restartHistory || []).map(time => new Date(time)),
+                envSettings: processInfo.envSettings,
+                portAssignment: processInfo.portAssignment,
+                readinessCheck: processInfo.readinessCheck,
+                autoPort: processInfo.autoPort
               },
-              child: null, // 再接続不可
-              logManager
-            });
-
-            this.logger.info(`Restored existing dev server process for ${dir}: PID ${processInfo.pid}`);
+              child: null, // 親子関係は失われるため終了はPIDの生存確認で検出
+              logManager,
+              framework,
+              ready: null,
+              // 空きポートを割り当てていた場合は、自動再起動でも同じポートを指定する
+              extraArgs: processInfo.portAssignment?.extraArgs || [],
+              plannedPort: processInfo.portAssignment?.port,
+              stopping: false
+            };
+
+            this.processes.set(key, proc);
+            this.trackUrlsFromLogs(proc);
+            await logManager.startLogging(null, getCaptureFiles(processInfo.directory, name), true);
+            this.watchReattachedExit(key, proc);
+
+            this.logger.info(`Restored existing dev server process for ${key}: PID ${processInfo.pid}`);
           }
         }
 
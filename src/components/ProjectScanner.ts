@@ -1,23 +1,43 @@
 import { join, dirname } from 'path';
-import { ProjectInfo } from '../types.js';
-import { findFilesRecursively, findUpwards, readJsonFile, fileExists } from '../utils/fileSystem.js';
+import { ProjectInfo, WorkspaceInfo } from '../types.js';
+import { findFilesRecursively, findUpwards, readJsonFile } from '../utils/fileSystem.js';
 import { Logger } from '../utils/logger.js';
 import { ProjectContextManager } from '../context/ProjectContextManager.js';
+import { detectPackageManager } from '../utils/packageManager.js';
+import { WorkspaceScanner } from './WorkspaceScanner.js';
+import { DetectedFramework, FrameworkDetector } from './FrameworkDetector.js';
+import { findEnvFiles } from './EnvLoader.js';
+
+// 常駐型とみなすスクリプト名（`dev:api` のようなサフィックス付きも対象）
+const LONG_RUNNING_SCRIPT_NAMES = ['dev', 'start', 'serve', 'storybook', 'watch', 'preview'];
+
+// スクリプト本体から常駐型と判断するためのパターン
+const LONG_RUNNING_COMMAND_PATTERNS = [
+  /--watch\b/,
+  /\bnodemon\b/,
+  /\bvite(?!\s+build)\b/,
+  /\b(next|nuxt|nuxi|astro|remix)\s+dev\b/,
+  /\bng\s+serve\b/,
+  /\bstorybook\s+dev\b|\bstart-storybook\b/,
+  /\bwebpack-dev-server\b|\bwebpack\s+serve\b/,
+  /\btsx\s+watch\b/
+];
+
+export interface WorkspaceStartPlan {
+  workspace: WorkspaceInfo;
+  /** 依存順に並んだ起動対象（対象パッケージ自身は含まない） */
+  dependencies: ProjectInfo[];
+  /** 常駐型スクリプトが無いため起動しない依存パッケージ名 */
+  skipped: string[];
+}
 
 export class ProjectScanner {
   private logger = Logger.getInstance();
+  private workspaceScanner = new WorkspaceScanner();
+  private frameworkDetector = new FrameworkDetector();
 
   async scanForProjects(startDir?: string): Promise<ProjectInfo[]> {
-    // Use project context if available and no startDir specified
-    let searchDir = startDir;
-    if (!searchDir) {
-      const contextManager = ProjectContextManager.getInstance();
-      if (contextManager.isInitialized()) {
-        searchDir = contextManager.getContext().rootDirectory;
-      } else {
-        searchDir = process.cwd();
-      }
-    }
+    const searchDir = startDir || this.getDefaultDirectory();
     
     this.logger.info(`Scanning for projects starting from ${searchDir}`);
     
@@ -46,28 +66,99 @@ export class ProjectScanner {
         projects.push(projectInfo);
       }
     }
+
+    // Finally, add workspace packages that are deeper than the recursive search reaches
+    const workspace = await this.workspaceScanner.scanWorkspace(searchDir);
+    if (workspace) {
+      for (const pkg of workspace.packages) {
+        if (!projects.some(project => project.directory === pkg.directory)) {
+          const projectInfo = await this.createProjectInfo(join(pkg.directory, 'package.json'));
+          if (projectInfo) {
+            projects.push(projectInfo);
+          }
+        }
+      }
+      this.annotateWorkspaceProjects(projects, workspace);
+    }
     
     return this.prioritizeProjects(projects);
   }
 
+  async scanWorkspace(startDir?: string): Promise<WorkspaceInfo | null> {
+    return this.workspaceScanner.scanWorkspace(startDir || this.getDefaultDirectory());
+  }
+
+  /**
+   * ワークスペース内のパッケージを起動する前に、依存する兄弟パッケージを依存順に求める
+   */
+  async getWorkspaceStartPlan(directory: string): Promise<WorkspaceStartPlan> {
+    const workspace = await this.workspaceScanner.scanWorkspace(directory);
+    const target = workspace?.packages.find(pkg => pkg.directory === directory);
+    if (!workspace || !target) {
+      throw new Error(`${directory} is not a workspace package`);
+    }
+
+    const dependencies: ProjectInfo[] = [];
+    const skipped: string[] = [];
+
+    for (const pkg of this.workspaceScanner.getStartOrder(workspace, target.name)) {
+      if (pkg.name === target.name) continue;
+
+      const projectInfo = await this.createProjectInfo(join(pkg.directory, 'package.json'));
+      if (projectInfo) {
+        dependencies.push(projectInfo);
+      } else {
+        skipped.push(pkg.name);
+      }
+    }
+
+    this.annotateWorkspaceProjects(dependencies, workspace);
+    return { workspace, dependencies, skipped };
+  }
+
+  private annotateWorkspaceProjects(projects: ProjectInfo[], workspace: WorkspaceInfo): void {
+    for (const project of projects) {
+      const pkg = workspace.packages.find(candidate => candidate.directory === project.directory);
+      if (pkg) {
+        project.workspaceRoot = workspace.root;
+        project.internalDependencies = pkg.internalDependencies;
+      }
+    }
+  }
+
+  private getDefaultDirectory(): string {
+    // Use project context if available
+    const contextManager = ProjectContextManager.getInstance();
+    if (contextManager.isInitialized()) {
+      return contextManager.getContext().rootDirectory;
+    }
+    return process.cwd();
+  }
+
   private async createProjectInfo(packageJsonPath: string): Promise<ProjectInfo | null> {
     try {
       const packageJson = await readJsonFile(packageJsonPath);
       const directory = dirname(packageJsonPath);
       const hasDevScript = await this.validateDevScript(packageJson);
+      const scripts = this.detectLongRunningScripts(packageJson);
       
-      if (!hasDevScript) {
+      if (scripts.length === 0) {
         return null;
       }
       
-      const envPath = await this.findEnvFile(directory);
+      const envFiles = await findEnvFiles(directory);
+      const packageManager = await detectPackageManager(directory);
+      const framework = await this.frameworkDetector.detect(directory, packageJson);
       
       return {
         directory,
         packageJson,
         hasDevScript,
-        envPath: envPath || undefined,
-        priority: this.calculatePriority(directory, packageJson)
+        scripts,
+        packageManager,
+        framework: framework ? { id: framework.id, name: framework.name, version: framework.version } : undefined,
+        envFiles,
+        priority: this.calculatePriority(directory, packageJson, framework)
       };
     } catch (error) {
       this.logger.warn(`Failed to process package.json at ${packageJsonPath}`, { error });
@@ -81,20 +172,29 @@ export class ProjectScanner {
            packageJson.scripts.dev.trim().length > 0;
   }
 
-  private async findEnvFile(directory: string): Promise<string | null> {
-    const envFiles = ['.env', '.env.local', '.env.development'];
-    
-    for (const envFile of envFiles) {
-      const envPath = join(directory, envFile);
-      if (await fileExists(envPath)) {
-        return envPath;
-      }
+  private detectLongRunningScripts(packageJson: any): string[] {
+    const scripts = packageJson.scripts;
+    if (!scripts || typeof scripts !== 'object') {
+      return [];
     }
-    
-    return null;
+
+    return Object.entries(scripts)
+      .filter(([name, command]) => {
+        if (typeof command !== 'string' || command.trim().length === 0) {
+          return false;
+        }
+        // pre/postフックは単体では実行しない
+        if (/^(pre|post)/.test(name) && scripts[name.replace(/^(pre|post)/, '')] !== undefined) {
+          return false;
+        }
+        const baseName = name.split(':')[0];
+        return LONG_RUNNING_SCRIPT_NAMES.includes(baseName) ||
+               LONG_RUNNING_COMMAND_PATTERNS.some(pattern => pattern.test(command));
+      })
+      .map(([name]) => name);
   }
 
-  private calculatePriority(directory: string, packageJson: any): number {
+  private calculatePriority(directory: string, packageJson: any, framework: DetectedFramework | null): number {
     let priority = 0;
     
     // Higher priority for root projects (fewer path segments)
@@ -107,17 +207,14 @@ export class ProjectScanner {
       priority += 5;
     }
     
-    // Higher priority if it has common dev dependencies
+    // Higher priority for a detected dev server framework, or at least common frontend dependencies
     const devDeps = packageJson.devDependencies || {};
     const deps = packageJson.dependencies || {};
     const allDeps = { ...devDeps, ...deps };
     
-    const frameworks = ['vite', 'webpack', 'next', 'nuxt', 'react', 'vue', 'svelte'];
-    for (const framework of frameworks) {
-      if (allDeps[framework] || Object.keys(allDeps).some(dep => dep.includes(framework))) {
-        priority += 3;
-        break;
-      }
+    const libraries = ['webpack', 'react', 'vue', 'svelte'];
+    if (framework || libraries.some(library => Object.keys(allDeps).some(dep => dep.includes(library)))) {
+      priority += 3;
     }
     
     return priority;
@@ -127,8 +224,11 @@ export class ProjectScanner {
     return projects.sort((a, b) => b.priority - a.priority);
   }
 
-  async findBestProject(startDir?: string): Promise<ProjectInfo | null> {
+  async findBestProject(startDir?: string, script?: string): Promise<ProjectInfo | null> {
     const projects = await this.scanForProjects(startDir);
-    return projects.length > 0 ? projects[0] : null;
+    const candidates = script
+      ? projects.filter(project => typeof project.packageJson.scripts?.[script] === 'string')
+      : projects;
+    return candidates.length > 0 ? candidates[0] : null;
   }
 }
\ No newline at end of file
@@ -0,0 +1,146 @@
+import { DevProcess, LogEntry, ReadinessCheckConfig } from '../types.js';
+import { isLocalPortAccepting } from '../utils/network.js';
+import { Logger } from '../utils/logger.js';
+import { LogManager } from './LogManager.js';
+
+/** 準備完了を待つデフォルトの最大時間 */
+export const DEFAULT_READY_TIMEOUT = 60000;
+
+const CHECK_INTERVAL = 500;
+const LAST_LOG_LINES = 20;
+
+export class ProcessNotReadyError extends Error {
+  constructor(
+    public processName: string,
+    public reason: string,
+    public lastLogs: LogEntry[]
+  ) {
+    super(`Process "${processName}" never became ready: ${reason}`);
+    this.name = 'ProcessNotReadyError';
+  }
+}
+
+/**
+ * 準備完了を判定する対象プロセス
+ */
+export interface ReadinessTarget {
+  name: string;
+  logManager: LogManager;
+  getStatus: () => DevProcess['status'];
+  /** ポート未指定のportチェックで使う検出済みポート */
+  getPorts: () => number[];
+  /** logチェックでこの時刻より前の行を無視する（自動再起動前の出力に一致させないため） */
+  startedAt?: Date;
+}
+
+/**
+ * ログ・TCPポート・HTTPのいずれかでプロセスの準備完了を判定する
+ */
+export class ReadinessChecker {
+  private logger = Logger.getInstance();
+
+  /**
+   * 準備完了まで待つ
+   * @throws {ProcessNotReadyError} タイムアウトした場合、または準備完了前にプロセスが終了した場合
+   */
+  async waitUntilReady(check: ReadinessCheckConfig, target: ReadinessTarget, timeout?: number): Promise<void> {
+    const limit = timeout ?? check.timeout ?? DEFAULT_READY_TIMEOUT;
+    const deadline = Date.now() + limit;
+    const probe = this.createProbe(check, target);
+
+    try {
+      while (true) {
+        const status = target.getStatus();
+        if (status === 'stopped' || status === 'error') {
+          throw await this.notReady(target, `process exited (${status}) before ${this.describe(check)}`);
+        }
+
+        if (await probe.isReady()) {
+          this.logger.info(`Process "${target.name}" is ready (${this.describe(check)})`);
+          return;
+        }
+
+        if (Date.now() >= deadline) {
+          throw await this.notReady(target, `timed out after ${limit}ms waiting for ${this.describe(check)}`);
+        }
+
+        await new Promise(resolve => setTimeout(resolve, CHECK_INTERVAL));
+      }
+    } finally {
+      probe.dispose();
+    }
+  }
+
+  private createProbe(check: ReadinessCheckConfig, target: ReadinessTarget): { isReady: () => Promise<boolean>; dispose: () => void } {
+    switch (check.type) {
+      case 'log': {
+        const pattern = new RegExp(check.pattern);
+        let matched = false;
+        let scannedHistory = false;
+        const unsubscribe = target.logManager.onLog(entry => {
+          if (pattern.test(entry.message)) {
+            matched = true;
+          }
+        });
+
+        return {
+          isReady: async () => {
+            if (!matched && !scannedHistory) {
+              // Catch lines written before the listener was registered
+              const logs = await target.logManager.getLogs(Number.MAX_SAFE_INTEGER);
+              matched = matched || logs.some(entry =>
+                (!target.startedAt || entry.timestamp >= target.startedAt) && pattern.test(entry.message)
+              );
+              scannedHistory = true;
+            }
+            return matched;
+          },
+          dispose: unsubscribe
+        };
+      }
+
+      case 'port':
+        return {
+          isReady: async () => {
+            const ports = check.port ? [check.port] : target.getPorts();
+            for (const port of ports) {
+              if (await isLocalPortAccepting(port)) {
+                return true;
+              }
+            }
+            return false;
+          },
+          dispose: () => {}
+        };
+
+      case 'http':
+        return {
+          isReady: async () => {
+            try {
+              const response = await fetch(check.url, { signal: AbortSignal.timeout(2000) });
+              return response.ok;
+            } catch {
+              return false;
+            }
+          },
+          dispose: () => {}
+        };
+    }
+  }
+
+  private describe(check: ReadinessCheckConfig): string {
+    switch (check.type) {
+      case 'log':
+        return `a log line matching /${check.pattern}/`;
+      case 'port':
+        return check.port ? `port ${check.port} to accept connections` : 'a detected port to accept connections';
+      case 'http':
+        return `${check.url} to return 2xx`;
+    }
+  }
+
+  private async notReady(target: ReadinessTarget, reason: string): Promise<ProcessNotReadyError> {
+    const lastLogs = await target.logManager.getLogs(LAST_LOG_LINES);
+    return new ProcessNotReadyError(target.name, reason, lastLogs);
+  }
+}
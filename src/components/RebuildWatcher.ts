@@ -0,0 +1,125 @@
+import { DevProcess, Diagnostic, LogEntry } from '../types.js';
+import { detectBuildEvent } from '../utils/buildEvents.js';
+import { Logger } from '../utils/logger.js';
+import { FrameworkAdapter } from './FrameworkDetector.js';
+import { LogManager } from './LogManager.js';
+
+/** 再ビルドを待つデフォルトの最大時間 */
+export const DEFAULT_REBUILD_TIMEOUT = 30000;
+
+const CHECK_INTERVAL = 100;
+// 完了・失敗の行の後にエラーの続きやHMR後の変換エラーが出力されるのを待つ時間
+const SETTLE_TIME = 500;
+const MAX_RESULT_LINES = 200;
+
+export type RebuildOutcome = 'success' | 'failure' | 'timeout' | 'exited';
+
+/**
+ * 再ビルドを待つ対象プロセス
+ */
+export interface RebuildTarget {
+  name: string;
+  logManager: LogManager;
+  getStatus: () => DevProcess['status'];
+  framework: FrameworkAdapter | null;
+}
+
+export interface RebuildResult {
+  outcome: RebuildOutcome;
+  /** 結果を決めた行（失敗の行、無ければ最初の完了の行） */
+  event?: LogEntry;
+  /** 基準点以降に出力された行（最大200行） */
+  logs: LogEntry[];
+  /** 基準点以降に出力された未解決のコンパイルエラー・警告 */
+  diagnostics: Diagnostic[];
+  /** 次回の基準点に使うカーソル */
+  cursor: string;
+  /** 指定されたカーソルが無効だったため、保持しているログの先頭を基準点にした */
+  cursorExpired: boolean;
+  elapsed: number;
+}
+
+/**
+ * 基準点以降のログを監視し、次のビルドの完了・失敗を待つ
+ */
+export class RebuildWatcher {
+  private logger = Logger.getInstance();
+
+  /**
+   * @param cursor 基準点（LogManager.queryLogsのカーソル）。省略すると現在の末尾から待つ
+   */
+  async waitForRebuild(target: RebuildTarget, cursor?: string, timeout: number = DEFAULT_REBUILD_TIMEOUT): Promise<RebuildResult> {
+    const startedAt = Date.now();
+    const deadline = startedAt + timeout;
+    const logs: LogEntry[] = [];
+    let position = target.logManager.queryLogs({ limit: 0 }).cursor;
+    let cursorExpired = false;
+    if (cursor !== undefined) {
+      // An expired cursor rescans from the oldest stored line, so wait from the current end instead
+      cursorExpired = target.logManager.queryLogs({ cursor, limit: 0 }).cursorExpired;
+      if (!cursorExpired) {
+        position = cursor;
+      }
+    }
+    let completed: LogEntry | undefined;
+    let failed: LogEntry | undefined;
+    let settleUntil = Infinity;
+
+    while (true) {
+      const result = target.logManager.queryLogs({ cursor: position, limit: 1000 });
+      position = result.cursor;
+
+      for (const entry of result.entries) {
+        logs.push(entry);
+        const event = detectBuildEvent(entry.message, target.framework);
+        if (!event) {
+          continue;
+        }
+        if (!completed && !failed) {
+          settleUntil = Date.now() + SETTLE_TIME;
+        }
+        if (event === 'failure') {
+          failed = failed || entry;
+        } else {
+          completed = completed || entry;
+        }
+      }
+
+      const now = Date.now();
+      let outcome: RebuildOutcome | null = null;
+      if (now >= settleUntil || (now >= deadline && (failed || completed))) {
+        outcome = failed ? 'failure' : 'success';
+      } else {
+        const status = target.getStatus();
+        if (status === 'stopped' || status === 'error') {
+          outcome = 'exited';
+        } else if (now >= deadline) {
+          outcome = 'timeout';
+        }
+      }
+
+      if (outcome) {
+        this.logger.info(`Rebuild of "${target.name}" finished: ${outcome}`);
+        return {
+          outcome,
+          event: failed || completed,
+          logs: logs.slice(-MAX_RESULT_LINES),
+          diagnostics: this.getNewDiagnostics(target.logManager, logs),
+          cursor: position,
+          cursorExpired,
+          elapsed: now - startedAt
+        };
+      }
+
+      await new Promise(resolve => setTimeout(resolve, CHECK_INTERVAL));
+    }
+  }
+
+  private getNewDiagnostics(logManager: LogManager, logs: LogEntry[]): Diagnostic[] {
+    if (logs.length === 0) {
+      return [];
+    }
+    const since = logs[0].timestamp;
+    return logManager.getDiagnostics().filter(diagnostic => !diagnostic.resolved && diagnostic.lastSeen >= since);
+  }
+}
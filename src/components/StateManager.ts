@@ -4,19 +4,35 @@ import { join, dirname } from 'path';
 import { homedir } from 'os';
 import { Logger } from '../utils/logger.js';
 import { SafeErrorHandler } from '../utils/safeErrorHandler.js';
-import { DevProcess } from '../types.js';
+import { DevProcess, DevServerUrl, EnvSettings, FrameworkInfo, PackageManager, PortAssignment, ReadinessCheckConfig, RestartPolicyConfig } from '../types.js';
+import { getProcessKey, isActiveStatus } from '../utils/processUtils.js';
 
 export interface ServerState {
   timestamp: string;
   version: string;
   devProcesses?: {
-    [directory: string]: {
+    [processKey: string]: {
       pid: number;
       directory: string;
-      status: 'running' | 'stopped' | 'error' | 'starting';
+      name?: string;
+      status: DevProcess['status'];
       startTime: string;
       ports: number[];
+      urls?: DevServerUrl[];
+      script?: string;
+      packageManager?: PackageManager;
+      framework?: FrameworkInfo;
       command: string;
+      restartPolicy?: RestartPolicyConfig;
+      restartCount?: number;
+      lastExitCode?: number | null;
+      lastExitSignal?: string | null;
+      /** 直近の自動再起動の時刻（ISO文字列） */
+      restartHistory?: string[];
+      envSettings?: EnvSettings;
+      portAssignment?: PortAssignment;
+      readinessCheck?: ReadinessCheckConfig;
+      autoPort?: boolean;
     }
   };
   projectContext?: {
@@ -161,13 +177,27 @@ export class StateManager {
     const devProcesses: ServerState['devProcesses'] = {};
 
     for (const process of processes) {
-      devProcesses[process.directory] = {
+      devProcesses[getProcessKey(process.directory, process.name)] = {
         pid: process.pid,
         directory: process.directory,
+        name: process.name,
         status: process.status,
         startTime: process.startTime.toISOString(),
         ports: process.ports,
-        command: 'npm run dev'
+        urls: process.urls,
+        script: process.script,
+        packageManager: process.packageManager,
+        framework: process.framework,
+        command: `${process.packageManager} run ${process.script}`,
+        restartPolicy: process.restartPolicy,
+        restartCount: process.restartCount,
+        lastExitCode: process.lastExitCode,
+        lastExitSignal: process.lastExitSignal,
+        restartHistory: process.restartHistory?.map(time => time.toISOString()),
+        envSettings: process.envSettings,
+        portAssignment: process.portAssignment,
+        readinessCheck: process.readinessCheck,
+        autoPort: process.autoPort
       };
     }
 
@@ -228,14 +258,27 @@ export class StateManager {
     const devProcesses: DevProcess[] = [];
 
     if (state.devProcesses) {
-      for (const [dir, proc] of Object.entries(state.devProcesses)) {
-        if (proc.status === 'running') {
+      for (const proc of Object.values(state.devProcesses)) {
+        if (isActiveStatus(proc.status)) {
           devProcesses.push({
             pid: proc.pid,
             directory: proc.directory,
+            name: proc.name || proc.script || 'dev',
+            script: proc.script || 'dev',
+            packageManager: proc.packageManager || 'npm',
+            framework: proc.framework,
             status: proc.status,
             startTime: new Date(proc.startTime),
-            ports: proc.ports
+            ports: proc.ports,
+            urls: proc.urls || [],
+            restartPolicy: proc.restartPolicy,
+            restartCount: proc.restartCount || 0,
+            lastExitCode: proc.lastExitCode,
+            lastExitSignal: proc.lastExitSignal,
+            restartHistory: (proc.restartHistory || []).map(time => new Date(time)),
+            envSettings: proc.envSettings,
+            readinessCheck: proc.readinessCheck,
+            autoPort: proc.autoPort
           });
         }
       }
@@ -287,7 +330,7 @@ export class StateManager {
         for (const [key, proc] of Object.entries(state.devProcesses)) {
           const processExists = await isProcessRunning(proc.pid);
 
-          if (!processExists && proc.status === 'running') {
+          if (!processExists && isActiveStatus(proc.status)) {
             this.logger.warn('Detected stale process state, updating to stopped', {
               pid: proc.pid,
               directory: proc.directory
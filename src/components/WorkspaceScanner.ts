@@ -0,0 +1,244 @@
+import { promises as fs } from 'fs';
+import { join, dirname, relative, sep } from 'path';
+import { WorkspaceInfo, WorkspacePackage } from '../types.js';
+import { fileExists, readJsonFile } from '../utils/fileSystem.js';
+import { topologicalSort } from '../utils/dependencyGraph.js';
+import { Logger } from '../utils/logger.js';
+
+// `**` を含むパターンで探索する最大の深さ
+const MAX_GLOB_DEPTH = 8;
+
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+export class WorkspaceScanner {
+  private logger = Logger.getInstance();
+
+  /**
+   * startDirから上位に向かってワークスペースルートを探し、全パッケージを列挙する
+   */
+  async scanWorkspace(startDir: string): Promise<WorkspaceInfo | null> {
+    let currentDir = startDir;
+
+    while (true) {
+      const workspace = await this.readWorkspaceRoot(currentDir);
+      if (workspace) {
+        return workspace;
+      }
+
+      const parentDir = dirname(currentDir);
+      if (parentDir === currentDir) {
+        return null;
+      }
+      currentDir = parentDir;
+    }
+  }
+
+  /**
+   * 指定パッケージとそれが依存するワークスペース内パッケージを依存順に返す（指定パッケージは末尾）
+   */
+  getStartOrder(workspace: WorkspaceInfo, packageName: string): WorkspacePackage[] {
+    const packagesByName = new Map(workspace.packages.map(pkg => [pkg.name, pkg]));
+    if (!packagesByName.has(packageName)) {
+      throw new Error(`Package "${packageName}" is not part of the workspace at ${workspace.root}`);
+    }
+
+    const order = topologicalSort(
+      [packageName],
+      name => packagesByName.get(name)?.internalDependencies || [],
+      name => packagesByName.has(name)
+    );
+
+    return order.map(name => packagesByName.get(name)!);
+  }
+
+  private async readWorkspaceRoot(directory: string): Promise<WorkspaceInfo | null> {
+    const tools = await this.detectTools(directory);
+    let source: WorkspaceInfo['source'] | null = null;
+    let patterns: string[] = [];
+
+    const pnpmWorkspacePath = join(directory, 'pnpm-workspace.yaml');
+    const packageJsonPath = join(directory, 'package.json');
+    const nxJsonPath = join(directory, 'nx.json');
+
+    if (await fileExists(pnpmWorkspacePath)) {
+      source = 'pnpm-workspace.yaml';
+      patterns = this.parsePnpmWorkspace(await fs.readFile(pnpmWorkspacePath, 'utf-8'));
+    } else if (await fileExists(packageJsonPath)) {
+      try {
+        const packageJson = await readJsonFile(packageJsonPath);
+        const workspaces = Array.isArray(packageJson.workspaces)
+          ? packageJson.workspaces
+          : packageJson.workspaces?.packages;
+        if (Array.isArray(workspaces)) {
+          source = 'package.json';
+          patterns = workspaces.filter((pattern: unknown): pattern is string => typeof pattern === 'string');
+        }
+      } catch (error) {
+        this.logger.warn(`Failed to read workspaces from ${packageJsonPath}`, { error });
+      }
+    }
+
+    // Nxはパッケージマネージャーのワークスペースが無い場合のみレイアウト設定から推測する
+    if (!source && await fileExists(nxJsonPath)) {
+      try {
+        const nxJson = await readJsonFile(nxJsonPath);
+        const layout = nxJson.workspaceLayout || {};
+        source = 'nx.json';
+        patterns = [`${layout.appsDir || 'apps'}/*`, `${layout.libsDir || 'libs'}/*`];
+      } catch (error) {
+        this.logger.warn(`Failed to read ${nxJsonPath}`, { error });
+      }
+    }
+
+    if (!source) {
+      return null;
+    }
+
+    this.logger.debug(`Found workspace root at ${directory} (${source})`, { patterns });
+    const packages = await this.collectPackages(directory, patterns);
+
+    return {
+      root: directory,
+      source,
+      tools,
+      packages
+    };
+  }
+
+  private async detectTools(directory: string): Promise<string[]> {
+    const tools: string[] = [];
+    if (await fileExists(join(directory, 'turbo.json'))) tools.push('turbo');
+    if (await fileExists(join(directory, 'nx.json'))) tools.push('nx');
+    if (await fileExists(join(directory, 'lerna.json'))) tools.push('lerna');
+    return tools;
+  }
+
+  /**
+   * pnpm-workspace.yamlの`packages`リストを読み取る（YAML全体ではなく必要な部分のみ解釈）
+   */
+  parsePnpmWorkspace(content: string): string[] {
+    const patterns: string[] = [];
+    const lines = content.split(/\r?\n/);
+    let inPackages = false;
+
+    const unquote = (value: string) => value.trim().replace(/^['"]|['"]$/g, '');
+
+    for (const rawLine of lines) {
+      const line = rawLine.replace(/\s+#.*$/, '');
+      if (!line.trim() || line.trim().startsWith('#')) continue;
+
+      const keyMatch = line.match(/^(\S[^:]*):\s*(.*)$/);
+      if (keyMatch) {
+        inPackages = keyMatch[1].trim() === 'packages';
+        const inline = keyMatch[2].trim();
+        if (inPackages && inline.startsWith('[')) {
+          inline.replace(/^\[|\]$/g, '').split(',')
+            .map(unquote)
+            .filter(Boolean)
+            .forEach(pattern => patterns.push(pattern));
+          inPackages = false;
+        }
+        continue;
+      }
+
+      const itemMatch = line.match(/^\s+-\s*(.+)$/);
+      if (inPackages && itemMatch) {
+        patterns.push(unquote(itemMatch[1]));
+      }
+    }
+
+    return patterns;
+  }
+
+  private async collectPackages(root: string, patterns: string[]): Promise<WorkspacePackage[]> {
+    const includes = patterns.filter(pattern => !pattern.startsWith('!')).map(pattern => this.globToRegExp(pattern));
+    const excludes = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => this.globToRegExp(pattern.slice(1)));
+    const maxDepth = patterns.some(pattern => pattern.includes('**'))
+      ? MAX_GLOB_DEPTH
+      : Math.max(0, ...patterns.map(pattern => this.normalizePattern(pattern).split('/').length));
+
+    const packageDirs: string[] = [];
+    const walk = async (currentDir: string, depth: number) => {
+      if (depth > maxDepth) return;
+
+      let entries;
+      try {
+        entries = await fs.readdir(currentDir, { withFileTypes: true });
+      } catch {
+        return; // Ignore permission errors or invalid directories
+      }
+
+      for (const entry of entries) {
+        if (!entry.isDirectory() || entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+
+        const fullPath = join(currentDir, entry.name);
+        const relativePath = relative(root, fullPath).split(sep).join('/');
+        if (includes.some(regex => regex.test(relativePath)) &&
+            !excludes.some(regex => regex.test(relativePath)) &&
+            await fileExists(join(fullPath, 'package.json'))) {
+          packageDirs.push(fullPath);
+        }
+        await walk(fullPath, depth + 1);
+      }
+    };
+    await walk(root, 1);
+
+    const manifests: Array<{ directory: string; packageJson: any }> = [];
+    for (const directory of packageDirs) {
+      try {
+        manifests.push({ directory, packageJson: await readJsonFile(join(directory, 'package.json')) });
+      } catch (error) {
+        this.logger.warn(`Failed to read workspace package at ${directory}`, { error });
+      }
+    }
+
+    const names = new Set(manifests.map(({ packageJson }) => packageJson.name).filter(Boolean));
+
+    return manifests
+      .filter(({ packageJson }) => typeof packageJson.name === 'string')
+      .map(({ directory, packageJson }) => {
+        const dependencyNames = new Set<string>();
+        for (const field of DEPENDENCY_FIELDS) {
+          Object.keys(packageJson[field] || {}).forEach(name => dependencyNames.add(name));
+        }
+
+        return {
+          name: packageJson.name,
+          directory,
+          version: packageJson.version,
+          internalDependencies: [...dependencyNames].filter(name => names.has(name) && name !== packageJson.name)
+        };
+      });
+  }
+
+  private normalizePattern(pattern: string): string {
+    return pattern.replace(/^\.\//, '').replace(/\/+$/, '');
+  }
+
+  private globToRegExp(pattern: string): RegExp {
+    const normalized = this.normalizePattern(pattern);
+    let regex = '';
+
+    for (let i = 0; i < normalized.length; i++) {
+      const char = normalized[i];
+      if (char === '*' && normalized[i + 1] === '*') {
+        // `**/` は0個以上のディレクトリ、末尾の `**` は任意の階層に一致
+        if (normalized[i + 2] === '/') {
+          regex += '(?:[^/]+/)*';
+          i += 2;
+        } else {
+          regex += '.*';
+          i += 1;
+        }
+      } else if (char === '*') {
+        regex += '[^/]*';
+      } else if (char === '?') {
+        regex += '[^/]';
+      } else {
+        regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+
+    return new RegExp(`^${regex}$`);
+  }
+}
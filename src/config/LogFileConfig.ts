@@ -0,0 +1,45 @@
+import { join } from 'path';
+import { homedir } from 'os';
+
+/**
+ * ログファイルのローテーション設定のデフォルト値
+ */
+const DEFAULT_MAX_SIZE = 5 * 1024 * 1024;  // bytes
+const DEFAULT_MAX_FILES = 5;
+const DEFAULT_MAX_AGE_HOURS = 24;
+
+export interface LogFileConfig {
+  /** プロセスごとのログファイルを置くディレクトリ */
+  directory: string;
+  /** このサイズを超えたらローテーション */
+  maxSize: number;
+  /** 保持するローテーション済みファイルの数 */
+  maxFiles: number;
+  /** 最初の行からこの時間が経過したらローテーション */
+  maxAge: number;  // ms
+}
+
+export class LogFileConfigValidator {
+  private static validatePositiveInteger(value: string, name: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw new Error(`Invalid ${name}: ${value}. Must be a positive integer`);
+    }
+    return parsed;
+  }
+
+  public static validateLogFileConfig(env: NodeJS.ProcessEnv): LogFileConfig {
+    return {
+      directory: env.DEV_LOG_DIR || join(homedir(), '.npm-dev-mcp', 'logs'),
+      maxSize: env.DEV_LOG_MAX_SIZE
+        ? this.validatePositiveInteger(env.DEV_LOG_MAX_SIZE, 'DEV_LOG_MAX_SIZE')
+        : DEFAULT_MAX_SIZE,
+      maxFiles: env.DEV_LOG_MAX_FILES
+        ? this.validatePositiveInteger(env.DEV_LOG_MAX_FILES, 'DEV_LOG_MAX_FILES')
+        : DEFAULT_MAX_FILES,
+      maxAge: (env.DEV_LOG_MAX_AGE_HOURS
+        ? this.validatePositiveInteger(env.DEV_LOG_MAX_AGE_HOURS, 'DEV_LOG_MAX_AGE_HOURS')
+        : DEFAULT_MAX_AGE_HOURS) * 60 * 60 * 1000
+    };
+  }
+}
@@ -0,0 +1,198 @@
+import path from 'path';
+import { PackageManager, ReadinessCheckConfig, RestartPolicyConfig } from '../types.js';
+import { isPackageManager, PACKAGE_MANAGERS } from '../utils/packageManager.js';
+
+/**
+ * プロジェクト設定ファイル名
+ */
+export const PROJECT_CONFIG_FILE = '.npm-dev-mcp.json';
+
+const PROCESS_NAME_PATTERN = /^[A-Za-z0-9._:-]+$/;
+
+export interface ProcessDefinition {
+  name: string;
+  script: string;
+  /** 設定ファイルの位置から解決した絶対パス */
+  cwd: string;
+  /** 設定ファイルの位置から解決した絶対パス */
+  envFile?: string;
+  /** 起動に必要な環境変数名（inspect_dev_envで未設定を報告） */
+  requiredEnv?: string[];
+  port?: number;
+  packageManager?: PackageManager;
+  readiness?: ReadinessCheckConfig;
+  restart?: RestartPolicyConfig;
+  dependsOn: string[];
+}
+
+export interface ProjectConfig {
+  configPath: string;
+  processes: ProcessDefinition[];
+}
+
+export class ProjectConfigValidator {
+  private static isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static validateString(value: unknown, name: string): string {
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      throw new Error(`Invalid ${name}: ${JSON.stringify(value)}. Must be a non-empty string`);
+    }
+    return value.trim();
+  }
+
+  private static validatePort(value: unknown, name: string): number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 65535) {
+      throw new Error(`Invalid ${name}: ${JSON.stringify(value)}. Must be between 1 and 65535`);
+    }
+    return value;
+  }
+
+  private static validateDuration(value: unknown, name: string): number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 100) {
+      throw new Error(`Invalid ${name}: ${JSON.stringify(value)}. Must be at least 100ms`);
+    }
+    return value;
+  }
+
+  private static validateCount(value: unknown, name: string): number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      throw new Error(`Invalid ${name}: ${JSON.stringify(value)}. Must be a non-negative integer`);
+    }
+    return value;
+  }
+
+  public static validateReadiness(value: unknown, name: string = 'readiness'): ReadinessCheckConfig {
+    if (!this.isObject(value)) {
+      throw new Error(`Invalid ${name}: ${JSON.stringify(value)}. Must be an object`);
+    }
+
+    const timeout = value.timeout !== undefined ? this.validateDuration(value.timeout, `${name}.timeout`) : undefined;
+
+    switch (value.type) {
+      case 'log': {
+        const pattern = this.validateString(value.pattern, `${name}.pattern`);
+        try {
+          new RegExp(pattern);
+        } catch {
+          throw new Error(`Invalid ${name}.pattern: ${JSON.stringify(pattern)}. Must be a valid regular expression`);
+        }
+        return { type: 'log', pattern, timeout };
+      }
+      case 'port':
+        return {
+          type: 'port',
+          port: value.port !== undefined ? this.validatePort(value.port, `${name}.port`) : undefined,
+          timeout
+        };
+      case 'http': {
+        const url = this.validateString(value.url, `${name}.url`);
+        if (!/^https?:\/\//.test(url)) {
+          throw new Error(`Invalid ${name}.url: ${JSON.stringify(url)}. Must start with http:// or https://`);
+        }
+        return { type: 'http', url, timeout };
+      }
+      default:
+        throw new Error(`Invalid ${name}.type: ${JSON.stringify(value.type)}. Must be one of: log, port, http`);
+    }
+  }
+
+  public static validateRestart(value: unknown, name: string = 'restart'): RestartPolicyConfig {
+    // "on-failure" のような文字列だけの省略記法も許可
+    const config = typeof value === 'string' ? { policy: value } : value;
+    if (!this.isObject(config)) {
+      throw new Error(`Invalid ${name}: ${JSON.stringify(value)}. Must be a policy name or an object`);
+    }
+
+    if (!['never', 'on-failure', 'always'].includes(config.policy)) {
+      throw new Error(`Invalid ${name}.policy: ${JSON.stringify(config.policy)}. Must be one of: never, on-failure, always`);
+    }
+
+    return {
+      policy: config.policy,
+      maxRestarts: config.maxRestarts !== undefined ? this.validateCount(config.maxRestarts, `${name}.maxRestarts`) : undefined,
+      windowMs: config.windowMs !== undefined ? this.validateDuration(config.windowMs, `${name}.windowMs`) : undefined,
+      backoffMs: config.backoffMs !== undefined ? this.validateDuration(config.backoffMs, `${name}.backoffMs`) : undefined,
+      maxBackoffMs: config.maxBackoffMs !== undefined ? this.validateDuration(config.maxBackoffMs, `${name}.maxBackoffMs`) : undefined
+    };
+  }
+
+  private static validateProcess(processName: string, value: unknown, baseDir: string): ProcessDefinition {
+    const name = `processes.${processName}`;
+
+    if (!PROCESS_NAME_PATTERN.test(processName)) {
+      throw new Error(`Invalid process name: ${JSON.stringify(processName)}. Use letters, digits, '.', '_', ':' or '-'`);
+    }
+    if (!this.isObject(value)) {
+      throw new Error(`Invalid ${name}: ${JSON.stringify(value)}. Must be an object`);
+    }
+
+    if (value.packageManager !== undefined && !isPackageManager(value.packageManager)) {
+      throw new Error(`Invalid ${name}.packageManager: ${JSON.stringify(value.packageManager)}. Must be one of: ${PACKAGE_MANAGERS.join(', ')}`);
+    }
+
+    let dependsOn: string[] = [];
+    if (value.dependsOn !== undefined) {
+      if (!Array.isArray(value.dependsOn)) {
+        throw new Error(`Invalid ${name}.dependsOn: ${JSON.stringify(value.dependsOn)}. Must be an array of process names`);
+      }
+      dependsOn = value.dependsOn.map((dependency: unknown, index: number) =>
+        this.validateString(dependency, `${name}.dependsOn[${index}]`)
+      );
+    }
+
+    let requiredEnv: string[] | undefined;
+    if (value.requiredEnv !== undefined) {
+      if (!Array.isArray(value.requiredEnv)) {
+        throw new Error(`Invalid ${name}.requiredEnv: ${JSON.stringify(value.requiredEnv)}. Must be an array of variable names`);
+      }
+      requiredEnv = value.requiredEnv.map((key: unknown, index: number) =>
+        this.validateString(key, `${name}.requiredEnv[${index}]`)
+      );
+    }
+
+    return {
+      name: processName,
+      script: value.script !== undefined ? this.validateString(value.script, `${name}.script`) : processName,
+      cwd: path.resolve(baseDir, value.cwd !== undefined ? this.validateString(value.cwd, `${name}.cwd`) : '.'),
+      envFile: value.envFile !== undefined ? path.resolve(baseDir, this.validateString(value.envFile, `${name}.envFile`)) : undefined,
+      requiredEnv,
+      port: value.port !== undefined ? this.validatePort(value.port, `${name}.port`) : undefined,
+      packageManager: value.packageManager,
+      readiness: value.readiness !== undefined ? this.validateReadiness(value.readiness, `${name}.readiness`) : undefined,
+      restart: value.restart !== undefined ? this.validateRestart(value.restart, `${name}.restart`) : undefined,
+      dependsOn
+    };
+  }
+
+  public static validateProjectConfig(raw: unknown, configPath: string): ProjectConfig {
+    if (!this.isObject(raw)) {
+      throw new Error('Invalid project config: must be a JSON object');
+    }
+
+    const baseDir = path.dirname(configPath);
+    const rawProcesses = raw.processes ?? {};
+    if (!this.isObject(rawProcesses)) {
+      throw new Error(`Invalid processes: ${JSON.stringify(rawProcesses)}. Must be an object keyed by process name`);
+    }
+
+    const processes = Object.entries(rawProcesses).map(([processName, value]) =>
+      this.validateProcess(processName, value, baseDir)
+    );
+
+    const names = new Set(processes.map(definition => definition.name));
+    for (const definition of processes) {
+      for (const dependency of definition.dependsOn) {
+        if (!names.has(dependency)) {
+          throw new Error(`Invalid processes.${definition.name}.dependsOn: unknown process "${dependency}"`);
+        }
+        if (dependency === definition.name) {
+          throw new Error(`Invalid processes.${definition.name}.dependsOn: a process cannot depend on itself`);
+        }
+      }
+    }
+
+    return { configPath, processes };
+  }
+}
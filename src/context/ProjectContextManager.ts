@@ -1,12 +1,17 @@
 import path from 'path';
-import { fileExists, readJsonFile, findUpwards } from '../utils/fileSystem.js';
+import { readJsonFile, findUpwards } from '../utils/fileSystem.js';
 import { Logger } from '../utils/logger.js';
+import { PROJECT_CONFIG_FILE, ProjectConfig, ProjectConfigValidator } from '../config/ProjectConfig.js';
+import { findEnvFiles } from '../components/EnvLoader.js';
 
 export interface ProjectContext {
   rootDirectory: string;
   packageJson?: any;
-  envPath?: string;
+  /** ルートディレクトリにある.envファイル（全モード分） */
+  envFiles: string[];
   projectName: string;
+  config?: ProjectConfig;
+  configError?: string;
 }
 
 export class ProjectContextManager {
@@ -37,16 +42,28 @@ export class ProjectContextManager {
       }
 
       // .envファイルを探す
-      const envPath = await this.findEnvFile(actualRootDir);
+      const envFiles = await findEnvFiles(actualRootDir);
       
       // プロジェクト名を生成
       const projectName = this.generateProjectName(actualRootDir, packageJson);
 
+      // プロジェクト設定ファイルを読み込む（不正な場合もコンテキスト自体は作成する）
+      let config: ProjectConfig | undefined;
+      let configError: string | undefined;
+      try {
+        config = await this.loadProjectConfig(rootDir);
+      } catch (error) {
+        configError = error instanceof Error ? error.message : String(error);
+        this.logger.error('Failed to load project config', { error: configError });
+      }
+
       this.context = {
         rootDirectory: actualRootDir,
         packageJson,
-        envPath,
-        projectName
+        envFiles,
+        projectName,
+        config,
+        configError
       };
 
       this.logger.info(`Project context initialized: ${projectName} at ${actualRootDir}`);
@@ -55,6 +72,7 @@ export class ProjectContextManager {
       // エラーでもデフォルトコンテキストを作成
       this.context = {
         rootDirectory: rootDir,
+        envFiles: [],
         projectName: this.generateProjectName(rootDir, null)
       };
     }
@@ -71,18 +89,35 @@ export class ProjectContextManager {
     return this.context !== null;
   }
 
-  private async findEnvFile(directory: string): Promise<string | undefined> {
-    const envFiles = ['.env', '.env.local', '.env.development'];
-    
-    for (const envFile of envFiles) {
-      const envPath = path.join(directory, envFile);
-      if (await fileExists(envPath)) {
-        this.logger.debug(`Found env file: ${envPath}`);
-        return envPath;
-      }
+  /**
+   * プロジェクト設定を取得する
+   *
+   * @returns 設定ファイルが無い、または未初期化の場合はnull
+   * @throws {Error} 設定ファイルの検証に失敗していた場合
+   */
+  getProjectConfig(): ProjectConfig | null {
+    if (!this.context) {
+      return null;
+    }
+    if (this.context.configError) {
+      throw new Error(this.context.configError);
+    }
+    return this.context.config || null;
+  }
+
+  private async loadProjectConfig(startDir: string): Promise<ProjectConfig | undefined> {
+    const configPath = await findUpwards(startDir, PROJECT_CONFIG_FILE);
+    if (!configPath) {
+      return undefined;
+    }
+
+    this.logger.debug(`Found project config at ${configPath}`);
+    const raw = await readJsonFile(configPath);
+    try {
+      return ProjectConfigValidator.validateProjectConfig(raw, configPath);
+    } catch (error) {
+      throw new Error(`${configPath}: ${error instanceof Error ? error.message : String(error)}`);
     }
-    
-    return undefined;
   }
 
   private generateProjectName(directory: string, packageJson: any): string {
@@ -107,7 +142,8 @@ export class ProjectContextManager {
       name: this.context.projectName,
       root: this.context.rootDirectory,
       hasPackageJson: !!this.context.packageJson,
-      envPath: this.context.envPath || 'Not found'
+      envFiles: this.context.envFiles.length > 0 ? this.context.envFiles : 'Not found',
+      configPath: this.context.config?.configPath || 'Not found'
     });
   }
 }
\ No newline at end of file
@@ -19,13 +19,21 @@ import { MCPServerInitializer, SERVICE_DEPENDENCIES } from './initialization/MCP
 // Import tool schemas and handlers
 import { scanProjectDirsSchema, scanProjectDirs } from './tools/scanProjectDirs.js';
 import { startDevServerSchema, startDevServer } from './tools/startDevServer.js';
+import { inspectDevEnvSchema, inspectDevEnv } from './tools/inspectDevEnv.js';
+import { EnvMode, InheritEnvPolicy, PackageManager } from './types.js';
 import { getDevStatusSchema, getDevStatus } from './tools/getDevStatus.js';
 import { getDevLogsSchema, getDevLogs } from './tools/getDevLogs.js';
+import { queryDevLogsSchema, queryDevLogs } from './tools/queryDevLogs.js';
+import { getDevErrorsSchema, getDevErrors } from './tools/getDevErrors.js';
+import { waitForRebuildSchema, waitForRebuild } from './tools/waitForRebuild.js';
+import { waitForLogSchema, waitForLog } from './tools/waitForLog.js';
 import { stopDevServerSchema, stopDevServer } from './tools/stopDevServer.js';
 import { restartDevServerSchema, restartDevServer } from './tools/restartDevServer.js';
 import { getHealthStatusSchema, getHealthStatus } from './tools/getHealthStatus.js';
 import { recoverFromStateSchema, recoverFromState } from './tools/recoverFromState.js';
 import { autoRecoverSchema, autoRecover } from './tools/autoRecover.js';
+import { startProcessGroupSchema, startProcessGroup } from './tools/startProcessGroup.js';
+import { stopProcessGroupSchema, stopProcessGroup } from './tools/stopProcessGroup.js';
 
 // Initialize logger and safe error handler
 const logger = Logger.getInstance();
@@ -55,13 +63,20 @@ const server = new Server(
 const tools = [
   scanProjectDirsSchema,
   startDevServerSchema,
+  inspectDevEnvSchema,
   getDevStatusSchema,
   getDevLogsSchema,
+  queryDevLogsSchema,
+  getDevErrorsSchema,
+  waitForRebuildSchema,
+  waitForLogSchema,
   stopDevServerSchema,
   restartDevServerSchema,
   getHealthStatusSchema,
   recoverFromStateSchema,
   autoRecoverSchema,
+  startProcessGroupSchema,
+  stopProcessGroupSchema,
 ];
 
 // Handle list tools request
@@ -139,7 +154,37 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           content: [
             {
               type: 'text',
-              text: await startDevServer(args as { directory?: string }),
+              text: await startDevServer(args as {
+                directory?: string;
+                script?: string;
+                name?: string;
+                packageManager?: PackageManager;
+                withDependencies?: boolean;
+                readiness?: unknown;
+                waitForReady?: boolean;
+                readyTimeout?: number;
+                restart?: unknown;
+                autoPort?: boolean;
+                mode?: EnvMode;
+                env?: Record<string, string>;
+                inheritEnv?: InheritEnvPolicy['mode'];
+                envAllowlist?: string[];
+              }),
+            },
+          ],
+        };
+
+      case 'inspect_dev_env':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: await inspectDevEnv(args as {
+                directory?: string;
+                name?: string;
+                mode?: EnvMode;
+                reveal?: boolean;
+              }),
             },
           ],
         };
@@ -159,7 +204,80 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           content: [
             {
               type: 'text',
-              text: await getDevLogs(args as { lines?: number; directory?: string }),
+              text: await getDevLogs(args as { lines?: number; directory?: string; name?: string; history?: boolean }),
+            },
+          ],
+        };
+
+      case 'query_dev_logs':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: await queryDevLogs(args as {
+                directory?: string;
+                name?: string;
+                level?: string[];
+                source?: string;
+                pattern?: string;
+                ignoreCase?: boolean;
+                contains?: string;
+                since?: string;
+                until?: string;
+                cursor?: string;
+                limit?: number;
+              }),
+            },
+          ],
+        };
+
+      case 'get_dev_errors':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: await getDevErrors(args as {
+                directory?: string;
+                name?: string;
+                severity?: string;
+                includeResolved?: boolean;
+              }),
+            },
+          ],
+        };
+
+      case 'wait_for_rebuild':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: await waitForRebuild(args as {
+                directory?: string;
+                name?: string;
+                cursor?: string;
+                timeout?: number;
+              }),
+            },
+          ],
+        };
+
+      case 'wait_for_log':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: await waitForLog(args as {
+                directory?: string;
+                name?: string;
+                pattern: string;
+                ignoreCase?: boolean;
+                level?: string[];
+                source?: string;
+                cursor?: string;
+                timeout?: number;
+                failOnExit?: boolean;
+                context?: number;
+              }),
             },
           ],
         };
@@ -169,7 +287,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           content: [
             {
               type: 'text',
-              text: await stopDevServer(args as { directory?: string }),
+              text: await stopDevServer(args as { directory?: string; name?: string; gracePeriod?: number }),
             },
           ],
         };
@@ -179,7 +297,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           content: [
             {
               type: 'text',
-              text: await restartDevServer(args as { directory?: string }),
+              text: await restartDevServer(args as { directory?: string; name?: string }),
             },
           ],
         };
@@ -214,6 +332,26 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           ],
         };
 
+      case 'start_process_group':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: await startProcessGroup(args as { names?: string[] }),
+            },
+          ],
+        };
+
+      case 'stop_process_group':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: await stopProcessGroup(args as { names?: string[] }),
+            },
+          ],
+        };
+
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
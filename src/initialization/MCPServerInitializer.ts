@@ -13,13 +13,20 @@ type ServiceName = 'stateManager' | 'healthChecker' | 'healthEndpoint' | 'projec
 export const SERVICE_DEPENDENCIES = {
   'scan_project_dirs': ['projectContext'],
   'start_dev_server': ['stateManager'],
+  'inspect_dev_env': ['projectContext'],
   'get_dev_status': ['stateManager'],
   'get_dev_logs': ['stateManager'],
+  'query_dev_logs': ['stateManager'],
+  'get_dev_errors': ['stateManager'],
+  'wait_for_rebuild': ['stateManager'],
+  'wait_for_log': ['stateManager'],
   'stop_dev_server': ['stateManager'],
   'restart_dev_server': ['stateManager'],
   'get_health_status': ['healthChecker'],
   'recover_from_state': ['stateManager'],
-  'auto_recover': ['stateManager', 'healthChecker']
+  'auto_recover': ['stateManager', 'healthChecker'],
+  'start_process_group': ['projectContext', 'stateManager'],
+  'stop_process_group': ['projectContext', 'stateManager']
 } as const;
 
 /**
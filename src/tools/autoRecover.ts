@@ -4,6 +4,7 @@ import { HealthChecker } from '../components/HealthChecker.js';
 import { recoverFromState } from './recoverFromState.js';
 import { ProcessManager } from '../components/ProcessManager.js';
 import { StateManager } from '../components/StateManager.js';
+import { isActiveStatus } from '../utils/processUtils.js';
 
 export const autoRecoverSchema: Tool = {
   name: 'auto_recover',
@@ -109,7 +110,7 @@ export async function autoRecover(args: {
       // Step 2: プロセス復旧
       try {
         const activeProcesses = await processManager.getStatus();
-        const noRunningProcesses = activeProcesses.every(p => p.status !== 'running');
+        const noRunningProcesses = activeProcesses.every(p => !isActiveStatus(p.status));
 
         if (noRunningProcesses) {
           logger.info('Attempting process recovery');
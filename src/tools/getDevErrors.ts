@@ -0,0 +1,121 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ProcessManager } from '../components/ProcessManager.js';
+import { Diagnostic } from '../types.js';
+import { Logger } from '../utils/logger.js';
+
+const logger = Logger.getInstance();
+
+export const getDevErrorsSchema: Tool = {
+  name: 'get_dev_errors',
+  description: 'npm run devのログからTypeScript・esbuild・Vite・webpack・Next.js・ESLintのエラーを抽出し、ファイル・行・列・コード付きで取得。同じエラーは回数にまとめ、再ビルドに成功したものは解決済みになる',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      directory: {
+        type: 'string',
+        description: '対象ディレクトリ（複数起動時に指定）'
+      },
+      name: {
+        type: 'string',
+        description: 'プロセス名（同一ディレクトリで複数プロセス起動時に指定）'
+      },
+      severity: {
+        type: 'string',
+        enum: ['error', 'warning'],
+        description: '指定した重大度だけを取得する（省略時は両方）'
+      },
+      includeResolved: {
+        type: 'boolean',
+        description: '解決済みのエラーも含める（デフォルト: false）',
+        default: false
+      }
+    },
+    additionalProperties: false
+  }
+};
+
+interface GetDevErrorsArgs {
+  directory?: string;
+  name?: string;
+  severity?: string;
+  includeResolved?: boolean;
+}
+
+function serializeDiagnostic(diagnostic: Diagnostic) {
+  return {
+    ...diagnostic,
+    firstSeen: diagnostic.firstSeen.toISOString(),
+    lastSeen: diagnostic.lastSeen.toISOString(),
+    resolvedAt: diagnostic.resolvedAt?.toISOString()
+  };
+}
+
+export async function getDevErrors(args: GetDevErrorsArgs): Promise<string> {
+  try {
+    if (args.severity !== undefined && args.severity !== 'error' && args.severity !== 'warning') {
+      throw new Error(`Invalid severity: ${args.severity}`);
+    }
+
+    const processManager = ProcessManager.getInstance();
+    const processInfo = processManager.getProcess(args.directory, args.name);
+    if (!processInfo) {
+      return JSON.stringify({
+        success: false,
+        message: 'Dev serverが起動していません（または指定されたディレクトリが見つかりません）',
+        diagnostics: []
+      });
+    }
+
+    const logManager = processManager.getLogManager(processInfo.directory, processInfo.name);
+    if (!logManager) {
+      return JSON.stringify({
+        success: false,
+        message: 'ログマネージャーが見つかりませんでした',
+        diagnostics: []
+      });
+    }
+
+    const all = logManager.getDiagnostics();
+    const active = all.filter(diagnostic => !diagnostic.resolved);
+    const diagnostics = all
+      .filter(diagnostic => args.includeResolved || !diagnostic.resolved)
+      .filter(diagnostic => !args.severity || diagnostic.severity === args.severity)
+      // Unresolved first, then the most recently printed
+      .sort((a, b) => Number(a.resolved) - Number(b.resolved) || b.lastSeen.getTime() - a.lastSeen.getTime());
+
+    const summary = {
+      errors: active.filter(diagnostic => diagnostic.severity === 'error').length,
+      warnings: active.filter(diagnostic => diagnostic.severity === 'warning').length,
+      resolved: all.length - active.length
+    };
+
+    let message = summary.errors + summary.warnings === 0
+      ? 'コンパイルエラーはありません'
+      : `${summary.errors}件のエラーと${summary.warnings}件の警告があります`;
+    if (summary.resolved > 0) {
+      message += `（解決済み: ${summary.resolved}件）`;
+    }
+
+    return JSON.stringify({
+      success: true,
+      message,
+      summary,
+      diagnostics: diagnostics.map(serializeDiagnostic),
+      process: {
+        pid: processInfo.pid,
+        directory: processInfo.directory,
+        name: processInfo.name,
+        status: processInfo.status
+      }
+    }, null, 2);
+
+  } catch (error) {
+    logger.error('Failed to get dev server errors', { error });
+    return JSON.stringify({
+      success: false,
+      message: `エラーの取得に失敗しました: ${error instanceof Error ? error.message : error}`,
+      diagnostics: [],
+      error: String(error)
+    });
+  }
+}
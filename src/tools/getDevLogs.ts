@@ -1,5 +1,7 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { ProcessManager } from '../components/ProcessManager.js';
+import { LogFileStore } from '../components/LogFileStore.js';
+import { LogEntry } from '../types.js';
 import { Logger } from '../utils/logger.js';
 
 const logger = Logger.getInstance();
@@ -12,27 +14,61 @@ export const getDevLogsSchema: Tool = {
     properties: {
       lines: {
         type: 'number',
-        description: '取得行数（デフォルト：50）',
+        description: '取得行数（デフォルト：50、メモリ上のログは最大1000行。historyを指定するとそれ以上も取得可能）',
         minimum: 1,
-        maximum: 1000
+        maximum: 10000
       },
       directory: {
         type: 'string',
         description: '対象ディレクトリ（複数起動時に指定）'
+      },
+      name: {
+        type: 'string',
+        description: 'プロセス名（同一ディレクトリで複数プロセス起動時に指定）'
+      },
+      history: {
+        type: 'boolean',
+        description: '~/.npm-dev-mcp/logs/に保存されたログから取得するかどうか。MCPサーバー再起動前や過去の実行分、停止済みプロセスのログも含む（デフォルト: false）',
+        default: false
       }
     },
     additionalProperties: false
   }
 };
 
-export async function getDevLogs(args: { lines?: number; directory?: string }): Promise<string> {
+function formatLogs(logs: LogEntry[]) {
+  return logs.map(log => ({
+    timestamp: log.timestamp.toISOString(),
+    level: log.level,
+    source: log.source,
+    message: log.message
+  }));
+}
+
+export async function getDevLogs(args: { lines?: number; directory?: string; name?: string; history?: boolean }): Promise<string> {
   try {
     const requestedLines = args.lines || 50;
 
     const processManager = ProcessManager.getInstance();
 
     // Determine which process to look at
-    const processInfo = processManager.getProcess(args.directory);
+    const processInfo = processManager.getProcess(args.directory, args.name);
+
+    // A stopped process still has its log files on disk
+    if (!processInfo && args.history && args.directory) {
+      const logs = await new LogFileStore(args.directory, args.name || 'dev').readRecent(requestedLines);
+      return JSON.stringify({
+        success: logs.length > 0,
+        message: logs.length > 0
+          ? `保存済みのログから${logs.length}行を取得しました（プロセスは起動していません）`
+          : '保存済みのログが見つかりませんでした',
+        logs: formatLogs(logs),
+        statistics: {
+          requested: requestedLines,
+          returned: logs.length
+        }
+      }, null, 2);
+    }
 
     if (!processInfo) {
       return JSON.stringify({
@@ -42,7 +78,7 @@ export async function getDevLogs(args: { lines?: number; directory?: string }):
       });
     }
 
-    const logManager = processManager.getLogManager(processInfo.directory);
+    const logManager = processManager.getLogManager(processInfo.directory, processInfo.name);
 
     if (!logManager) {
       return JSON.stringify({
@@ -52,15 +88,12 @@ export async function getDevLogs(args: { lines?: number; directory?: string }):
       });
     }
 
-    const logs = await logManager.getLogs(requestedLines);
+    const logs = args.history
+      ? await logManager.getHistory(requestedLines)
+      : await logManager.getLogs(requestedLines);
 
     // Format logs for better readability
-    const formattedLogs = logs.map(log => ({
-      timestamp: log.timestamp.toISOString(),
-      level: log.level,
-      source: log.source,
-      message: log.message
-    }));
+    const formattedLogs = formatLogs(logs);
 
     const logStats = logManager.getLogStats();
 
@@ -79,6 +112,7 @@ export async function getDevLogs(args: { lines?: number; directory?: string }):
       process: {
         pid: processInfo.pid,
         directory: processInfo.directory,
+        name: processInfo.name,
         status: processInfo.status
       }
     };
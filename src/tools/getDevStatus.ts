@@ -31,17 +31,28 @@ export async function getDevStatus(): Promise<string> {
     }
 
     const processesInfo = processes.map(status => {
-      const logManager = processManager.getLogManager(status.directory);
+      const logManager = processManager.getLogManager(status.directory, status.name);
       const logStats = logManager?.getLogStats();
       const hasRecentErrors = logManager?.hasRecentErrors() || false;
 
       return {
         pid: status.pid,
         directory: status.directory,
+        name: status.name,
+        script: status.script,
+        packageManager: status.packageManager,
+        framework: status.framework,
         status: status.status,
         startTime: status.startTime,
         ports: status.ports,
+        urls: status.urls,
         uptime: Date.now() - status.startTime.getTime(),
+        restart: {
+          policy: status.restartPolicy?.policy || 'never',
+          count: status.restartCount,
+          lastExitCode: status.lastExitCode,
+          lastExitSignal: status.lastExitSignal
+        },
         stats: logStats ? {
           errors: logStats.errors,
           warnings: logStats.warnings
@@ -57,11 +68,19 @@ export async function getDevStatus(): Promise<string> {
       processes: processesInfo
     };
 
+    const urls = processes.flatMap(p => p.urls.filter(url => url.kind === 'local').map(url => url.url));
     const ports = processes.flatMap(p => p.ports);
-    if (ports.length > 0) {
+    if (urls.length > 0) {
+      result.message += `\nアクセスURL: ${urls.join(', ')}`;
+    } else if (ports.length > 0) {
       result.message += `\n利用可能なポート: ${ports.join(', ')}`;
     }
 
+    const crashLooping = processes.filter(p => p.status === 'error' && p.restartCount > 0);
+    if (crashLooping.length > 0) {
+      result.message += `\n⚠️ クラッシュループのため自動再起動を停止しました: ${crashLooping.map(p => p.name).join(', ')}`;
+    }
+
     if (processesInfo.some(p => p.hasRecentErrors)) {
       result.message += '\n⚠️ 一部のプロセスでエラーが発生しています。';
     }
@@ -0,0 +1,114 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { resolve } from 'path';
+import { ENV_MODES, isEnvMode } from '../components/EnvLoader.js';
+import { EnvInspector, isUnsetRequirement } from '../components/EnvInspector.js';
+import { ProjectScanner } from '../components/ProjectScanner.js';
+import { ProjectContextManager } from '../context/ProjectContextManager.js';
+import { EnvMode } from '../types.js';
+import { Logger } from '../utils/logger.js';
+
+const logger = Logger.getInstance();
+
+export const inspectDevEnvSchema: Tool = {
+  name: 'inspect_dev_env',
+  description: 'Dev server起動時に読み込まれる環境変数を.env.example・.env.sampleと.npm-dev-mcp.jsonのrequiredEnvに照らして検査し、未設定・空・余分な変数と各値の読み込み元を報告（秘密情報らしい値はマスク）',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      directory: {
+        type: 'string',
+        description: '対象ディレクトリ（オプション、未指定時は自動検出）'
+      },
+      name: {
+        type: 'string',
+        description: '.npm-dev-mcp.jsonで定義されたプロセス名。そのプロセスのcwd・envFile・requiredEnvを使う'
+      },
+      mode: {
+        type: 'string',
+        enum: ENV_MODES,
+        description: '読み込む.envファイルのモード（デフォルト: development）'
+      },
+      reveal: {
+        type: 'boolean',
+        description: '秘密情報らしい値（名前にSECRET・TOKEN・PASSWORD・KEYなどを含む、認証情報入りのURL）もマスクせずに返す（デフォルト: false）',
+        default: false
+      }
+    },
+    additionalProperties: false
+  }
+};
+
+export async function inspectDevEnv(args: {
+  directory?: string;
+  name?: string;
+  mode?: EnvMode;
+  reveal?: boolean;
+}): Promise<string> {
+  try {
+    if (args.mode !== undefined && !isEnvMode(args.mode)) {
+      throw new Error(`Invalid mode: ${JSON.stringify(args.mode)}. Use one of: ${ENV_MODES.join(', ')}`);
+    }
+
+    const projectConfig = ProjectContextManager.getInstance().getProjectConfig();
+    const definition = args.name
+      ? projectConfig?.processes.find(candidate => candidate.name === args.name)
+      : undefined;
+    if (args.name && !definition) {
+      return JSON.stringify({
+        success: false,
+        message: `プロセス"${args.name}"は.npm-dev-mcp.jsonで定義されていません`
+      });
+    }
+
+    let targetDirectory = args.directory ? resolve(args.directory) : definition?.cwd;
+    if (!targetDirectory) {
+      const scanner = new ProjectScanner();
+      const bestProject = await scanner.findBestProject();
+      if (!bestProject) {
+        return JSON.stringify({
+          success: false,
+          message: 'package.jsonが見つかりませんでした。directoryを指定してください。'
+        });
+      }
+      targetDirectory = bestProject.directory;
+    }
+
+    // Without a process name, use the requirements of every process defined for the directory
+    const required = definition
+      ? definition.requiredEnv || []
+      : (projectConfig?.processes || [])
+          .filter(candidate => candidate.cwd === targetDirectory)
+          .flatMap(candidate => candidate.requiredEnv || []);
+
+    const inspector = new EnvInspector();
+    const inspection = await inspector.inspect({
+      directory: targetDirectory,
+      mode: args.mode,
+      envFile: definition?.envFile,
+      required,
+      reveal: args.reveal
+    });
+
+    let message = '必要な環境変数はすべて設定されています';
+    if (!inspection.exampleFile && required.length === 0) {
+      message = '.env.example・.env.sampleとrequiredEnvが無いため、読み込まれる変数だけを報告します';
+    } else if (!inspection.ok) {
+      const unset = inspection.variables.filter(isUnsetRequirement).map(variable => variable.key);
+      message = `必要な環境変数が未設定または空です: ${unset.join(', ')}`;
+    }
+
+    return JSON.stringify({
+      success: true,
+      message,
+      ...inspection
+    }, null, 2);
+
+  } catch (error) {
+    logger.error('Failed to inspect environment', { error });
+    return JSON.stringify({
+      success: false,
+      message: `環境変数の検査に失敗しました: ${error instanceof Error ? error.message : error}`,
+      error: String(error)
+    });
+  }
+}
@@ -0,0 +1,155 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ProcessManager } from '../components/ProcessManager.js';
+import { parseLogFilter } from '../utils/logFilter.js';
+import { Logger } from '../utils/logger.js';
+
+const logger = Logger.getInstance();
+
+export const queryDevLogsSchema: Tool = {
+  name: 'query_dev_logs',
+  description: 'npm run devのログを条件で検索。返されたcursorを次回渡すと、前回以降に出力された行だけを取得できる',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      directory: {
+        type: 'string',
+        description: '対象ディレクトリ（複数起動時に指定）'
+      },
+      name: {
+        type: 'string',
+        description: 'プロセス名（同一ディレクトリで複数プロセス起動時に指定）'
+      },
+      level: {
+        type: 'array',
+        items: {
+          type: 'string',
+          enum: ['info', 'warn', 'error']
+        },
+        description: '取得するログレベル（例: ["warn", "error"]）'
+      },
+      source: {
+        type: 'string',
+        enum: ['stdout', 'stderr'],
+        description: '出力元で絞り込む'
+      },
+      pattern: {
+        type: 'string',
+        description: 'メッセージに一致させる正規表現'
+      },
+      ignoreCase: {
+        type: 'boolean',
+        description: 'patternで大文字小文字を区別しない（デフォルト: false）',
+        default: false
+      },
+      contains: {
+        type: 'string',
+        description: 'メッセージに含まれる文字列（大文字小文字を区別しない）'
+      },
+      since: {
+        type: 'string',
+        description: 'この日時以降のログ。ISO 8601形式、または現在からの相対時間（例: 30s, 5m, 2h）'
+      },
+      until: {
+        type: 'string',
+        description: 'この日時以前のログ。形式はsinceと同じ'
+      },
+      cursor: {
+        type: 'string',
+        description: '前回の結果のcursor。指定するとそれ以降の行を古い順に返す'
+      },
+      limit: {
+        type: 'number',
+        description: '最大取得行数（デフォルト: 100）',
+        minimum: 1,
+        maximum: 1000
+      }
+    },
+    additionalProperties: false
+  }
+};
+
+interface QueryDevLogsArgs {
+  directory?: string;
+  name?: string;
+  level?: string[];
+  source?: string;
+  pattern?: string;
+  ignoreCase?: boolean;
+  contains?: string;
+  since?: string;
+  until?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export async function queryDevLogs(args: QueryDevLogsArgs): Promise<string> {
+  try {
+    const filter = parseLogFilter(args);
+
+    const processManager = ProcessManager.getInstance();
+    const processInfo = processManager.getProcess(args.directory, args.name);
+    if (!processInfo) {
+      return JSON.stringify({
+        success: false,
+        message: 'Dev serverが起動していません（または指定されたディレクトリが見つかりません）',
+        logs: []
+      });
+    }
+
+    const logManager = processManager.getLogManager(processInfo.directory, processInfo.name);
+    if (!logManager) {
+      return JSON.stringify({
+        success: false,
+        message: 'ログマネージャーが見つかりませんでした',
+        logs: []
+      });
+    }
+
+    const result = logManager.queryLogs({
+      ...filter,
+      cursor: args.cursor,
+      limit: args.limit
+    });
+
+    let message = `${result.entries.length}行のログが条件に一致しました`;
+    if (result.hasMore) {
+      message += '\n続きがあります。cursorを指定して再度取得してください';
+    }
+    if (result.cursorExpired) {
+      message += '\n⚠️ cursorが無効になっていたため（MCPサーバーの再起動など）、保持しているログの先頭から検索しました';
+    }
+    if (result.skipped > 0) {
+      message += `\n⚠️ 前回以降の${result.skipped}行はメモリ上のログ（最大1000行）から溢れたため取得できませんでした`;
+    }
+
+    return JSON.stringify({
+      success: true,
+      message,
+      logs: result.entries.map(log => ({
+        timestamp: log.timestamp.toISOString(),
+        level: log.level,
+        source: log.source,
+        message: log.message
+      })),
+      cursor: result.cursor,
+      hasMore: result.hasMore,
+      cursorExpired: result.cursorExpired,
+      skipped: result.skipped,
+      process: {
+        pid: processInfo.pid,
+        directory: processInfo.directory,
+        name: processInfo.name,
+        status: processInfo.status
+      }
+    }, null, 2);
+
+  } catch (error) {
+    logger.error('Failed to query dev server logs', { error });
+    return JSON.stringify({
+      success: false,
+      message: `ログ検索に失敗しました: ${error instanceof Error ? error.message : error}`,
+      logs: [],
+      error: String(error)
+    });
+  }
+}
@@ -2,6 +2,8 @@ import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { Logger } from '../utils/logger.js';
 import { StateManager } from '../components/StateManager.js';
 import { ProcessManager } from '../components/ProcessManager.js';
+import { EnvLoader } from '../components/EnvLoader.js';
+import { isActiveStatus } from '../utils/processUtils.js';
 
 export const recoverFromStateSchema: Tool = {
   name: 'recover_from_state',
@@ -59,8 +61,8 @@ export async function recoverFromState(args: { force?: boolean } = {}): Promise<
           });
 
           // 既存のプロセスが動作中かチェック
-          const existingProcess = processManager.getProcess(proc.directory);
-          if (existingProcess && existingProcess.status === 'running') {
+          const existingProcess = processManager.getProcess(proc.directory, proc.name);
+          if (existingProcess && isActiveStatus(existingProcess.status)) {
             recoveryResults.warnings.push(`開発サーバー(${proc.directory})は既に動作中です`);
           } else {
             // プロセスが存在するかチェック
@@ -70,7 +72,7 @@ export async function recoverFromState(args: { force?: boolean } = {}): Promise<
               // プロセスが生きている場合は、ProcessManagerに状態を復元(restartDevServer logic or equivalent)
               // New ProcessManager.ts implementation handles restoration in constructor, 
               // but checking here confirms if they are tracked.
-              if (!processManager.getProcess(proc.directory)) {
+              if (!processManager.getProcess(proc.directory, proc.name)) {
                 // If process exists but not in manager, it might be tricky without restart
                 recoveryResults.warnings.push(`PID ${proc.pid} (${proc.directory}) は生存していますが、MCP管理下に戻すには再起動が必要です`);
               } else {
@@ -81,11 +83,24 @@ export async function recoverFromState(args: { force?: boolean } = {}): Promise<
               logger.info('Dead process detected, starting new dev server', { directory: proc.directory });
 
               try {
+                // 保存された指定から環境変数を作り直す（.envファイルの変更も反映）
+                const envSettings = proc.envSettings || {};
+                const { env } = await new EnvLoader().prepareEnvironment({ directory: proc.directory, ...envSettings });
                 const newProcess = await processManager.startDevServer(
-                  proc.directory
+                  proc.directory,
+                  env,
+                  {
+                    script: proc.script,
+                    name: proc.name,
+                    packageManager: proc.packageManager,
+                    readiness: proc.readinessCheck,
+                    restart: proc.restartPolicy,
+                    autoPort: proc.autoPort,
+                    envSettings
+                  }
                 );
 
-                if (newProcess.status === 'running') {
+                if (isActiveStatus(newProcess.status)) {
                   recoveryResults.devProcessRecovered = true;
                   logger.info('Dev server restarted successfully', {
                     newPid: newProcess.pid,
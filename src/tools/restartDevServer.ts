@@ -6,25 +6,29 @@ const logger = Logger.getInstance();
 
 export const restartDevServerSchema: Tool = {
   name: 'restart_dev_server',
-  description: 'npm run devプロセス再起動',
+  description: 'npm run devプロセス再起動（起動時のmode・env・inheritEnvで.envファイルを読み直す）',
   inputSchema: {
     type: 'object',
     properties: {
       directory: {
         type: 'string',
         description: '再起動対象のディレクトリ（複数起動時に指定。未指定時は唯一のプロセスまたはエラー）'
+      },
+      name: {
+        type: 'string',
+        description: '再起動対象のプロセス名（同一ディレクトリで複数プロセス起動時に指定）'
       }
     },
     additionalProperties: false
   }
 };
 
-export async function restartDevServer(args: { directory?: string } = {}): Promise<string> {
+export async function restartDevServer(args: { directory?: string; name?: string } = {}): Promise<string> {
   try {
     const processManager = ProcessManager.getInstance();
 
     // Check if target process exists BEFORE restarting
-    const targetProcess = processManager.getProcess(args.directory);
+    const targetProcess = processManager.getProcess(args.directory, args.name);
     const directoryToRestart = targetProcess?.directory || args.directory;
 
     if (!targetProcess && !args.directory) {
@@ -35,7 +39,7 @@ export async function restartDevServer(args: { directory?: string } = {}): Promi
       });
     }
 
-    logger.info('Restarting dev server', { directory: directoryToRestart });
+    logger.info('Restarting dev server', { directory: directoryToRestart, name: targetProcess?.name || args.name });
 
     const previousDirectory = targetProcess?.directory || args.directory || 'unknown';
     const previousPid = targetProcess?.pid;
@@ -43,14 +47,14 @@ export async function restartDevServer(args: { directory?: string } = {}): Promi
     const previousUptime = targetProcess ? Date.now() - targetProcess.startTime.getTime() : 0;
 
     // Restart the dev server
-    const newProcess = await processManager.restartDevServer(args.directory);
+    const newProcess = await processManager.restartDevServer(directoryToRestart, targetProcess?.name || args.name);
 
     // Wait a moment to get updated status
     await new Promise(resolve => setTimeout(resolve, 3000));
 
     // Get new status from correct process
     const allProcesses = await processManager.getStatus();
-    const newStatus = allProcesses.find(p => p.directory === newProcess.directory);
+    const newStatus = allProcesses.find(p => p.directory === newProcess.directory && p.name === newProcess.name);
 
     const result: any = {
       success: true,
@@ -59,12 +63,23 @@ export async function restartDevServer(args: { directory?: string } = {}): Promi
       newProcess: {
         pid: newProcess.pid,
         directory: newProcess.directory,
+        name: newProcess.name,
+        script: newProcess.script,
         status: newProcess.status,
         startTime: newProcess.startTime,
         ports: newStatus?.ports || newProcess.ports
       }
     };
 
+    // The environment is rebuilt from the settings given at start
+    if (newProcess.envSettings) {
+      result.environment = {
+        mode: newProcess.envSettings.mode || 'development',
+        inheritEnv: newProcess.envSettings.inheritEnv?.mode || 'full',
+        overrides: Object.keys(newProcess.envSettings.overrides || {})
+      };
+    }
+
     if (previousPid) {
       result.previousProcess = {
         pid: previousPid,
@@ -1,12 +1,14 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { ProjectScanner } from '../components/ProjectScanner.js';
+import { ProjectContextManager } from '../context/ProjectContextManager.js';
+import { ProjectConfig } from '../config/ProjectConfig.js';
 import { Logger } from '../utils/logger.js';
 
 const logger = Logger.getInstance();
 
 export const scanProjectDirsSchema: Tool = {
   name: 'scan_project_dirs',
-  description: 'プロジェクト内のpackage.jsonとdevスクリプトを検索',
+  description: 'プロジェクト内のpackage.jsonと常駐型スクリプト（dev, start, serve等）を検索',
   inputSchema: {
     type: 'object',
     properties: {},
@@ -20,12 +22,22 @@ export async function scanProjectDirs(): Promise<string> {
     
     const scanner = new ProjectScanner();
     const projects = await scanner.scanForProjects();
+    const workspace = await scanner.scanWorkspace();
+
+    let projectConfig: ProjectConfig | null = null;
+    let configError: string | undefined;
+    try {
+      projectConfig = ProjectContextManager.getInstance().getProjectConfig();
+    } catch (error) {
+      configError = error instanceof Error ? error.message : String(error);
+    }
     
-    if (projects.length === 0) {
+    if (projects.length === 0 && !projectConfig) {
       return JSON.stringify({
         success: false,
-        message: 'devスクリプトが定義されたpackage.jsonが見つかりませんでした',
-        projects: []
+        message: '常駐型スクリプトが定義されたpackage.jsonが見つかりませんでした',
+        projects: [],
+        configError
       });
     }
     
@@ -36,17 +48,43 @@ export async function scanProjectDirs(): Promise<string> {
         directory: project.directory,
         name: project.packageJson.name || 'Unnamed Project',
         devScript: project.packageJson.scripts?.dev,
-        hasEnvFile: !!project.envPath,
-        envPath: project.envPath,
+        scripts: Object.fromEntries(
+          project.scripts.map(script => [script, project.packageJson.scripts[script]])
+        ),
+        packageManager: project.packageManager,
+        framework: project.framework,
+        hasEnvFile: project.envFiles.length > 0,
+        envFiles: project.envFiles,
         priority: project.priority,
+        internalDependencies: project.internalDependencies,
         dependencies: Object.keys({
           ...project.packageJson.dependencies,
           ...project.packageJson.devDependencies
         }).slice(0, 5) // Show first 5 dependencies
-      }))
+      })),
+      workspace: workspace ? {
+        root: workspace.root,
+        source: workspace.source,
+        tools: workspace.tools,
+        packages: workspace.packages.map(pkg => ({
+          name: pkg.name,
+          directory: pkg.directory,
+          version: pkg.version,
+          internalDependencies: pkg.internalDependencies
+        }))
+      } : undefined,
+      config: projectConfig ? {
+        configPath: projectConfig.configPath,
+        processes: projectConfig.processes
+      } : undefined,
+      configError
     };
+
+    if (configError) {
+      result.message += `\n⚠️ プロジェクト設定ファイルにエラーがあります: ${configError}`;
+    }
     
-    logger.info(`Found ${projects.length} projects with dev scripts`);
+    logger.info(`Found ${projects.length} projects with long-running scripts`);
     return JSON.stringify(result, null, 2);
     
   } catch (error) {
@@ -1,57 +1,219 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { ProcessManager } from '../components/ProcessManager.js';
 import { ProjectScanner } from '../components/ProjectScanner.js';
-import { EnvLoader } from '../components/EnvLoader.js';
+import { ENV_MODES, EnvLoader, INHERIT_ENV_MODES, parseEnvSettings } from '../components/EnvLoader.js';
+import { ProjectContextManager } from '../context/ProjectContextManager.js';
+import { ProcessNotReadyError } from '../components/ReadinessChecker.js';
+import { PortConflictError } from '../components/PortPreflight.js';
+import { ProjectConfigValidator } from '../config/ProjectConfig.js';
 import { Logger } from '../utils/logger.js';
+import { PACKAGE_MANAGERS } from '../utils/packageManager.js';
+import { DevProcess, EnvMode, EnvSettings, InheritEnvPolicy, PackageManager } from '../types.js';
 
 const logger = Logger.getInstance();
 
 export const startDevServerSchema: Tool = {
   name: 'start_dev_server',
-  description: '指定ディレクトリでnpm run devをバックグラウンドで開始',
+  description: '指定ディレクトリでnpmスクリプト（デフォルト: dev）をバックグラウンドで開始',
   inputSchema: {
     type: 'object',
     properties: {
       directory: {
         type: 'string',
         description: '実行ディレクトリ（オプション、未指定時は自動検出）'
+      },
+      script: {
+        type: 'string',
+        description: '実行するpackage.jsonのスクリプト名（例: dev, start, serve, storybook, watch。デフォルト: dev）'
+      },
+      name: {
+        type: 'string',
+        description: 'プロセス名（オプション、デフォルト: スクリプト名）。同一ディレクトリで複数のプロセスを並行起動する際に識別に使用。.npm-dev-mcp.jsonで定義されたプロセス名を指定するとその設定で起動'
+      },
+      packageManager: {
+        type: 'string',
+        enum: PACKAGE_MANAGERS,
+        description: '使用するパッケージマネージャー（オプション、未指定時はロックファイルとpackageManagerフィールドから自動検出）'
+      },
+      withDependencies: {
+        type: 'boolean',
+        description: 'モノレポのワークスペースで、依存する兄弟パッケージを依存順に先に起動するかどうか（デフォルト: false）',
+        default: false
+      },
+      readiness: {
+        type: 'object',
+        description: '準備完了の判定方法（オプション、デフォルト: フレームワークの起動完了の行、フレームワークが不明なら検出したポートへのTCP接続）。{"type":"log","pattern":"ready in"} / {"type":"port","port":3000} / {"type":"http","url":"http://localhost:3000/health"}',
+        properties: {
+          type: { type: 'string', enum: ['log', 'port', 'http'] },
+          pattern: { type: 'string' },
+          port: { type: 'number' },
+          url: { type: 'string' },
+          timeout: { type: 'number' }
+        },
+        required: ['type']
+      },
+      waitForReady: {
+        type: 'boolean',
+        description: '準備完了（status: ready）になるかタイムアウトするまで待ってから結果を返すかどうか（デフォルト: false）',
+        default: false
+      },
+      readyTimeout: {
+        type: 'number',
+        description: 'waitForReady時の最大待ち時間（ミリ秒、デフォルト: 60000）'
+      },
+      restart: {
+        type: 'object',
+        description: '予期しない終了時の再起動ポリシー（オプション、デフォルト: never）。windowMs内にmaxRestarts回再起動するとクラッシュループとして停止',
+        properties: {
+          policy: { type: 'string', enum: ['never', 'on-failure', 'always'] },
+          maxRestarts: { type: 'number', description: 'デフォルト: 5' },
+          windowMs: { type: 'number', description: 'デフォルト: 60000' },
+          backoffMs: { type: 'number', description: '初回の待ち時間。再起動のたびに倍増（デフォルト: 1000）' },
+          maxBackoffMs: { type: 'number', description: 'デフォルト: 30000' }
+        },
+        required: ['policy']
+      },
+      mode: {
+        type: 'string',
+        enum: ENV_MODES,
+        description: '読み込む.envファイルのモード（デフォルト: development）。.env、.env.local、.env.[mode]、.env.[mode].localをVite・Next.jsと同じ優先順位で読み込む'
+      },
+      env: {
+        type: 'object',
+        description: '追加・上書きする環境変数（例: {"API_URL":"http://localhost:4000"}）。.envファイルとMCPサーバーの環境変数より優先し、restart_dev_serverでも同じ値を使う',
+        additionalProperties: { type: 'string' }
+      },
+      inheritEnv: {
+        type: 'string',
+        enum: INHERIT_ENV_MODES,
+        description: 'MCPサーバーの環境変数の引き継ぎ方（デフォルト: full）。full: すべて / allowlist: envAllowlistの変数とPATH・HOMEなど / none: PATH・HOMEなどコマンドの実行に必要な変数だけ'
+      },
+      envAllowlist: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'inheritEnvがallowlistのときに引き継ぐ変数名（指定するとinheritEnvの省略時もallowlistになる）'
+      },
+      autoPort: {
+        type: 'boolean',
+        description: '想定ポート（PORT・スクリプトの--port・フレームワーク既定値から推定）が使用中の場合に空きポートを割り当てるかどうか。falseなら起動せずに使用中のPIDとコマンドを返す。ただし空きポートを自分で選ぶフレームワーク（Vite・Astro・SvelteKit）の既定値のポートは開発サーバーに任せて起動し、defaultPortInUseで知らせる（デフォルト: false）',
+        default: false
       }
     },
     additionalProperties: false
   }
 };
 
-export async function startDevServer(args: { directory?: string }): Promise<string> {
+export async function startDevServer(args: {
+  directory?: string;
+  script?: string;
+  name?: string;
+  packageManager?: PackageManager;
+  withDependencies?: boolean;
+  readiness?: unknown;
+  waitForReady?: boolean;
+  readyTimeout?: number;
+  restart?: unknown;
+  autoPort?: boolean;
+  mode?: EnvMode;
+  env?: Record<string, string>;
+  inheritEnv?: InheritEnvPolicy['mode'];
+  envAllowlist?: string[];
+}): Promise<string> {
   try {
-    logger.info('Starting dev server', { directory: args.directory });
+    logger.info('Starting dev server', { directory: args.directory, script: args.script });
+
+    const requestedSettings = parseEnvSettings({
+      mode: args.mode,
+      env: args.env,
+      inheritEnv: args.inheritEnv,
+      envAllowlist: args.envAllowlist
+    });
 
     let targetDirectory = args.directory;
-    let envPath: string | undefined;
+    let envFile: string | undefined;
+    let script = args.script || 'dev';
+
+    // Use the process definition from .npm-dev-mcp.json when the name matches one
+    const projectConfig = ProjectContextManager.getInstance().getProjectConfig();
+    const definition = args.name
+      ? projectConfig?.processes.find(candidate => candidate.name === args.name)
+      : undefined;
+    if (definition) {
+      targetDirectory = targetDirectory || definition.cwd;
+      script = args.script || definition.script;
+      envFile = definition.envFile;
+      logger.info(`Using process definition "${definition.name}" from ${projectConfig!.configPath}`);
+    }
 
     // If no directory specified, auto-detect
     if (!targetDirectory) {
       const scanner = new ProjectScanner();
-      const bestProject = await scanner.findBestProject();
+      const bestProject = await scanner.findBestProject(undefined, args.script);
 
       if (!bestProject) {
         return JSON.stringify({
           success: false,
-          message: 'devスクリプトが定義されたpackage.jsonが見つかりませんでした。scan_project_dirsを実行して利用可能なプロジェクトを確認してください。'
+          message: `${args.script ? `${args.script}スクリプト` : '常駐型スクリプト'}が定義されたpackage.jsonが見つかりませんでした。scan_project_dirsを実行して利用可能なプロジェクトを確認してください。`
         });
       }
 
       targetDirectory = bestProject.directory;
-      envPath = bestProject.envPath;
+      if (!args.script && !bestProject.hasDevScript) {
+        script = bestProject.scripts[0];
+      }
       logger.info(`Auto-detected project directory: ${targetDirectory}`);
     }
 
-    // Load environment variables
+    // Load environment variables; the port of the definition is an override the env argument can replace
+    const envSettings: EnvSettings = { ...requestedSettings, envFile };
+    if (definition?.port) {
+      envSettings.overrides = { PORT: definition.port.toString(), ...envSettings.overrides };
+    }
     const envLoader = new EnvLoader();
-    const env = await envLoader.prepareEnvironment(envPath);
+    const prepared = await envLoader.prepareEnvironment({ directory: targetDirectory, ...envSettings });
+    const env = prepared.env;
 
-    // Start the dev server
     const processManager = ProcessManager.getInstance();
-    const devProcess = await processManager.startDevServer(targetDirectory, env);
+
+    // Start workspace siblings this package depends on, in dependency order
+    const dependencyProcesses: DevProcess[] = [];
+    let skippedDependencies: string[] = [];
+    if (args.withDependencies) {
+      const scanner = new ProjectScanner();
+      const plan = await scanner.getWorkspaceStartPlan(targetDirectory);
+      skippedDependencies = plan.skipped;
+
+      for (const dependency of plan.dependencies) {
+        logger.info(`Starting workspace dependency ${dependency.packageJson.name}`, { directory: dependency.directory });
+        // Dependencies share the mode and inheritance, but the overrides are meant for the target only
+        const dependencySettings: EnvSettings = { mode: envSettings.mode, inheritEnv: envSettings.inheritEnv };
+        const { env: dependencyEnv } = await envLoader.prepareEnvironment({ directory: dependency.directory, ...dependencySettings });
+        dependencyProcesses.push(await processManager.startDevServer(dependency.directory, dependencyEnv, {
+          script: dependency.hasDevScript ? 'dev' : dependency.scripts[0],
+          packageManager: args.packageManager,
+          envSettings: dependencySettings
+        }));
+      }
+    }
+
+    // Start the dev server
+    const readiness = args.readiness !== undefined
+      ? ProjectConfigValidator.validateReadiness(args.readiness)
+      : definition?.readiness;
+    const restart = args.restart !== undefined
+      ? ProjectConfigValidator.validateRestart(args.restart)
+      : definition?.restart;
+    const devProcess = await processManager.startDevServer(targetDirectory, env, {
+      script,
+      name: args.name,
+      packageManager: args.packageManager || definition?.packageManager,
+      readiness,
+      waitForReady: args.waitForReady,
+      readyTimeout: args.readyTimeout,
+      restart,
+      autoPort: args.autoPort,
+      envSettings
+    });
 
     // Wait a moment to get initial status
     await new Promise(resolve => setTimeout(resolve, 2000));
@@ -65,18 +227,55 @@ export async function startDevServer(args: { directory?: string }): Promise<stri
       process: {
         pid: devProcess.pid,
         directory: devProcess.directory,
+        name: devProcess.name,
+        script: devProcess.script,
+        packageManager: devProcess.packageManager,
+        framework: devProcess.framework,
         status: devProcess.status,
         startTime: devProcess.startTime,
-        ports: devProcess.ports
+        ports: devProcess.ports,
+        urls: devProcess.urls,
+        restartPolicy: devProcess.restartPolicy?.policy || 'never'
       },
       environment: {
-        hasEnvFile: !!envPath,
-        envPath,
+        mode: prepared.mode,
+        hasEnvFile: prepared.files.length > 0,
+        envFiles: prepared.files,
+        inheritEnv: envSettings.inheritEnv?.mode || 'full',
+        overrides: Object.keys(envSettings.overrides || {}),
+        variables: prepared.sources,
+        ...(prepared.warnings.length > 0 ? { warnings: prepared.warnings } : {}),
         nodeEnv: env.NODE_ENV || 'development'
-      }
+      },
+      configPath: definition ? projectConfig!.configPath : undefined,
+      ...(devProcess.defaultPortInUse ? {
+        defaultPortInUse: {
+          port: devProcess.defaultPortInUse.port,
+          pid: devProcess.defaultPortInUse.owner?.pid,
+          command: devProcess.defaultPortInUse.owner?.command
+        }
+      } : {}),
+      ...(args.withDependencies ? {
+        dependencies: {
+          started: dependencyProcesses.map(dependency => ({
+            pid: dependency.pid,
+            directory: dependency.directory,
+            name: dependency.name,
+            script: dependency.script,
+            status: dependency.status
+          })),
+          skipped: skippedDependencies
+        }
+      } : {})
     };
 
-    if (devProcess.ports.length > 0) {
+    if (devProcess.defaultPortInUse) {
+      const { port, owner } = devProcess.defaultPortInUse;
+      result.message += `\n⚠️ 既定ポート${port}は既に使用されているため${owner ? `（PID ${owner.pid}: ${owner.command || '不明なコマンド'}）` : ''}、開発サーバーが空いているポートを選びます`;
+    }
+    if (devProcess.urls.length > 0) {
+      result.message += `\nアクセスURL: ${devProcess.urls.map(url => url.url).join(', ')}`;
+    } else if (devProcess.ports.length > 0) {
       result.message += `\n起動ポート: ${devProcess.ports.join(', ')}`;
     }
 
@@ -89,6 +288,31 @@ export async function startDevServer(args: { directory?: string }): Promise<stri
 
   } catch (error) {
     logger.error('Failed to start dev server', { error });
+    if (error instanceof PortConflictError) {
+      return JSON.stringify({
+        success: false,
+        message: `ポート${error.port}は既に使用されています${error.owner ? `（PID ${error.owner.pid}: ${error.owner.command || '不明なコマンド'}）` : ''}。${error.reason ? `${error.reason}。` : 'autoPort: trueを指定すると空いているポートで起動します。'}`,
+        error: error.message,
+        portConflict: {
+          port: error.port,
+          pid: error.owner?.pid,
+          command: error.owner?.command
+        }
+      }, null, 2);
+    }
+    if (error instanceof ProcessNotReadyError) {
+      return JSON.stringify({
+        success: false,
+        message: `Dev serverが準備完了になりませんでした（${error.reason}）。直近のログを確認してください。`,
+        error: error.message,
+        lastLogs: error.lastLogs.map(log => ({
+          timestamp: log.timestamp.toISOString(),
+          level: log.level,
+          source: log.source,
+          message: log.message
+        }))
+      }, null, 2);
+    }
     return JSON.stringify({
       success: false,
       message: `Dev serverの開始に失敗しました: ${error}`,
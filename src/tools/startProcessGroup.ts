@@ -0,0 +1,55 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ProcessGroupManager } from '../components/ProcessGroupManager.js';
+import { DependencyCycleError } from '../utils/dependencyGraph.js';
+import { Logger } from '../utils/logger.js';
+
+const logger = Logger.getInstance();
+
+export const startProcessGroupSchema: Tool = {
+  name: 'start_process_group',
+  description: '.npm-dev-mcp.jsonで定義したプロセスをdependsOnの依存順に起動（各プロセスの準備完了を待ってから依存元を起動）',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      names: {
+        type: 'array',
+        items: { type: 'string' },
+        description: '起動するプロセス名（オプション、依存先も自動で起動。未指定時は定義済みの全プロセス）'
+      }
+    },
+    additionalProperties: false
+  }
+};
+
+export async function startProcessGroup(args: { names?: string[] }): Promise<string> {
+  try {
+    logger.info('Starting process group', { names: args.names });
+
+    const groupManager = ProcessGroupManager.getInstance();
+    const { order, started } = await groupManager.startGroup(args.names);
+
+    return JSON.stringify({
+      success: true,
+      message: `${started.length}個のプロセスを依存順に起動しました: ${order.join(' → ')}`,
+      order,
+      processes: started.map(process => ({
+        pid: process.pid,
+        directory: process.directory,
+        name: process.name,
+        script: process.script,
+        status: process.status,
+        ports: process.ports
+      }))
+    }, null, 2);
+
+  } catch (error) {
+    logger.error('Failed to start process group', { error });
+    return JSON.stringify({
+      success: false,
+      message: error instanceof DependencyCycleError
+        ? `プロセス定義に循環依存があります: ${error.cycle.join(' → ')}`
+        : `プロセスグループの起動に失敗しました: ${error}`,
+      error: String(error)
+    });
+  }
+}
@@ -13,18 +13,26 @@ export const stopDevServerSchema: Tool = {
       directory: {
         type: 'string',
         description: '停止対象のディレクトリ（複数起動時に指定。未指定時は唯一のプロセスまたはエラー）'
+      },
+      name: {
+        type: 'string',
+        description: '停止対象のプロセス名（同一ディレクトリで複数プロセス起動時に指定）'
+      },
+      gracePeriod: {
+        type: 'number',
+        description: 'SIGTERMを送ってからSIGKILLに切り替えるまでの猶予（ミリ秒、デフォルト: 3000、0で即座に強制終了）'
       }
     },
     additionalProperties: false
   }
 };
 
-export async function stopDevServer(args: { directory?: string }): Promise<string> {
+export async function stopDevServer(args: { directory?: string; name?: string; gracePeriod?: number }): Promise<string> {
   try {
     const processManager = ProcessManager.getInstance();
 
     // Check if target process exists BEFORE stopping
-    const targetProcess = processManager.getProcess(args.directory);
+    const targetProcess = processManager.getProcess(args.directory, args.name);
     if (!targetProcess) {
       return JSON.stringify({
         success: false,
@@ -33,27 +41,46 @@ export async function stopDevServer(args: { directory?: string }): Promise<strin
       });
     }
 
-    logger.info('Stopping dev server', { directory: targetProcess.directory });
+    logger.info('Stopping dev server', { directory: targetProcess.directory, name: targetProcess.name });
 
-    const logManager = processManager.getLogManager(targetProcess.directory);
+    const logManager = processManager.getLogManager(targetProcess.directory, targetProcess.name);
     const finalLogStats = logManager?.getLogStats();
 
-    // Stop the dev server
-    const stopResult = await processManager.stopDevServer(args.directory);
+    // Stop the dev server together with its descendants
+    const stopResult = await processManager.stopDevServer(targetProcess.directory, targetProcess.name, {
+      gracePeriod: args.gracePeriod
+    });
 
     const result: any = {
-      success: stopResult,
-      message: stopResult
+      success: stopResult.success,
+      message: stopResult.success
         ? 'Dev serverを正常に停止しました'
         : 'Dev serverの停止中にエラーが発生しましたが、プロセスは終了した可能性があります',
       wasRunning: true,
       stoppedProcess: {
         pid: targetProcess.pid,
         directory: targetProcess.directory,
+        name: targetProcess.name,
         ports: targetProcess.ports
+      },
+      processTree: {
+        pids: stopResult.pids,
+        forced: stopResult.forced,
+        survivors: stopResult.survivors,
+        portsInUse: stopResult.portsInUse
       }
     };
 
+    if (stopResult.forced) {
+      result.message += '\n猶予時間内に終了しなかったためSIGKILLで強制終了しました';
+    }
+    if (stopResult.survivors.length > 0) {
+      result.message += `\n終了しなかったプロセスがあります: PID ${stopResult.survivors.join(', ')}`;
+    }
+    if (stopResult.portsInUse.length > 0) {
+      result.message += `\nポートがまだ使用中です: ${stopResult.portsInUse.join(', ')}`;
+    }
+
     if (finalLogStats) {
       result.finalLogStats = {
         total: finalLogStats.total,
@@ -0,0 +1,53 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ProcessGroupManager } from '../components/ProcessGroupManager.js';
+import { Logger } from '../utils/logger.js';
+
+const logger = Logger.getInstance();
+
+export const stopProcessGroupSchema: Tool = {
+  name: 'stop_process_group',
+  description: '.npm-dev-mcp.jsonで定義したプロセスを起動時と逆の順序で停止',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      names: {
+        type: 'array',
+        items: { type: 'string' },
+        description: '停止するプロセス名（オプション、依存先も含めて停止。未指定時は定義済みの全プロセス）'
+      }
+    },
+    additionalProperties: false
+  }
+};
+
+export async function stopProcessGroup(args: { names?: string[] }): Promise<string> {
+  try {
+    logger.info('Stopping process group', { names: args.names });
+
+    const groupManager = ProcessGroupManager.getInstance();
+    const { order, stopped, failed } = await groupManager.stopGroup(args.names);
+
+    let message = stopped.length > 0
+      ? `${stopped.length}個のプロセスを停止しました: ${stopped.join(' → ')}`
+      : '停止対象の起動中プロセスはありませんでした';
+    if (failed.length > 0) {
+      message += `\n停止中にエラーが発生したプロセス: ${failed.join(', ')}`;
+    }
+
+    return JSON.stringify({
+      success: failed.length === 0,
+      message,
+      order,
+      stopped,
+      failed
+    }, null, 2);
+
+  } catch (error) {
+    logger.error('Failed to stop process group', { error });
+    return JSON.stringify({
+      success: false,
+      message: `プロセスグループの停止に失敗しました: ${error}`,
+      error: String(error)
+    });
+  }
+}
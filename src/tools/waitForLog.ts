@@ -0,0 +1,176 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ProcessManager } from '../components/ProcessManager.js';
+import { DEFAULT_CONTEXT_LINES, DEFAULT_LOG_WAIT_TIMEOUT, LogWaitOutcome, LogWaiter } from '../components/LogWaiter.js';
+import { LogEntry } from '../types.js';
+import { parseLogFilter } from '../utils/logFilter.js';
+import { Logger } from '../utils/logger.js';
+
+const logger = Logger.getInstance();
+
+export const waitForLogSchema: Tool = {
+  name: 'wait_for_log',
+  description: 'npm run devの出力に正規表現に一致する行（"Listening on"、"Connected to database"や特定のエラーなど）が現れるまで待ち、一致した行と前後の行を取得',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      directory: {
+        type: 'string',
+        description: '対象ディレクトリ（複数起動時に指定）'
+      },
+      name: {
+        type: 'string',
+        description: 'プロセス名（同一ディレクトリで複数プロセス起動時に指定）'
+      },
+      pattern: {
+        type: 'string',
+        description: '待つ行に一致させる正規表現'
+      },
+      ignoreCase: {
+        type: 'boolean',
+        description: 'patternで大文字小文字を区別しない（デフォルト: false）',
+        default: false
+      },
+      level: {
+        type: 'array',
+        items: {
+          type: 'string',
+          enum: ['info', 'warn', 'error']
+        },
+        description: '対象にするログレベル（例: ["error"]）'
+      },
+      source: {
+        type: 'string',
+        enum: ['stdout', 'stderr'],
+        description: '対象にする出力元'
+      },
+      cursor: {
+        type: 'string',
+        description: '基準点。query_dev_logsなどで取得したcursorを指定すると、それ以降に出力済みの行も対象にする（省略時は呼び出した後に出力された行だけ）'
+      },
+      timeout: {
+        type: 'number',
+        description: `最大待ち時間（ミリ秒、デフォルト: ${DEFAULT_LOG_WAIT_TIMEOUT}）`,
+        minimum: 0
+      },
+      failOnExit: {
+        type: 'boolean',
+        description: '一致する前にプロセスが終了したら待つのをやめる（デフォルト: true）',
+        default: true
+      },
+      context: {
+        type: 'number',
+        description: `一致した行の前後に返す行数（デフォルト: ${DEFAULT_CONTEXT_LINES}）`,
+        minimum: 0,
+        maximum: 100
+      }
+    },
+    required: ['pattern'],
+    additionalProperties: false
+  }
+};
+
+interface WaitForLogArgs {
+  directory?: string;
+  name?: string;
+  pattern: string;
+  ignoreCase?: boolean;
+  level?: string[];
+  source?: string;
+  cursor?: string;
+  timeout?: number;
+  failOnExit?: boolean;
+  context?: number;
+}
+
+const OUTCOME_MESSAGES: Record<LogWaitOutcome, string> = {
+  matched: '一致する行が出力されました',
+  timeout: 'タイムアウトまでに一致する行が出力されませんでした',
+  exited: '一致する行が出力される前にプロセスが終了しました'
+};
+
+function serializeLog(log: LogEntry) {
+  return {
+    timestamp: log.timestamp.toISOString(),
+    level: log.level,
+    source: log.source,
+    message: log.message
+  };
+}
+
+export async function waitForLog(args: WaitForLogArgs): Promise<string> {
+  try {
+    const filter = parseLogFilter({
+      pattern: args.pattern,
+      ignoreCase: args.ignoreCase,
+      level: args.level,
+      source: args.source
+    });
+    if (!filter.pattern) {
+      throw new Error('pattern is required');
+    }
+
+    const processManager = ProcessManager.getInstance();
+    const processInfo = processManager.getProcess(args.directory, args.name);
+    if (!processInfo) {
+      return JSON.stringify({
+        success: false,
+        message: 'Dev serverが起動していません（または指定されたディレクトリが見つかりません）'
+      });
+    }
+
+    const logManager = processManager.getLogManager(processInfo.directory, processInfo.name);
+    if (!logManager) {
+      return JSON.stringify({
+        success: false,
+        message: 'ログマネージャーが見つかりませんでした'
+      });
+    }
+
+    const getCurrent = () => processManager.getProcess(processInfo.directory, processInfo.name);
+    const waiter = new LogWaiter();
+    const result = await waiter.waitForLog({
+      name: processInfo.name,
+      logManager,
+      getStatus: () => getCurrent()?.status ?? 'stopped'
+    }, {
+      filter,
+      cursor: args.cursor,
+      timeout: args.timeout,
+      failOnExit: args.failOnExit,
+      context: args.context
+    });
+
+    let message = OUTCOME_MESSAGES[result.outcome];
+    if (result.cursorExpired) {
+      message += '\n⚠️ cursorが無効になっていたため（MCPサーバーの再起動など）、呼び出した後に出力された行だけを対象にしました';
+    }
+    const current = getCurrent();
+
+    return JSON.stringify({
+      success: true,
+      outcome: result.outcome,
+      message,
+      match: result.match ? serializeLog(result.match) : undefined,
+      before: result.before.map(serializeLog),
+      after: result.after.map(serializeLog),
+      cursor: result.cursor,
+      cursorExpired: result.cursorExpired,
+      elapsed: result.elapsed,
+      process: {
+        pid: processInfo.pid,
+        directory: processInfo.directory,
+        name: processInfo.name,
+        status: current?.status ?? 'stopped',
+        ...(result.outcome === 'exited' && current ? { exitCode: current.lastExitCode, exitSignal: current.lastExitSignal } : {})
+      }
+    }, null, 2);
+
+  } catch (error) {
+    logger.error('Failed to wait for log', { error });
+    return JSON.stringify({
+      success: false,
+      message: `ログの待機に失敗しました: ${error instanceof Error ? error.message : error}`,
+      error: String(error)
+    });
+  }
+}
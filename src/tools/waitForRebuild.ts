@@ -0,0 +1,123 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { getFrameworkAdapter } from '../components/FrameworkDetector.js';
+import { ProcessManager } from '../components/ProcessManager.js';
+import { DEFAULT_REBUILD_TIMEOUT, RebuildOutcome, RebuildWatcher } from '../components/RebuildWatcher.js';
+import { LogEntry } from '../types.js';
+import { Logger } from '../utils/logger.js';
+
+const logger = Logger.getInstance();
+
+export const waitForRebuildSchema: Tool = {
+  name: 'wait_for_rebuild',
+  description: 'ファイル編集後、開発サーバーの次の再ビルド（compiled・hmr update・page reload）またはコンパイル失敗をタイムアウトまで待ち、結果と関連するログを取得',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      directory: {
+        type: 'string',
+        description: '対象ディレクトリ（複数起動時に指定）'
+      },
+      name: {
+        type: 'string',
+        description: 'プロセス名（同一ディレクトリで複数プロセス起動時に指定）'
+      },
+      cursor: {
+        type: 'string',
+        description: '基準点。編集前にquery_dev_logsや前回のwait_for_rebuildで取得したcursorを指定すると、それ以降の出力を対象にする（省略時は呼び出した時点から待つ）'
+      },
+      timeout: {
+        type: 'number',
+        description: `最大待ち時間（ミリ秒、デフォルト: ${DEFAULT_REBUILD_TIMEOUT}）`,
+        minimum: 0
+      }
+    },
+    additionalProperties: false
+  }
+};
+
+interface WaitForRebuildArgs {
+  directory?: string;
+  name?: string;
+  cursor?: string;
+  timeout?: number;
+}
+
+const OUTCOME_MESSAGES: Record<RebuildOutcome, string> = {
+  success: '再ビルドが完了しました',
+  failure: '再ビルドでエラーが発生しました',
+  timeout: 'タイムアウトまでに再ビルドの完了が出力されませんでした',
+  exited: '再ビルドの完了前にプロセスが終了しました'
+};
+
+function serializeLog(log: LogEntry) {
+  return {
+    timestamp: log.timestamp.toISOString(),
+    level: log.level,
+    source: log.source,
+    message: log.message
+  };
+}
+
+export async function waitForRebuild(args: WaitForRebuildArgs): Promise<string> {
+  try {
+    const processManager = ProcessManager.getInstance();
+    const processInfo = processManager.getProcess(args.directory, args.name);
+    if (!processInfo) {
+      return JSON.stringify({
+        success: false,
+        message: 'Dev serverが起動していません（または指定されたディレクトリが見つかりません）'
+      });
+    }
+
+    const logManager = processManager.getLogManager(processInfo.directory, processInfo.name);
+    if (!logManager) {
+      return JSON.stringify({
+        success: false,
+        message: 'ログマネージャーが見つかりませんでした'
+      });
+    }
+
+    const watcher = new RebuildWatcher();
+    const result = await watcher.waitForRebuild({
+      name: processInfo.name,
+      logManager,
+      getStatus: () => processManager.getProcess(processInfo.directory, processInfo.name)?.status ?? 'stopped',
+      framework: processInfo.framework ? getFrameworkAdapter(processInfo.framework.id) : null
+    }, args.cursor, args.timeout);
+
+    let message = OUTCOME_MESSAGES[result.outcome];
+    if (result.cursorExpired) {
+      message += '\n⚠️ cursorが無効になっていたため（MCPサーバーの再起動など）、呼び出した後に出力された行だけを対象にしました';
+    }
+
+    return JSON.stringify({
+      success: true,
+      outcome: result.outcome,
+      message,
+      event: result.event ? serializeLog(result.event) : undefined,
+      logs: result.logs.map(serializeLog),
+      diagnostics: result.diagnostics.map(diagnostic => ({
+        ...diagnostic,
+        firstSeen: diagnostic.firstSeen.toISOString(),
+        lastSeen: diagnostic.lastSeen.toISOString()
+      })),
+      cursor: result.cursor,
+      cursorExpired: result.cursorExpired,
+      elapsed: result.elapsed,
+      process: {
+        pid: processInfo.pid,
+        directory: processInfo.directory,
+        name: processInfo.name,
+        status: processInfo.status
+      }
+    }, null, 2);
+
+  } catch (error) {
+    logger.error('Failed to wait for rebuild', { error });
+    return JSON.stringify({
+      success: false,
+      message: `再ビルドの待機に失敗しました: ${error instanceof Error ? error.message : error}`,
+      error: String(error)
+    });
+  }
+}
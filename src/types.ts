@@ -1,26 +1,183 @@
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+export type RestartPolicy = 'never' | 'on-failure' | 'always';
+
+export interface RestartPolicyConfig {
+  policy: RestartPolicy;
+  /** windowMs内にこの回数を超えて再起動したらクラッシュループとみなして諦める */
+  maxRestarts?: number;
+  windowMs?: number;
+  /** 再起動までの待ち時間（連続するたびに倍増） */
+  backoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+export type ReadinessCheckConfig =
+  | { type: 'log'; pattern: string; timeout?: number }
+  | { type: 'port'; port?: number; timeout?: number }
+  | { type: 'http'; url: string; timeout?: number };
+
+export type FrameworkId =
+  | 'next' | 'nuxt' | 'astro' | 'remix' | 'sveltekit' | 'angular'
+  | 'gatsby' | 'react-scripts' | 'vite' | 'storybook';
+
+/** 読み込む.envファイルを決めるモード */
+export type EnvMode = 'development' | 'test' | 'production';
+
+/**
+ * .envファイルの優先順位
+ * - vite: .env < .env.local < .env.[mode] < .env.[mode].local
+ * - next: .env < .env.[mode] < .env.local < .env.[mode].local（testモードでは.env.localを読まない）
+ */
+export type EnvFileOrder = 'vite' | 'next';
+
+/**
+ * 子プロセスに引き継ぐMCPサーバー（CLIではシェル）の環境変数
+ * - full: すべて
+ * - allowlist: allowに挙げた変数と、PATH・HOMEなどコマンドの実行に必要な変数
+ * - none: PATH・HOMEなどコマンドの実行に必要な変数だけ
+ */
+export interface InheritEnvPolicy {
+  mode: 'full' | 'allowlist' | 'none';
+  allow?: string[];
+}
+
+/**
+ * 起動時の環境変数の指定（再起動で同じ指定から環境変数を作り直す）
+ */
+export interface EnvSettings {
+  mode?: EnvMode;
+  /** ディレクトリの.envファイルに加えて読み込む.envファイル */
+  envFile?: string;
+  /** .envファイルと引き継いだ環境変数より優先する変数 */
+  overrides?: Record<string, string>;
+  inheritEnv?: InheritEnvPolicy;
+}
+
+/**
+ * 期待ポートが使用中だったために割り当てた空きポート（再接続後の自動再起動でも同じ指定で起動する）
+ */
+export interface PortAssignment {
+  port: number;
+  /** スクリプトに追加したポート指定の引数 */
+  extraArgs: string[];
+}
+
+export interface FrameworkInfo {
+  id: FrameworkId;
+  /** 表示名（例: Next.js） */
+  name: string;
+  /** インストール済みのバージョン。未インストールならpackage.jsonの指定（例: ^14.1.0） */
+  version?: string;
+}
+
 export interface ProjectInfo {
   directory: string;
   packageJson: any;
   hasDevScript: boolean;
-  envPath?: string;
+  scripts: string[];
+  packageManager: PackageManager;
+  framework?: FrameworkInfo;
+  /** ディレクトリにある.envファイル（全モード分） */
+  envFiles: string[];
   priority: number;
+  workspaceRoot?: string;
+  internalDependencies?: string[];
+}
+
+export interface WorkspacePackage {
+  name: string;
+  directory: string;
+  version?: string;
+  internalDependencies: string[];
+}
+
+export interface WorkspaceInfo {
+  root: string;
+  source: 'package.json' | 'pnpm-workspace.yaml' | 'nx.json';
+  tools: string[];
+  packages: WorkspacePackage[];
+}
+
+/**
+ * 開発サーバーのログから見つけたアクセス用URL
+ */
+export interface DevServerUrl {
+  url: string;
+  scheme: 'http' | 'https';
+  host: string;
+  port: number;
+  /** ベースパス（例: /app/） */
+  path: string;
+  /** local: ループバック / network: LAN等の他のマシンから到達できるアドレス */
+  kind: 'local' | 'network';
 }
 
 export interface DevProcess {
   pid: number;
   directory: string;
-  status: 'starting' | 'running' | 'stopped' | 'error';
+  name: string;
+  script: string;
+  packageManager: PackageManager;
+  /** スクリプトを実行するフレームワーク（判定できなければ省略） */
+  framework?: FrameworkInfo;
+  /** running: プロセス起動済み / ready: 準備完了の判定（ログ・ポート・HTTP）に成功 */
+  status: 'starting' | 'running' | 'ready' | 'stopped' | 'error';
   startTime: Date;
   ports: number[];
+  /** ログから見つけたURL（Vite等の「Local:」「Network:」表示を含む） */
+  urls: DevServerUrl[];
+  restartPolicy?: RestartPolicyConfig;
+  /** 自動再起動した回数 */
+  restartCount: number;
+  lastExitCode?: number | null;
+  lastExitSignal?: string | null;
+  /** クラッシュループ判定に使う直近の自動再起動の時刻 */
+  restartHistory?: Date[];
+  /** 起動時の環境変数の指定（restartDevServerで再利用） */
+  envSettings?: EnvSettings;
+  /** 期待ポートの代わりに割り当てたポート（割り当てていなければ省略） */
+  portAssignment?: PortAssignment;
+  /** 明示的に指定された準備完了の判定方法（再起動・再接続後の自動再起動で引き継ぐ） */
+  readinessCheck?: ReadinessCheckConfig;
+  /** 起動時のautoPortの指定（再起動で引き継ぐ） */
+  autoPort?: boolean;
+  /** 使用中のまま起動したフレームワークの既定ポートとその所有者（開発サーバー自身が別のポートを選ぶ） */
+  defaultPortInUse?: { port: number; owner: PortOwner | null };
 }
 
 export interface LogEntry {
   timestamp: Date;
   level: 'info' | 'error' | 'warn';
+  /** 1行、またはスタックトレース等の継続行をまとめた改行区切りの複数行（エスケープシーケンスは除去済み） */
   message: string;
+  /** 色付けなどのエスケープシーケンスを含む元の出力（含まない場合は省略） */
+  raw?: string;
   source: 'stdout' | 'stderr';
 }
 
+/**
+ * ログから抽出したコンパイルエラー・警告
+ */
+export interface Diagnostic {
+  /** 出力したツール */
+  source: 'typescript' | 'esbuild' | 'vite' | 'webpack' | 'next' | 'eslint';
+  severity: 'error' | 'warning';
+  file?: string;
+  line?: number;
+  column?: number;
+  message: string;
+  /** TS2322などのエラーコード、ESLintのルール名、Viteのプラグイン名 */
+  code?: string;
+  /** 同じ内容が出力された回数 */
+  count: number;
+  firstSeen: Date;
+  lastSeen: Date;
+  /** 最後に出力された後、再ビルドの成功が確認された */
+  resolved: boolean;
+  resolvedAt?: Date;
+}
+
 export interface PortInfo {
   port: number;
   protocol: 'tcp' | 'udp';
@@ -28,6 +185,15 @@ export interface PortInfo {
   service?: string;
 }
 
+/**
+ * ポートを待ち受けているプロセス
+ */
+export interface PortOwner {
+  port: number;
+  pid: number;
+  command?: string;
+}
+
 export interface ServerStatus {
   isRunning: boolean;
   processes: DevProcess[];
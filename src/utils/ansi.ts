@@ -0,0 +1,80 @@
+// CSI（色指定・カーソル移動など）、OSC（ハイパーリンクなど）、その他の2文字のエスケープシーケンス
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+// 色を指定するSGRシーケンス（ESC [ ... m）
+const SGR_PATTERN = /(\x1b\[[0-9;]*m)/;
+
+export type AnsiColor = 'red' | 'yellow' | 'green';
+
+// 基本8色（30-37 / 40-47 / 90-97 / 100-107）の番号と色
+const BASIC_COLORS: Record<number, AnsiColor> = { 1: 'red', 2: 'green', 3: 'yellow' };
+// 256色パレットのうち赤・黄・緑とみなす番号
+const PALETTE_COLORS: Record<number, AnsiColor> = {
+  1: 'red', 9: 'red', 124: 'red', 160: 'red', 196: 'red', 203: 'red',
+  3: 'yellow', 11: 'yellow', 178: 'yellow', 184: 'yellow', 214: 'yellow', 220: 'yellow', 226: 'yellow',
+  2: 'green', 10: 'green', 34: 'green', 40: 'green', 46: 'green', 82: 'green'
+};
+
+/**
+ * エスケープシーケンスを取り除いた表示上の文字列
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+function rgbColor(r: number, g: number, b: number): AnsiColor | null {
+  if (r >= 150 && g < 110 && b < 110) return 'red';
+  if (r >= 150 && g >= 150 && b < 110) return 'yellow';
+  if (g >= 150 && r < 110 && b < 150) return 'green';
+  return null;
+}
+
+/**
+ * 表示される文字（空白以外）に付いている前景色・背景色のうち、赤・黄・緑を返す
+ */
+export function getTextColors(text: string): Set<AnsiColor> {
+  const colors = new Set<AnsiColor>();
+  let foreground: AnsiColor | null = null;
+  let background: AnsiColor | null = null;
+
+  for (const part of text.split(SGR_PATTERN)) {
+    if (!SGR_PATTERN.test(part)) {
+      if (stripAnsi(part).trim().length > 0) {
+        if (foreground) colors.add(foreground);
+        if (background) colors.add(background);
+      }
+      continue;
+    }
+
+    const codes = part.slice(2, -1).split(';').map(code => code === '' ? 0 : parseInt(code, 10));
+    for (let i = 0; i < codes.length; i++) {
+      const code = codes[i];
+      if (code === 0) {
+        foreground = null;
+        background = null;
+      } else if (code === 39) {
+        foreground = null;
+      } else if (code === 49) {
+        background = null;
+      } else if ((code >= 30 && code <= 37) || (code >= 90 && code <= 97)) {
+        foreground = BASIC_COLORS[code % 10] ?? null;
+      } else if ((code >= 40 && code <= 47) || (code >= 100 && code <= 107)) {
+        background = BASIC_COLORS[code % 10] ?? null;
+      } else if (code === 38 || code === 48) {
+        // Extended colors: 38;5;n (palette) or 38;2;r;g;b (true color)
+        let color: AnsiColor | null = null;
+        if (codes[i + 1] === 5) {
+          color = PALETTE_COLORS[codes[i + 2]] ?? null;
+          i += 2;
+        } else if (codes[i + 1] === 2) {
+          color = rgbColor(codes[i + 2], codes[i + 3], codes[i + 4]);
+          i += 4;
+        }
+        if (code === 38) foreground = color;
+        else background = color;
+      }
+    }
+  }
+
+  return colors;
+}
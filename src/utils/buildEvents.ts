@@ -0,0 +1,50 @@
+import { FrameworkAdapter } from '../components/FrameworkDetector.js';
+
+export type BuildEvent = 'success' | 'failure';
+
+/**
+ * ビルド・再ビルドの失敗を示す行（フレームワーク共通）
+ */
+const FAILURE_PATTERNS: RegExp[] = [
+  /Failed to compile/i,
+  /\bcompiled with \d+ errors?\b/i,
+  /Found [1-9]\d* errors?\b/,
+  /Application bundle generation failed/,
+  /\[vite\] (Internal server error|Pre-transform error)\b/,
+  /^\s*✘ \[ERROR\]/,
+  /\berror TS\d+:/,
+  /^\s*ERROR in /
+];
+
+/**
+ * ビルド・再ビルドの完了を示す行（フレームワーク共通）
+ */
+const SUCCESS_PATTERNS: RegExp[] = [
+  /\bcompiled successfully\b/i,
+  /\bcompiled with \d+ warnings?\b/i,
+  /Compiled with warnings/,
+  /✓ Compiled\b/,
+  /Found 0 errors\b/,
+  /Application bundle generation complete/,
+  /\[vite\] (\(\w+\) )?(hmr update|page reload)\b/,
+  /No issues found/
+];
+
+/**
+ * ログの行がビルドの完了・失敗を示すか判定する（どちらでもなければnull）
+ *
+ * 複数行のエントリは先頭行で判定する。失敗を先に判定するため、
+ * "compiled with 1 error and 2 warnings"のような行は失敗になる。
+ * @param framework 指定するとフレームワーク固有のコンパイルエラー・HMRの行も判定する
+ */
+export function detectBuildEvent(message: string, framework: FrameworkAdapter | null = null): BuildEvent | null {
+  const header = message.split('\n', 1)[0];
+
+  if ([...(framework?.errorPatterns || []), ...FAILURE_PATTERNS].some(pattern => pattern.test(header))) {
+    return 'failure';
+  }
+  if ([...(framework?.hmrPatterns || []), ...SUCCESS_PATTERNS].some(pattern => pattern.test(header))) {
+    return 'success';
+  }
+  return null;
+}
@@ -0,0 +1,48 @@
+export class DependencyCycleError extends Error {
+  constructor(public cycle: string[]) {
+    super(`Dependency cycle detected: ${cycle.join(' -> ')}`);
+    this.name = 'DependencyCycleError';
+  }
+}
+
+/**
+ * 依存先が先に来る順序（トポロジカル順）でノードを並べる
+ *
+ * `roots`から到達できるノードのみを対象とし、未知のノードへの依存は無視する。
+ * @throws {DependencyCycleError} 循環依存がある場合
+ */
+export function topologicalSort(
+  roots: string[],
+  getDependencies: (node: string) => string[],
+  hasNode: (node: string) => boolean = () => true
+): string[] {
+  const order: string[] = [];
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (node: string) => {
+    if (visited.has(node)) return;
+
+    const cycleStart = path.indexOf(node);
+    if (cycleStart !== -1) {
+      throw new DependencyCycleError([...path.slice(cycleStart), node]);
+    }
+
+    path.push(node);
+    for (const dependency of getDependencies(node)) {
+      if (hasNode(dependency)) {
+        visit(dependency);
+      }
+    }
+    path.pop();
+
+    visited.add(node);
+    order.push(node);
+  };
+
+  for (const root of roots) {
+    visit(root);
+  }
+
+  return order;
+}
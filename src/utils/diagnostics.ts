@@ -0,0 +1,415 @@
+import { Diagnostic, LogEntry } from '../types.js';
+
+type ParsedDiagnostic = Pick<Diagnostic, 'source' | 'severity' | 'file' | 'line' | 'column' | 'message' | 'code'>;
+
+/**
+ * 位置やメッセージが後続の行に出力される形式の見出し
+ */
+interface PendingDiagnostic extends ParsedDiagnostic {
+  /** 同じエントリ内の後続行に位置が出力される（esbuild・Vite） */
+  needsLocation: boolean;
+  /** 次の行（次のエントリでもよい）がメッセージ（webpack・Next.js） */
+  needsMessage: boolean;
+  timestamp: Date;
+}
+
+export interface DiagnosticOptions {
+  /** 再ビルドの成功を示す行（フレームワーク固有のHMRの行など）。これより前のエラーを解決済みにする */
+  successPatterns?: RegExp[];
+}
+
+// TypeScript: "src/App.tsx(3,7): error TS2322: ..." / "src/App.tsx:3:7 - error TS2322: ..."
+const TS_PATTERN = /^\s*(\S.*?)(?:\((\d+),(\d+)\)|:(\d+):(\d+))\s*[:-]\s*(error|warning)\s+(TS\d+):\s*(.+)$/;
+// TypeScript without a location: "error TS5023: Unknown compiler option 'foo'."
+const TS_GLOBAL_PATTERN = /^\s*(error|warning)\s+(TS\d+):\s*(.+)$/;
+// webpack + ts-loader: "[tsl] ERROR in /app/src/a.ts(3,7)" followed by "      TS2322: ..."
+const TSL_PATTERN = /^\s*\[tsl\]\s+(ERROR|WARNING) in (.+?)\((\d+),(\d+)\)\s*$/;
+const TS_CODE_MESSAGE_PATTERN = /^\s*(TS\d+):\s*(.+)$/;
+// esbuild: "✘ [ERROR] Could not resolve "./x"" / "▲ [WARNING] Duplicate key "a" in object literal [duplicate-object-key]"
+const ESBUILD_PATTERN = /^\s*[✘▲]\s*\[(ERROR|WARNING)\]\s*(.+?)(?:\s+\[([\w-]+)\])?\s*$/;
+// esbuild location below the header: "    src/index.ts:1:7:"
+const ESBUILD_LOCATION_PATTERN = /^\s+(\S.*?):(\d+):(\d+):\s*$/;
+// esbuild inline, as in Vite's transform errors: "/app/src/App.tsx:3:10: ERROR: Expected ";" but found "x""
+const ESBUILD_INLINE_PATTERN = /^\s*(\S.*?):(\d+):(\d+):\s*(ERROR|WARNING):\s*(.+)$/;
+// Vite: "[vite] Internal server error: ..." followed by "  Plugin: vite:esbuild" and "  File: /app/src/App.tsx:3:7"
+const VITE_PATTERN = /\[vite\]\s+(?:Internal server error|Pre-transform error):\s*(.+)$/;
+const VITE_PLUGIN_PATTERN = /^\s*\[plugin:([^\]]+)\]\s*(.+)$/;
+const VITE_PLUGIN_LINE_PATTERN = /^\s*Plugin:\s*(\S+)/;
+const VITE_FILE_PATTERN = /^\s*File:\s*(.+?):(\d+):(\d+)\s*$/;
+// vite-plugin-checker: "ERROR(TypeScript)  Type 'string' is not ..." followed by " FILE  /app/src/App.tsx:3:7"
+const CHECKER_PATTERN = /^\s*(ERROR|WARNING)\((TypeScript|vue-tsc|ESLint)\)\s+(.+)$/;
+const CHECKER_FILE_PATTERN = /^\s*FILE\s+(.+?):(\d+):(\d+)\s*$/;
+// webpack: "ERROR in ./src/App.js 5:2" / "WARNING in ./src/a.js 3:1-5" followed by the message
+const WEBPACK_PATTERN = /^\s*(ERROR|WARNING) in (\S+?)(?:\s+(\d+):(\d+)(?:-\d+(?::\d+)?)?)?\s*$/;
+// Next.js: " ⨯ ./app/page.tsx:3:1", " ⨯ app/page.tsx (3:11) @ Home", "error - ./pages/index.js:3:0" followed by the message
+const NEXT_LOCATION_PATTERN = /^\s*(?:⨯|error -)\s+(\.{0,2}\/?[\w@.\/\[\]()-]*\.[a-z]+)(?::(\d+):(\d+)|\s+\((\d+):(\d+)\))?(?:\s+@\s+\S+)?\s*$/;
+const NEXT_MESSAGE_PATTERN = /^\s*⨯\s+(.+)$/;
+// ESLint stylish: the file on its own line, then "  3:7  error  'x' is assigned a value but never used  no-unused-vars"
+const ESLINT_FILE_PATTERN = /^(?:[A-Za-z]:)?[\w@.~\/\\-]*[\/\\][\w@.\[\]()-]+\.(?:[cm]?[jt]sx?|vue|svelte|astro)\s*$/;
+const ESLINT_PROBLEM_PATTERN = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}(\S+))?\s*$/;
+// Create React App: "  Line 5:3:  'x' is not defined  no-undef"
+const CRA_LINT_PATTERN = /^\s*Line (\d+):(\d+):\s+(.+?)(?:\s{2,}(\S+))?\s*$/;
+const CRA_FAILED_PATTERN = /Failed to compile/;
+
+// Code frames and stack frames between a header and its message
+const FRAME_LINE_PATTERN = /^\s*(>?\s*\d+\s*[|│]|[|│╵^~]|at\s)/;
+
+// tsc --watch: each cycle ends with "Found N errors", reprinting everything still broken
+const TS_CYCLE_START_PATTERN = /Starting (?:incremental )?compilation/;
+const TS_CYCLE_END_PATTERN = /Found (\d+) errors?\b/;
+// Vite only reprints errors for the files it transforms again
+const VITE_UPDATE_PATTERN = /\[vite\] (?:\(\w+\) )?(?:hmr update|page reload)\s+(.+)$/;
+// A clean build: errors and warnings are both gone
+const CLEAN_BUILD_PATTERNS = [/\bcompiled successfully\b/i, /No issues found/, /✔ No problems/];
+// A build that succeeded, possibly with warnings printed after this line
+const SUCCESSFUL_BUILD_PATTERNS = [/✓ Compiled\b/, /\bcompiled with \d+ warnings?\b/i, /Compiled with warnings/, /Application bundle generation complete/];
+
+function toNumber(value: string | undefined): number | undefined {
+  return value !== undefined ? parseInt(value, 10) : undefined;
+}
+
+function isSameFile(file: string, updated: string): boolean {
+  const a = file.replace(/^\.\//, '');
+  const b = updated.trim().replace(/ \(x\d+\)$/, '').replace(/^\.?\//, '');
+  return a === b || a.endsWith(`/${b}`);
+}
+
+/**
+ * ログを順に読み、診断の出現と解決を記録する
+ */
+class DiagnosticCollector {
+  private diagnostics = new Map<string, Diagnostic>();
+  /** 各診断が最後に出力された行の位置 */
+  private lastPositions = new Map<string, number>();
+  private pending: PendingDiagnostic | null = null;
+  private position = 0;
+  private tsCycleStart: number | null = null;
+  private eslintFile: string | null = null;
+  private craFailed = false;
+
+  constructor(private successPatterns: RegExp[]) {}
+
+  addEntry(entry: LogEntry): void {
+    // A new entry ends a diagnostic that only waited for more lines of its own entry
+    if (this.pending && !this.pending.needsMessage) {
+      this.flush();
+    }
+    for (const line of entry.message.split('\n')) {
+      this.addLine(line, entry.timestamp);
+    }
+  }
+
+  finish(): Diagnostic[] {
+    this.flush();
+    return [...this.diagnostics.values()];
+  }
+
+  private addLine(line: string, timestamp: Date): void {
+    this.position++;
+    if (line.trim().length === 0) {
+      return;
+    }
+
+    if (this.handleMarker(line, timestamp)) {
+      return;
+    }
+    if (this.pending && this.continueLocation(this.pending, line)) {
+      return;
+    }
+
+    const nextMessage = line.match(NEXT_MESSAGE_PATTERN);
+    if (this.pending?.needsMessage && this.pending.source === 'next' && nextMessage && !NEXT_LOCATION_PATTERN.test(line)) {
+      this.pending.message = nextMessage[1].trim();
+      this.pending.needsMessage = false;
+      return;
+    }
+
+    const header = this.parseHeader(line, timestamp);
+    if (header) {
+      this.flush();
+      if (header.needsLocation || header.needsMessage) {
+        this.pending = header;
+      } else {
+        this.record(header, header.timestamp);
+      }
+      return;
+    }
+
+    if (this.pending?.needsMessage && !FRAME_LINE_PATTERN.test(line)) {
+      const tsMessage = line.match(TS_CODE_MESSAGE_PATTERN);
+      this.pending.code = tsMessage ? tsMessage[1] : this.pending.code;
+      this.pending.message = (tsMessage ? tsMessage[2] : line).trim();
+      this.pending.needsMessage = false;
+      return;
+    }
+
+    if (ESLINT_FILE_PATTERN.test(line)) {
+      this.eslintFile = line.trim();
+    }
+  }
+
+  /**
+   * 再ビルドの開始・成功を示す行なら、以降出力されていない診断を解決済みにする
+   */
+  private handleMarker(line: string, timestamp: Date): boolean {
+    if (TS_CYCLE_START_PATTERN.test(line)) {
+      this.tsCycleStart = this.position;
+      return true;
+    }
+
+    const tsCycleEnd = line.match(TS_CYCLE_END_PATTERN);
+    if (tsCycleEnd) {
+      const cycleStart = this.tsCycleStart;
+      if (cycleStart !== null || tsCycleEnd[1] === '0') {
+        this.flush();
+        this.resolve(timestamp, (diagnostic, position) =>
+          diagnostic.source === 'typescript' && (cycleStart === null || position < cycleStart)
+        );
+      }
+      this.tsCycleStart = null;
+      return true;
+    }
+
+    const viteUpdate = line.match(VITE_UPDATE_PATTERN);
+    if (viteUpdate) {
+      const files = viteUpdate[1].split(/,\s*/);
+      this.flush();
+      this.resolve(timestamp, diagnostic =>
+        diagnostic.source !== 'typescript' && (!diagnostic.file || files.some(file => isSameFile(diagnostic.file!, file)))
+      );
+      return true;
+    }
+
+    if (CRA_FAILED_PATTERN.test(line)) {
+      this.craFailed = true;
+      return false;
+    }
+
+    if (CLEAN_BUILD_PATTERNS.some(pattern => pattern.test(line))) {
+      this.craFailed = false;
+      this.flush();
+      this.resolve(timestamp, diagnostic => diagnostic.source !== 'typescript');
+      return true;
+    }
+
+    if ([...SUCCESSFUL_BUILD_PATTERNS, ...this.successPatterns].some(pattern => pattern.test(line))) {
+      this.craFailed = false;
+      this.flush();
+      this.resolve(timestamp, diagnostic => diagnostic.source !== 'typescript' && diagnostic.severity === 'error');
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * 見出しに続く位置・プラグイン名の行なら保留中の診断に反映する
+   */
+  private continueLocation(pending: PendingDiagnostic, line: string): boolean {
+    const plugin = line.match(VITE_PLUGIN_LINE_PATTERN);
+    if (plugin && pending.source === 'vite') {
+      pending.code = plugin[1];
+      return true;
+    }
+
+    if (!pending.needsLocation) {
+      return false;
+    }
+
+    // Vite wraps esbuild's error, which has the precise location and message
+    const inline = line.match(ESBUILD_INLINE_PATTERN);
+    if (inline) {
+      Object.assign(pending, { file: inline[1], line: toNumber(inline[2]), column: toNumber(inline[3]), message: inline[5].trim() });
+      pending.needsLocation = false;
+      return true;
+    }
+
+    const location = line.match(VITE_FILE_PATTERN) || line.match(CHECKER_FILE_PATTERN) || line.match(ESBUILD_LOCATION_PATTERN);
+    if (location) {
+      Object.assign(pending, { file: location[1], line: toNumber(location[2]), column: toNumber(location[3]) });
+      pending.needsLocation = false;
+      return true;
+    }
+
+    return false;
+  }
+
+  private parseHeader(line: string, timestamp: Date): PendingDiagnostic | null {
+    const create = (diagnostic: ParsedDiagnostic, needs: { needsLocation?: boolean; needsMessage?: boolean } = {}): PendingDiagnostic => ({
+      ...diagnostic,
+      needsLocation: needs.needsLocation ?? false,
+      needsMessage: needs.needsMessage ?? false,
+      timestamp
+    });
+    let match: RegExpMatchArray | null;
+
+    if ((match = line.match(TS_PATTERN))) {
+      return create({
+        source: 'typescript',
+        severity: match[6] as Diagnostic['severity'],
+        file: match[1],
+        line: toNumber(match[2] ?? match[4]),
+        column: toNumber(match[3] ?? match[5]),
+        code: match[7],
+        message: match[8].trim()
+      });
+    }
+    if ((match = line.match(TS_GLOBAL_PATTERN))) {
+      return create({ source: 'typescript', severity: match[1] as Diagnostic['severity'], code: match[2], message: match[3].trim() });
+    }
+    if ((match = line.match(TSL_PATTERN))) {
+      return create({
+        source: 'webpack',
+        severity: match[1] === 'ERROR' ? 'error' : 'warning',
+        file: match[2],
+        line: toNumber(match[3]),
+        column: toNumber(match[4]),
+        message: line.trim()
+      }, { needsMessage: true });
+    }
+    if ((match = line.match(ESBUILD_PATTERN))) {
+      return create({
+        source: 'esbuild',
+        severity: match[1] === 'ERROR' ? 'error' : 'warning',
+        code: match[3],
+        message: match[2].trim()
+      }, { needsLocation: true });
+    }
+    if ((match = line.match(CHECKER_PATTERN))) {
+      return create({
+        source: match[2] === 'ESLint' ? 'eslint' : 'typescript',
+        severity: match[1] === 'ERROR' ? 'error' : 'warning',
+        message: match[3].trim()
+      }, { needsLocation: true });
+    }
+    if ((match = line.match(VITE_PATTERN))) {
+      const plugin = match[1].match(VITE_PLUGIN_PATTERN);
+      return create({
+        source: 'vite',
+        severity: 'error',
+        code: plugin?.[1],
+        message: (plugin ? plugin[2] : match[1]).trim()
+      }, { needsLocation: true });
+    }
+    if ((match = line.match(VITE_PLUGIN_PATTERN))) {
+      return create({ source: 'vite', severity: 'error', code: match[1], message: match[2].trim() }, { needsLocation: true });
+    }
+    if ((match = line.match(WEBPACK_PATTERN))) {
+      return create({
+        source: 'webpack',
+        severity: match[1] === 'ERROR' ? 'error' : 'warning',
+        file: match[2],
+        line: toNumber(match[3]),
+        column: toNumber(match[4]),
+        message: line.trim()
+      }, { needsMessage: true });
+    }
+    if ((match = line.match(NEXT_LOCATION_PATTERN))) {
+      return create({
+        source: 'next',
+        severity: 'error',
+        file: match[1],
+        line: toNumber(match[2] ?? match[4]),
+        column: toNumber(match[3] ?? match[5]),
+        message: line.trim()
+      }, { needsMessage: true });
+    }
+    if ((match = line.match(NEXT_MESSAGE_PATTERN))) {
+      return create({ source: 'next', severity: 'error', message: match[1].trim() });
+    }
+    if ((match = line.match(ESBUILD_INLINE_PATTERN))) {
+      return create({
+        source: 'esbuild',
+        severity: match[4] === 'ERROR' ? 'error' : 'warning',
+        file: match[1],
+        line: toNumber(match[2]),
+        column: toNumber(match[3]),
+        message: match[5].trim()
+      });
+    }
+    if (this.eslintFile && (match = line.match(ESLINT_PROBLEM_PATTERN))) {
+      return create({
+        source: 'eslint',
+        severity: match[3] as Diagnostic['severity'],
+        file: this.eslintFile,
+        line: toNumber(match[1]),
+        column: toNumber(match[2]),
+        message: match[4].trim(),
+        code: match[5]
+      });
+    }
+    if (this.eslintFile && (match = line.match(CRA_LINT_PATTERN))) {
+      return create({
+        source: 'eslint',
+        severity: this.craFailed ? 'error' : 'warning',
+        file: this.eslintFile,
+        line: toNumber(match[1]),
+        column: toNumber(match[2]),
+        message: match[3].trim(),
+        code: match[4]
+      });
+    }
+
+    return null;
+  }
+
+  private flush(): void {
+    if (this.pending) {
+      this.record(this.pending, this.pending.timestamp);
+      this.pending = null;
+    }
+  }
+
+  private record(parsed: ParsedDiagnostic, timestamp: Date): void {
+    const key = [parsed.severity, parsed.file, parsed.line, parsed.column, parsed.code, parsed.message].join('\u0000');
+    const existing = this.diagnostics.get(key);
+    this.lastPositions.set(key, this.position);
+
+    if (existing) {
+      existing.count++;
+      existing.lastSeen = timestamp;
+      existing.resolved = false;
+      delete existing.resolvedAt;
+      return;
+    }
+
+    this.diagnostics.set(key, {
+      source: parsed.source,
+      severity: parsed.severity,
+      ...(parsed.file !== undefined ? { file: parsed.file } : {}),
+      ...(parsed.line !== undefined ? { line: parsed.line } : {}),
+      ...(parsed.column !== undefined ? { column: parsed.column } : {}),
+      message: parsed.message,
+      ...(parsed.code !== undefined ? { code: parsed.code } : {}),
+      count: 1,
+      firstSeen: timestamp,
+      lastSeen: timestamp,
+      resolved: false
+    });
+  }
+
+  private resolve(timestamp: Date, predicate: (diagnostic: Diagnostic, position: number) => boolean): void {
+    for (const [key, diagnostic] of this.diagnostics) {
+      const position = this.lastPositions.get(key)!;
+      if (!diagnostic.resolved && position < this.position && predicate(diagnostic, position)) {
+        diagnostic.resolved = true;
+        diagnostic.resolvedAt = timestamp;
+      }
+    }
+  }
+}
+
+/**
+ * ログからTypeScript・esbuild・Vite・webpack・Next.js・ESLintのエラーと警告を抽出する
+ *
+ * 同じ内容（重大度・位置・コード・メッセージが一致）は1件にまとめて回数を数える。
+ * 後から再ビルドの成功が出力された診断は`resolved`になり、再び出力されると未解決に戻る。
+ * @param entries 古い順のログ
+ */
+export function collectDiagnostics(entries: LogEntry[], options: DiagnosticOptions = {}): Diagnostic[] {
+  const collector = new DiagnosticCollector(options.successPatterns || []);
+  for (const entry of entries) {
+    collector.addEntry(entry);
+  }
+  return collector.finish();
+}
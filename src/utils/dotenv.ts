@@ -0,0 +1,188 @@
+/**
+ * .envファイルの1つの定義
+ */
+export interface DotenvEntry {
+  key: string;
+  /** 引用符とエスケープを処理した値（変数展開前） */
+  value: string;
+  /** 定義が始まる行（1始まり） */
+  line: number;
+  /** ${VAR}・$VARを展開する（シングルクォートの値は展開しない） */
+  expand: boolean;
+}
+
+export interface DotenvWarning {
+  line: number;
+  message: string;
+}
+
+export interface DotenvParseResult {
+  entries: DotenvEntry[];
+  warnings: DotenvWarning[];
+}
+
+// "KEY=value" / "export KEY=value"; the value may start a quoted string spanning lines
+const ASSIGNMENT_PATTERN = /^\s*(?:export\s+)?([^\s=#]+)\s*=\s*(.*)$/;
+const KEY_PATTERN = /^[A-Za-z_][\w.-]*$/;
+// "$VAR", "${VAR}", "${VAR:-default}", "${VAR-default}", or an escaped "\$"
+const EXPANSION_PATTERN = /\\\$|\$\{([A-Za-z_][\w.-]*)(?:(:?-)([^}]*))?\}|\$([A-Za-z_]\w*)/g;
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\' };
+
+/**
+ * .envファイルの内容を解析する
+ *
+ * dotenvの書式に従う。
+ * - `export KEY=value`の`export`は無視する
+ * - 引用符の無い値は前後の空白を除き、`#`以降をコメントとして捨てる
+ * - ダブルクォートの値は複数行にでき、`\n`・`\r`・`\t`・`\"`・`\\`をエスケープとして扱う
+ * - シングルクォートの値は複数行にでき、エスケープも変数展開もしない
+ * - バッククォートの値は複数行にでき、エスケープはしない
+ * 形式が不正な行は読み飛ばし、行番号付きの警告を返す。同じキーは後の定義が優先される。
+ */
+export function parseDotenv(content: string): DotenvParseResult {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const entries: DotenvEntry[] = [];
+  const warnings: DotenvWarning[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNumber = i + 1;
+    const line = lines[i];
+    if (line.trim().length === 0 || line.trim().startsWith('#')) {
+      continue;
+    }
+
+    const assignment = line.match(ASSIGNMENT_PATTERN);
+    if (!assignment) {
+      warnings.push({ line: lineNumber, message: `Expected KEY=VALUE: ${JSON.stringify(line.trim())}` });
+      continue;
+    }
+
+    const [, key, rest] = assignment;
+    if (!KEY_PATTERN.test(key)) {
+      warnings.push({ line: lineNumber, message: `Invalid variable name: ${JSON.stringify(key)}` });
+      continue;
+    }
+
+    const quote = rest[0];
+    if (quote !== '"' && quote !== "'" && quote !== '`') {
+      const value = rest.replace(/#.*$/, '').trim();
+      entries.push({ key, value, line: lineNumber, expand: true });
+      continue;
+    }
+
+    // Find the closing quote, reading further lines for multiline values
+    let text = rest.slice(1);
+    let end = findClosingQuote(text, quote);
+    let lastLine = i;
+    while (end === -1 && lastLine + 1 < lines.length) {
+      lastLine++;
+      text += '\n' + lines[lastLine];
+      end = findClosingQuote(text, quote);
+    }
+
+    if (end === -1) {
+      warnings.push({ line: lineNumber, message: `Unterminated ${quote} quoted value for ${key}` });
+      // Take the rest of the line only, so the following definitions are still read
+      entries.push({ key, value: rest.slice(1).trim(), line: lineNumber, expand: quote !== "'" });
+      continue;
+    }
+
+    const trailing = text.slice(end + 1).trim();
+    if (trailing.length > 0 && !trailing.startsWith('#')) {
+      warnings.push({ line: lastLine + 1, message: `Unexpected characters after the closing quote of ${key}: ${JSON.stringify(trailing)}` });
+    }
+
+    const raw = text.slice(0, end);
+    entries.push({
+      key,
+      value: quote === '"' ? raw.replace(/\\(.)/g, (match, char: string) => DOUBLE_QUOTE_ESCAPES[char] ?? match) : raw,
+      line: lineNumber,
+      expand: quote !== "'"
+    });
+    i = lastLine;
+  }
+
+  return { entries, warnings };
+}
+
+/**
+ * 閉じ引用符の位置（ダブルクォートではバックスラッシュでエスケープされたものを除く）
+ */
+function findClosingQuote(text: string, quote: string): number {
+  for (let i = 0; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === quote) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 値の中の${VAR}・$VARを展開する
+ *
+ * 参照先はprocessEnvを優先し、無ければ同じ.envファイル群の定義を（それ自体も展開して）使う。
+ * どちらにも無ければ空文字列、`${VAR:-default}`・`${VAR-default}`ならdefault。
+ * 循環参照は展開せずに空文字列にする。
+ * @param entries キーごとの採用された定義
+ */
+export function expandDotenv(
+  entries: Map<string, DotenvEntry>,
+  processEnv: Record<string, string | undefined>
+): Record<string, string> {
+  const expanded = new Map<string, string>();
+  const resolving = new Set<string>();
+
+  const lookup = (name: string): string | undefined => {
+    if (processEnv[name] !== undefined) {
+      return processEnv[name];
+    }
+    const entry = entries.get(name);
+    if (!entry) {
+      return undefined;
+    }
+    if (resolving.has(name)) {
+      return '';
+    }
+    return resolve(entry);
+  };
+
+  const resolve = (entry: DotenvEntry): string => {
+    const cached = expanded.get(entry.key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    if (!entry.expand) {
+      return entry.value;
+    }
+
+    resolving.add(entry.key);
+    const value = entry.value.replace(EXPANSION_PATTERN, (match, bracedName?: string, operator?: string, fallback?: string, bareName?: string) => {
+      if (match === '\\$') {
+        return '$';
+      }
+      const current = lookup(bracedName ?? bareName!);
+      if (operator === ':-' && !current) {
+        return fallback ?? '';
+      }
+      if (operator === '-' && current === undefined) {
+        return fallback ?? '';
+      }
+      return current ?? '';
+    });
+    resolving.delete(entry.key);
+
+    expanded.set(entry.key, value);
+    return value;
+  };
+
+  const result: Record<string, string> = {};
+  for (const entry of entries.values()) {
+    result[entry.key] = resolve(entry);
+  }
+  return result;
+}
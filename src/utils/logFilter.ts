@@ -0,0 +1,112 @@
+import { LogEntry } from '../types.js';
+
+const LOG_LEVELS: LogEntry['level'][] = ['info', 'warn', 'error'];
+const LOG_SOURCES: LogEntry['source'][] = ['stdout', 'stderr'];
+
+// 相対時間（例: 30s, 5m, 2h, 1d）
+const RELATIVE_TIME_PATTERN = /^(\d+)\s*(s|m|h|d)$/;
+const TIME_UNITS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+/**
+ * 検証済みのログの絞り込み条件
+ */
+export interface LogFilter {
+  levels?: LogEntry['level'][];
+  source?: LogEntry['source'];
+  pattern?: RegExp;
+  /** 大文字小文字を区別しない部分一致 */
+  contains?: string;
+  since?: Date;
+  until?: Date;
+}
+
+/**
+ * MCPツールやCLIから受け取る未検証の絞り込み条件
+ */
+export interface RawLogFilter {
+  level?: unknown;
+  source?: unknown;
+  pattern?: unknown;
+  ignoreCase?: unknown;
+  contains?: unknown;
+  since?: unknown;
+  until?: unknown;
+}
+
+/**
+ * ISO 8601の日時、または現在からの相対時間（30s, 5m, 2h, 1d）を日時に変換する
+ */
+export function parseTimeBound(value: unknown, name: string, now: number = Date.now()): Date {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new Error(`Invalid ${name}: ${JSON.stringify(value)}. Use an ISO 8601 timestamp or a relative time such as 5m`);
+  }
+
+  const relative = value.trim().match(RELATIVE_TIME_PATTERN);
+  if (relative) {
+    return new Date(now - parseInt(relative[1], 10) * TIME_UNITS[relative[2]]);
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name}: ${JSON.stringify(value)}. Use an ISO 8601 timestamp or a relative time such as 5m`);
+  }
+  return date;
+}
+
+/**
+ * 絞り込み条件を検証する
+ * @throws {Error} レベル・ソース・正規表現・日時が不正な場合
+ */
+export function parseLogFilter(raw: RawLogFilter): LogFilter {
+  const filter: LogFilter = {};
+
+  if (raw.level !== undefined) {
+    // Accept "error", ["warn", "error"] and the CLI form "warn,error"
+    const levels = (Array.isArray(raw.level) ? raw.level : String(raw.level).split(','))
+      .map(level => String(level).trim().toLowerCase())
+      .map(level => level === 'warning' ? 'warn' : level);
+    const invalid = levels.filter(level => !LOG_LEVELS.includes(level as LogEntry['level']));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid level: ${invalid.join(', ')}. Must be one of: ${LOG_LEVELS.join(', ')}`);
+    }
+    filter.levels = levels as LogEntry['level'][];
+  }
+
+  if (raw.source !== undefined) {
+    if (!LOG_SOURCES.includes(raw.source as LogEntry['source'])) {
+      throw new Error(`Invalid source: ${JSON.stringify(raw.source)}. Must be one of: ${LOG_SOURCES.join(', ')}`);
+    }
+    filter.source = raw.source as LogEntry['source'];
+  }
+
+  if (raw.pattern !== undefined) {
+    try {
+      filter.pattern = new RegExp(String(raw.pattern), raw.ignoreCase ? 'i' : '');
+    } catch {
+      throw new Error(`Invalid pattern: ${JSON.stringify(raw.pattern)}. Must be a valid regular expression`);
+    }
+  }
+
+  if (raw.contains !== undefined && String(raw.contains).length > 0) {
+    filter.contains = String(raw.contains).toLowerCase();
+  }
+
+  if (raw.since !== undefined) {
+    filter.since = parseTimeBound(raw.since, 'since');
+  }
+  if (raw.until !== undefined) {
+    filter.until = parseTimeBound(raw.until, 'until');
+  }
+
+  return filter;
+}
+
+export function matchesLogFilter(entry: LogEntry, filter: LogFilter): boolean {
+  if (filter.levels && !filter.levels.includes(entry.level)) return false;
+  if (filter.source && entry.source !== filter.source) return false;
+  if (filter.since && entry.timestamp < filter.since) return false;
+  if (filter.until && entry.timestamp > filter.until) return false;
+  if (filter.contains && !entry.message.toLowerCase().includes(filter.contains)) return false;
+  if (filter.pattern && !filter.pattern.test(entry.message)) return false;
+  return true;
+}
@@ -0,0 +1,73 @@
+import { LogEntry } from '../types.js';
+import { getTextColors, stripAnsi } from './ansi.js';
+
+type LogLevel = LogEntry['level'];
+
+export interface LogLevelRule {
+  pattern: RegExp;
+  level: LogLevel;
+}
+
+/**
+ * ツールやフレームワークが行頭に付けるレベル表記（上から順に判定する）
+ */
+const PREFIX_RULES: LogLevelRule[] = [
+  // esbuild / Vite: "✘ [ERROR] ...", "▲ [WARNING] ..."
+  { pattern: /^\s*[✘✖×⨯]\s/, level: 'error' },
+  { pattern: /^\s*(▲|⚠️?)\s/, level: 'warn' },
+  // Bracketed levels: "[ERROR]", "[warn]", "[vite] Internal server error"
+  { pattern: /\[(error|err|fatal)\]/i, level: 'error' },
+  { pattern: /\[(warn|warning)\]/i, level: 'warn' },
+  { pattern: /\[(info|debug|log)\]/i, level: 'info' },
+  { pattern: /\[vite\]\s+(internal server error|error|pre-transform error)\b/i, level: 'error' },
+  // Level words at the start: "error - ...", "ERROR in ./src", "warn  - ...", "info  - ..."
+  { pattern: /^\s*(error|fatal)\b\s*(-|:|in\b)/i, level: 'error' },
+  { pattern: /^\s*(warn|warning)\b\s*(-|:|in\b)/i, level: 'warn' },
+  { pattern: /^\s*(info|debug|event|wait|ready)\b\s*(-|:)/i, level: 'info' },
+  // Package managers: "npm ERR!", "npm error", "npm WARN"
+  { pattern: /^\s*npm (ERR!|error)\s/, level: 'error' },
+  { pattern: /^\s*npm (WARN|warn)\s/, level: 'warn' },
+  // Thrown errors: "TypeError: ...", "Error [ERR_MODULE_NOT_FOUND]: ...", "Uncaught SyntaxError: ..."
+  { pattern: /^\s*(Uncaught\s+)?[A-Z]?\w*(Error|Exception)( \[\w+\])?:/, level: 'error' },
+  // TypeScript: "src/App.tsx(3,7): error TS2322: ..." / "src/App.tsx:3:7 - error TS2322: ..."
+  { pattern: /\berror TS\d+:/, level: 'error' },
+  { pattern: /^\s*Failed to compile\b/i, level: 'error' },
+  // Rollup: "(!) Plugin typescript: ..."
+  { pattern: /^\s*\(!\)\s/, level: 'warn' },
+  { pattern: /\b\w*Warning:/, level: 'warn' }
+];
+
+// 件数の表示（"0 errors", "no warnings", "without errors"）はエラー・警告とみなさない
+const COUNT_PATTERN = /\b(\d+|no|zero|without)\s+(errors?|warnings?|failures?|exceptions?)\b/gi;
+const ERROR_WORD_PATTERN = /\b(errors?|exception|failed|fatal)\b/i;
+const WARN_WORD_PATTERN = /\b(warnings?|deprecated)\b/i;
+
+/**
+ * ログの内容からレベルを推定する（判定できなければnull）
+ *
+ * 複数行のエントリは先頭行で判定する。行頭のレベル表記、赤・黄の色付け、
+ * 件数表示を除いた単語の順に判定する。
+ * @param raw エスケープシーケンスを含む元の出力
+ * @param rules 共通の表記より先に判定するルール（フレームワーク固有のエラー表示など）
+ */
+export function detectLogLevel(raw: string, rules: LogLevelRule[] = []): LogLevel | null {
+  const header = raw.split('\n', 1)[0];
+  const text = stripAnsi(header);
+
+  for (const rule of [...rules, ...PREFIX_RULES]) {
+    if (rule.pattern.test(text)) {
+      return rule.level;
+    }
+  }
+
+  const colors = getTextColors(header);
+  if (colors.has('red')) return 'error';
+  if (colors.has('yellow')) return 'warn';
+  if (colors.has('green')) return 'info';
+
+  const words = text.replace(COUNT_PATTERN, '');
+  if (ERROR_WORD_PATTERN.test(words)) return 'error';
+  if (WARN_WORD_PATTERN.test(words)) return 'warn';
+
+  return null;
+}
@@ -0,0 +1,33 @@
+import { Socket } from 'net';
+
+/**
+ * 指定ポートがTCP接続を受け付けているか確認する
+ */
+export function isPortAccepting(port: number, host: string = '127.0.0.1', timeout: number = 1000): Promise<boolean> {
+  return new Promise(resolve => {
+    const socket = new Socket();
+    const finish = (accepting: boolean) => {
+      socket.destroy();
+      resolve(accepting);
+    };
+
+    socket.setTimeout(timeout);
+    socket.once('connect', () => finish(true));
+    socket.once('timeout', () => finish(false));
+    socket.once('error', () => finish(false));
+    socket.connect(port, host);
+  });
+}
+
+/**
+ * IPv4とIPv6のループバックのどちらかでポートが接続を受け付けているか確認する
+ *
+ * Node.js 17以降の開発サーバーは`localhost`を`::1`で待ち受けることがあるため両方を試す。
+ */
+export async function isLocalPortAccepting(port: number, timeout?: number): Promise<boolean> {
+  const results = await Promise.all([
+    isPortAccepting(port, '127.0.0.1', timeout),
+    isPortAccepting(port, '::1', timeout)
+  ]);
+  return results.some(Boolean);
+}
@@ -0,0 +1,86 @@
+import { join, dirname } from 'path';
+import { PackageManager } from '../types.js';
+import { fileExists, readJsonFile } from './fileSystem.js';
+
+export const PACKAGE_MANAGERS: PackageManager[] = ['npm', 'pnpm', 'yarn', 'bun'];
+
+// ロックファイルと対応するパッケージマネージャー（同一ディレクトリ内では先勝ち）
+const LOCKFILES: Array<[string, PackageManager]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lockb', 'bun'],
+  ['bun.lock', 'bun'],
+  ['package-lock.json', 'npm'],
+  ['npm-shrinkwrap.json', 'npm']
+];
+
+export function isPackageManager(value: unknown): value is PackageManager {
+  return typeof value === 'string' && (PACKAGE_MANAGERS as string[]).includes(value);
+}
+
+/**
+ * package.jsonの`packageManager`フィールド（例: "pnpm@9.1.0"）から名前を取り出す
+ */
+export function parsePackageManagerField(field: unknown): PackageManager | null {
+  if (typeof field !== 'string') {
+    return null;
+  }
+  const name = field.split('@')[0].trim();
+  return isPackageManager(name) ? name : null;
+}
+
+/**
+ * ディレクトリから上位に向かって`packageManager`フィールドとロックファイルを探し、
+ * 使用するパッケージマネージャーを判定する。モノレポではロックファイルが
+ * ワークスペースルートにしか存在しないため、上位ディレクトリも確認する。
+ */
+export async function detectPackageManager(directory: string): Promise<PackageManager> {
+  let currentDir = directory;
+
+  while (true) {
+    const packageJsonPath = join(currentDir, 'package.json');
+    if (await fileExists(packageJsonPath)) {
+      try {
+        const packageJson = await readJsonFile(packageJsonPath);
+        const fromField = parsePackageManagerField(packageJson.packageManager);
+        if (fromField) {
+          return fromField;
+        }
+      } catch {
+        // 壊れたpackage.jsonはロックファイルの判定にフォールバック
+      }
+    }
+
+    for (const [lockfile, manager] of LOCKFILES) {
+      if (await fileExists(join(currentDir, lockfile))) {
+        return manager;
+      }
+    }
+
+    const parentDir = dirname(currentDir);
+    if (parentDir === currentDir) {
+      break;
+    }
+    currentDir = parentDir;
+  }
+
+  return 'npm';
+}
+
+/**
+ * `<packageManager> run <script>`のコマンドを組み立てる
+ *
+ * extraArgsはスクリプトに渡す引数。npmだけは`--`で区切らないと自身のオプションとして解釈する
+ * （pnpm等に`--`を渡すとスクリプトまでそのまま届いてしまう）。
+ */
+export function buildRunCommand(
+  packageManager: PackageManager,
+  script: string,
+  extraArgs: string[] = []
+): { command: string; args: string[] } {
+  if (extraArgs.length === 0) {
+    return { command: packageManager, args: ['run', script] };
+  }
+  const separator = packageManager === 'npm' ? ['--'] : [];
+  return { command: packageManager, args: ['run', script, ...separator, ...extraArgs] };
+}
@@ -1,19 +1,152 @@
 import { exec } from 'child_process';
+import { readdir, readFile } from 'fs/promises';
 import { promisify } from 'util';
+import { DevProcess } from '../types.js';
+import { parseDevServerUrls } from './urlDiscovery.js';
 
 const execAsync = promisify(exec);
 
+/**
+ * プロセスマップと状態ファイルで共通に使う (ディレクトリ, プロセス名) のキー
+ */
+export function getProcessKey(directory: string, name: string): string {
+  return `${directory}::${name}`;
+}
+
+/**
+ * プロセスが動作中を表すステータスか（準備完了を含む）
+ */
+export function isActiveStatus(status: DevProcess['status']): boolean {
+  return status === 'running' || status === 'ready';
+}
+
+/**
+ * 実在し得るプロセスのPIDか（0や負の値はプロセスグループを指すためシグナルを送ってはいけない）
+ */
+export function isValidPid(pid: number): boolean {
+  return Number.isInteger(pid) && pid > 0;
+}
+
 export async function isProcessRunning(pid: number): Promise<boolean> {
+  if (!isValidPid(pid)) {
+    return false;
+  }
+
   try {
     // On Unix systems, sending signal 0 checks if process exists
     process.kill(pid, 0);
-    return true;
   } catch {
     return false;
   }
+
+  // A zombie still answers signal 0 but has already exited
+  const stat = await readProcStat(pid);
+  return stat?.state !== 'Z';
+}
+
+/**
+ * /proc/<pid>/statから状態と親PIDを読む（/procが無い環境ではnull）
+ */
+async function readProcStat(pid: number): Promise<{ state: string; ppid: number } | null> {
+  try {
+    const stat = await readFile(`/proc/${pid}/stat`, 'utf-8');
+    // The command name may contain spaces and parentheses, so parse after the last ')'
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+    return { state: fields[0], ppid: parseInt(fields[1], 10) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 全プロセスの (PID, 親PID) を取得する。/procが無い環境（macOS等）ではpsを使う
+ */
+async function listParentPids(): Promise<Array<{ pid: number; ppid: number }>> {
+  try {
+    const entries = await readdir('/proc');
+    const processes: Array<{ pid: number; ppid: number }> = [];
+    for (const entry of entries) {
+      const pid = parseInt(entry, 10);
+      if (isNaN(pid)) continue;
+      const stat = await readProcStat(pid);
+      if (stat) {
+        processes.push({ pid, ppid: stat.ppid });
+      }
+    }
+    return processes;
+  } catch {
+    const { stdout } = await execAsync('ps -A -o pid=,ppid=');
+    return stdout.trim().split('\n').map(line => {
+      const [pid, ppid] = line.trim().split(/\s+/).map(value => parseInt(value, 10));
+      return { pid, ppid };
+    }).filter(({ pid, ppid }) => !isNaN(pid) && !isNaN(ppid));
+  }
+}
+
+/**
+ * 指定プロセスの子孫（子・孫…）のPIDを取得する
+ *
+ * npm runの下で動くvite/next/nodemonやそのワーカーは孫以降になるため、親PIDをたどって全て集める。
+ */
+export async function getDescendantPids(pid: number): Promise<number[]> {
+  if (!isValidPid(pid)) {
+    return [];
+  }
+
+  let processes: Array<{ pid: number; ppid: number }>;
+  try {
+    processes = await listParentPids();
+  } catch {
+    return [];
+  }
+
+  const children = new Map<number, number[]>();
+  for (const { pid: child, ppid } of processes) {
+    children.set(ppid, [...(children.get(ppid) || []), child]);
+  }
+
+  const descendants: number[] = [];
+  const queue = [pid];
+  while (queue.length > 0) {
+    for (const child of children.get(queue.shift()!) || []) {
+      if (!descendants.includes(child)) {
+        descendants.push(child);
+        queue.push(child);
+      }
+    }
+  }
+  return descendants;
+}
+
+/**
+ * プロセスグループと、列挙済みのプロセスそれぞれにシグナルを送る
+ *
+ * 開発サーバーは自身をリーダーとするプロセスグループで起動しているが、setsidなどで
+ * グループを抜けた子孫にも届くよう個別にも送る。既に終了したプロセスは無視する。
+ */
+export function signalProcessTree(pid: number, pids: number[], signal: NodeJS.Signals): void {
+  // -0 would signal our own process group
+  if (isValidPid(pid)) {
+    try {
+      process.kill(-pid, signal);
+    } catch {
+      // Not a process group leader (e.g. started by an older version) or already gone
+    }
+  }
+
+  for (const target of pids.filter(isValidPid)) {
+    try {
+      process.kill(target, signal);
+    } catch {
+      // Already exited
+    }
+  }
 }
 
 export async function killProcess(pid: number, signal: NodeJS.Signals = 'SIGTERM'): Promise<void> {
+  if (!isValidPid(pid)) {
+    throw new Error(`Failed to kill process ${pid}: invalid PID`);
+  }
   try {
     process.kill(pid, signal);
   } catch (error) {
@@ -49,16 +182,5 @@ export async function getProcessInfo(pid: number): Promise<{ command?: string; s
 }
 
 export function parsePort(output: string): number[] {
-  const portRegex = /(?:localhost:|127\.0\.0\.1:|0\.0\.0\.0:)(\d+)/g;
-  const ports: number[] = [];
-  let match;
-  
-  while ((match = portRegex.exec(output)) !== null) {
-    const port = parseInt(match[1]);
-    if (!ports.includes(port)) {
-      ports.push(port);
-    }
-  }
-  
-  return ports;
+  return [...new Set(parseDevServerUrls(output).map(url => url.port))];
 }
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { DevServerUrl } from '../types.js';
+import { stripAnsi } from './ansi.js';
+
+// scheme://host[:port][/path] または scheme無しのループバック host:port
+const URL_PATTERN = /\b(?:(https?):\/\/(\[[0-9A-Fa-f:.]+\]|[A-Za-z0-9][A-Za-z0-9.-]*)(?::(\d{1,5}))?(\/[^\s'"<>`|)\]]*)?|(localhost|127\.0\.0\.1|0\.0\.0\.0|\[::1?\]):(\d{1,5})\b(\/[^\s'"<>`|)\]]*)?)/g;
+
+// Vite/Next/Astroのバナーの「Network:」ラベル
+const NETWORK_LABEL_PATTERN = /\bnetwork\b/i;
+
+/**
+ * ループバックアドレスか（ワイルドカードのバインドアドレスを含む）
+ */
+function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host.endsWith('.localhost') ||
+    /^127\./.test(host) || host === '[::1]' || host === '0.0.0.0' || host === '[::]';
+}
+
+/**
+ * LANから到達できるプライベートアドレス・リンクローカルアドレスか
+ */
+function isPrivateHost(host: string): boolean {
+  return /^10\./.test(host) || /^192\.168\./.test(host) || /^172\.(1[6-9]|2\d|3[01])\./.test(host) ||
+    /^169\.254\./.test(host) || /^\[f[cd]/i.test(host) || /^\[fe80:/i.test(host) || host.endsWith('.local');
+}
+
+/**
+ * 開発サーバーのログ出力からアクセス用のURLを抽出する
+ *
+ * `http://localhost:5173/app/`のようなURLのほか、scheme無しの`localhost:3000`や
+ * Vite/Next/Astroの「Local:」「Network:」バナーにも対応する。ドキュメントへのリンク等を
+ * 拾わないよう、ポート指定が無い場合はループバック・プライベートアドレスのみ対象にする。
+ */
+export function parseDevServerUrls(output: string): DevServerUrl[] {
+  const urls: DevServerUrl[] = [];
+
+  // Vite prints the port in bold, so colors must go before matching
+  for (const line of stripAnsi(output).split('\n')) {
+    for (const match of line.matchAll(URL_PATTERN)) {
+      const scheme = (match[1] || 'http') as DevServerUrl['scheme'];
+      let host = (match[2] || match[5]).toLowerCase();
+      const portText = match[3] || match[6];
+      const path = (match[4] || match[7] || '/').replace(/[.,;:!?]+$/, '') || '/';
+
+      if (!portText && !isLoopbackHost(host) && !isPrivateHost(host)) {
+        continue;
+      }
+      const port = portText ? parseInt(portText, 10) : scheme === 'https' ? 443 : 80;
+      if (port < 1 || port > 65535) {
+        continue;
+      }
+
+      const beforeUrl = line.slice(0, match.index);
+      const kind = NETWORK_LABEL_PATTERN.test(beforeUrl) || !isLoopbackHost(host) ? 'network' : 'local';
+
+      // A wildcard bind address is not something a browser can open
+      if (host === '0.0.0.0' || host === '[::]') {
+        host = 'localhost';
+      }
+
+      const url = `${scheme}://${host}:${port}${path}`;
+      if (!urls.some(existing => existing.url === url)) {
+        urls.push({ url, scheme, host, port, path, kind });
+      }
+    }
+  }
+
+  return urls;
+}
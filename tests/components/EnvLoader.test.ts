@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, it, expect } from '@jest/globals';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { EnvLoader, findEnvFiles, getEnvFileNames, getInheritedEnv, parseEnvSettings } from '../../src/components/EnvLoader.js';
+import { getFrameworkAdapter } from '../../src/components/FrameworkDetector.js';
+
+describe('EnvLoader', () => {
+  const loader = new EnvLoader();
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'npm-dev-mcp-env-'));
+    await writeFile(join(root, '.env'), 'NPM_DEV_MCP_TEST_A=env\nNPM_DEV_MCP_TEST_B=env\nNPM_DEV_MCP_TEST_C=env\nNPM_DEV_MCP_TEST_D=env\n');
+    await writeFile(join(root, '.env.local'), 'NPM_DEV_MCP_TEST_B=local\nNPM_DEV_MCP_TEST_C=local\n');
+    await writeFile(join(root, '.env.development'), 'NPM_DEV_MCP_TEST_C=development\nNPM_DEV_MCP_TEST_B=development\n');
+    await writeFile(join(root, '.env.development.local'), 'NPM_DEV_MCP_TEST_D=development.local\n');
+    await writeFile(join(root, '.env.test'), 'NPM_DEV_MCP_TEST_A=test\n');
+  });
+
+  afterEach(async () => {
+    delete process.env.NPM_DEV_MCP_TEST_A;
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should list the files of each mode in the order of the framework', () => {
+    expect(getEnvFileNames('development')).toEqual(['.env', '.env.local', '.env.development', '.env.development.local']);
+    expect(getEnvFileNames('production', 'next')).toEqual(['.env', '.env.production', '.env.local', '.env.production.local']);
+    expect(getEnvFileNames('test', 'next')).toEqual(['.env', '.env.test', '.env.test.local']);
+  });
+
+  it('should layer every file of the mode and report where each variable came from', async () => {
+    const prepared = await loader.prepareEnvironment({ directory: root, framework: getFrameworkAdapter('vite') });
+
+    expect(prepared.mode).toBe('development');
+    expect(prepared.files).toEqual(['.env', '.env.local', '.env.development', '.env.development.local'].map(name => join(root, name)));
+    expect(prepared.env).toMatchObject({
+      NPM_DEV_MCP_TEST_A: 'env',
+      NPM_DEV_MCP_TEST_B: 'development',
+      NPM_DEV_MCP_TEST_C: 'development',
+      NPM_DEV_MCP_TEST_D: 'development.local'
+    });
+    expect(prepared.sources).toEqual({
+      NPM_DEV_MCP_TEST_A: '.env',
+      NPM_DEV_MCP_TEST_B: '.env.development',
+      NPM_DEV_MCP_TEST_C: '.env.development',
+      NPM_DEV_MCP_TEST_D: '.env.development.local'
+    });
+  });
+
+  it('should let .env.local win over the mode file for Next.js and skip it in test mode', async () => {
+    await writeFile(join(root, 'package.json'), JSON.stringify({ dependencies: { next: '^14.0.0' } }));
+
+    const development = await loader.prepareEnvironment({ directory: root });
+    expect(development.order).toBe('next');
+    expect(development.env.NPM_DEV_MCP_TEST_B).toBe('local');
+
+    const test = await loader.prepareEnvironment({ directory: root, mode: 'test' });
+    expect(test.files).toEqual([join(root, '.env'), join(root, '.env.test')]);
+    expect(test.env).toMatchObject({ NPM_DEV_MCP_TEST_A: 'test', NPM_DEV_MCP_TEST_B: 'env' });
+  });
+
+  it('should not override variables that are already set', async () => {
+    process.env.NPM_DEV_MCP_TEST_A = 'shell';
+    const extra = join(root, 'extra.env');
+    await writeFile(extra, 'NPM_DEV_MCP_TEST_D=extra\n');
+
+    const prepared = await loader.prepareEnvironment({ directory: root, envFile: extra, framework: null });
+
+    expect(prepared.env.NPM_DEV_MCP_TEST_A).toBe('shell');
+    expect(prepared.sources.NPM_DEV_MCP_TEST_A).toBe('process.env');
+    expect(prepared.env.NPM_DEV_MCP_TEST_D).toBe('extra');
+    expect(prepared.sources.NPM_DEV_MCP_TEST_D).toBe('extra.env');
+  });
+
+  it('should expand references to the winning value and report malformed lines per file', async () => {
+    await writeFile(join(root, '.env'), 'NPM_DEV_MCP_TEST_URL=http://${NPM_DEV_MCP_TEST_HOST}:3000\nNPM_DEV_MCP_TEST_HOST=env\n');
+    await writeFile(join(root, '.env.local'), 'NPM_DEV_MCP_TEST_HOST=local\nbroken line\n');
+
+    const prepared = await loader.prepareEnvironment({ directory: root, framework: null });
+
+    expect(prepared.env.NPM_DEV_MCP_TEST_URL).toBe('http://local:3000');
+    expect(prepared.warnings).toEqual(['.env.local:2: Expected KEY=VALUE: "broken line"']);
+  });
+
+  it('should let overrides win over the files and inherited variables', async () => {
+    process.env.NPM_DEV_MCP_TEST_A = 'shell';
+    await writeFile(join(root, '.env.local'), 'NPM_DEV_MCP_TEST_B=local\nNPM_DEV_MCP_TEST_F=${NPM_DEV_MCP_TEST_A}\n');
+
+    const prepared = await loader.prepareEnvironment({
+      directory: root,
+      framework: null,
+      overrides: { NPM_DEV_MCP_TEST_A: 'override', NPM_DEV_MCP_TEST_E: 'new' }
+    });
+
+    expect(prepared.env).toMatchObject({
+      NPM_DEV_MCP_TEST_A: 'override',
+      NPM_DEV_MCP_TEST_E: 'new',
+      NPM_DEV_MCP_TEST_F: 'override'
+    });
+    expect(prepared.sources.NPM_DEV_MCP_TEST_A).toBe('override');
+    expect(prepared.sources.NPM_DEV_MCP_TEST_E).toBe('override');
+  });
+
+  it('should pass on only the essential or allowed variables of the host', async () => {
+    const host = { PATH: '/usr/bin', HOME: '/home/dev', Path: 'C:\\Windows', EDITOR_SESSION: 'x', NODE_OPTIONS: '--inspect' };
+
+    expect(getInheritedEnv({ mode: 'none' }, host)).toEqual({ PATH: '/usr/bin', HOME: '/home/dev', Path: 'C:\\Windows' });
+    expect(getInheritedEnv({ mode: 'allowlist', allow: ['NODE_OPTIONS'] }, host)).toMatchObject({ NODE_OPTIONS: '--inspect' });
+    expect(getInheritedEnv({ mode: 'full' }, host)).toEqual(host);
+
+    process.env.NPM_DEV_MCP_TEST_A = 'shell';
+    const prepared = await loader.prepareEnvironment({ directory: root, framework: null, inheritEnv: { mode: 'none' } });
+    expect(prepared.env.NPM_DEV_MCP_TEST_A).toBe('env');
+    expect(prepared.env.PATH).toBe(process.env.PATH);
+  });
+
+  it('should validate the environment settings given to the tool and the CLI', () => {
+    expect(parseEnvSettings({ env: { PORT: 3000 }, envAllowlist: ['NODE_OPTIONS'] })).toEqual({
+      overrides: { PORT: '3000' },
+      inheritEnv: { mode: 'allowlist', allow: ['NODE_OPTIONS'] }
+    });
+    expect(() => parseEnvSettings({ mode: 'staging' })).toThrow('Invalid mode');
+    expect(() => parseEnvSettings({ env: { 'BAD KEY': 'x' } })).toThrow('Invalid env variable name');
+    expect(() => parseEnvSettings({ env: { NESTED: {} } })).toThrow('Invalid env.NESTED');
+    expect(() => parseEnvSettings({ inheritEnv: 'some' })).toThrow('Invalid inheritEnv');
+    expect(() => parseEnvSettings({ inheritEnv: 'none', envAllowlist: ['A'] })).toThrow('envAllowlist');
+  });
+
+  it('should find the env files of every mode', async () => {
+    expect(await findEnvFiles(root)).toEqual(
+      ['.env', '.env.local', '.env.development', '.env.development.local', '.env.test'].map(name => join(root, name))
+    );
+  });
+});
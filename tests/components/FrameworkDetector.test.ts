@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, it, expect } from '@jest/globals';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { FrameworkDetector, getFrameworkAdapter } from '../../src/components/FrameworkDetector.js';
+import { detectLogLevel } from '../../src/utils/logLevel.js';
+
+describe('FrameworkDetector', () => {
+  const detector = new FrameworkDetector();
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'npm-dev-mcp-framework-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should prefer the meta-framework over Vite and report the installed version', async () => {
+    const app = join(root, 'apps', 'web');
+    await mkdir(join(root, 'node_modules', '@sveltejs', 'kit'), { recursive: true });
+    await writeFile(join(root, 'node_modules', '@sveltejs', 'kit', 'package.json'), JSON.stringify({ version: '2.5.4' }));
+
+    const detected = await detector.detect(app, {
+      devDependencies: { vite: '^5.2.0', '@sveltejs/kit': '^2.0.0' }
+    });
+
+    expect(detected).toMatchObject({ id: 'sveltekit', name: 'SvelteKit', version: '2.5.4' });
+  });
+
+  it('should fall back to config files and the declared version range', async () => {
+    await writeFile(join(root, 'astro.config.mjs'), 'export default {};');
+
+    expect(await detector.detect(root, {})).toMatchObject({ id: 'astro', version: undefined });
+    expect(await detector.detect(root, { dependencies: { next: '^14.1.0' } })).toMatchObject({ id: 'next', version: '^14.1.0' });
+  });
+
+  it('should resolve the framework that runs a script', async () => {
+    const sveltekit = await detector.detect(root, { devDependencies: { '@sveltejs/kit': '^2.0.0' } });
+
+    expect(detector.resolveForScript('vite dev', sveltekit)?.id).toBe('sveltekit');
+    expect(detector.resolveForScript('vite dev')?.id).toBe('vite');
+    expect(detector.resolveForScript('remix vite:dev')?.id).toBe('remix');
+    expect(detector.resolveForScript('storybook dev -p 6006', sveltekit)?.id).toBe('storybook');
+    expect(detector.resolveForScript('node server.js', sveltekit)).toBeNull();
+  });
+
+  it('should recognize ready lines and compile errors of each framework', () => {
+    const next = getFrameworkAdapter('next')!;
+    const angular = getFrameworkAdapter('angular')!;
+    const vite = getFrameworkAdapter('vite')!;
+
+    expect(next.readyPattern.test(' ✓ Ready in 1843ms')).toBe(true);
+    expect(angular.readyPattern.test('Application bundle generation complete. [1.234 seconds]')).toBe(true);
+    expect(vite.readyPattern.test('  VITE v5.2.0  ready in 312 ms')).toBe(true);
+    expect(vite.hmrPatterns.some(pattern => pattern.test('10:01:02 AM [vite] hmr update /src/App.tsx'))).toBe(true);
+
+    const angularErrors = angular.errorPatterns.map(pattern => ({ pattern, level: 'error' as const }));
+    expect(detectLogLevel('Application bundle generation failed. [0.512 seconds]', angularErrors)).toBe('error');
+  });
+});
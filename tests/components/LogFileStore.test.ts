@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, it, expect } from '@jest/globals';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { LogFileStore, getLogFileName } from '../../src/components/LogFileStore.js';
+import { LogFileConfig } from '../../src/config/LogFileConfig.js';
+import { LogEntry } from '../../src/types.js';
+
+function entry(message: string, timestamp: Date = new Date()): LogEntry {
+  return { timestamp, level: 'info', message, source: 'stdout' };
+}
+
+describe('LogFileStore', () => {
+  let logDir: string;
+  let config: LogFileConfig;
+
+  beforeEach(async () => {
+    logDir = await mkdtemp(join(tmpdir(), 'npm-dev-mcp-logs-'));
+    config = { directory: logDir, maxSize: 1024 * 1024, maxFiles: 2, maxAge: 60 * 60 * 1000 };
+  });
+
+  afterEach(async () => {
+    await rm(logDir, { recursive: true, force: true });
+  });
+
+  it('should keep history across store instances for the same process', async () => {
+    const firstRun = new LogFileStore('/repo/apps/web', 'dev', config);
+    firstRun.append(entry('first run'));
+    await firstRun.flush();
+
+    const secondRun = new LogFileStore('/repo/apps/web', 'dev', config);
+    secondRun.append(entry('second run'));
+
+    const logs = await secondRun.readRecent(10);
+    expect(logs.map(log => log.message)).toEqual(['first run', 'second run']);
+    expect(logs[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should rotate by size and read back across rotated files', async () => {
+    const store = new LogFileStore('/repo/apps/web', 'dev', { ...config, maxSize: 200 });
+    for (let i = 0; i < 12; i++) {
+      store.append(entry(`line ${i}`));
+      await store.flush();
+    }
+
+    const files = (await readdir(logDir)).sort();
+    const base = `${getLogFileName('/repo/apps/web', 'dev')}.log`;
+    expect(files).toEqual([base, `${base}.1`, `${base}.2`]);
+
+    const logs = await store.readRecent(4);
+    expect(logs.map(log => log.message)).toEqual(['line 8', 'line 9', 'line 10', 'line 11']);
+  });
+
+  it('should rotate a file whose first line is older than maxAge', async () => {
+    const base = join(logDir, `${getLogFileName('/repo/apps/web', 'dev')}.log`);
+    const old = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    await writeFile(base, JSON.stringify({ timestamp: old.toISOString(), level: 'info', source: 'stdout', message: 'old' }) + '\n');
+
+    const store = new LogFileStore('/repo/apps/web', 'dev', config);
+    store.append(entry('new'));
+    await store.flush();
+
+    expect((await readdir(logDir)).sort()).toEqual([`${getLogFileName('/repo/apps/web', 'dev')}.log`, `${getLogFileName('/repo/apps/web', 'dev')}.log.1`]);
+    expect((await store.readRecent(10)).map(log => log.message)).toEqual(['old', 'new']);
+  });
+
+  it('should keep different directories with the same name apart', () => {
+    expect(getLogFileName('/a/web', 'dev')).not.toBe(getLogFileName('/b/web', 'dev'));
+    expect(getLogFileName('/a/web', 'dev')).toMatch(/^web-dev-[0-9a-f]{8}$/);
+  });
+});
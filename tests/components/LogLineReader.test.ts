@@ -0,0 +1,62 @@
+import { describe, it, expect } from '@jest/globals';
+import { LogLineReader } from '../../src/components/LogLineReader.js';
+
+function createReader(flushDelay?: number) {
+  const entries: Array<{ message: string; persist: boolean }> = [];
+  const reader = new LogLineReader((message, persist) => entries.push({ message, persist }), flushDelay);
+  return { reader, entries };
+}
+
+describe('LogLineReader', () => {
+  it('should split chunks at newlines and carry partial lines over', () => {
+    const { reader, entries } = createReader();
+
+    reader.push('compiling...\nbuilt in 12');
+    reader.push('0ms\r\n\nwatching for changes\n');
+    reader.flush();
+
+    expect(entries.map(entry => entry.message)).toEqual(['compiling...', 'built in 120ms', 'watching for changes']);
+  });
+
+  it('should group a Node.js stack trace with its error properties', () => {
+    const { reader, entries } = createReader();
+
+    reader.push('Error: listen EADDRINUSE: address already in use :::3000\n    at Server.setupListenHandle [as _listen2] (node:net:1817:16)\n');
+    reader.push('    at listenInCluster (node:net:1865:12)\n    ... 2 more {\n  code: \'EADDRINUSE\',\n  port: 3000\n}\nready\n');
+    reader.flush();
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0].message.split('\n')).toHaveLength(7);
+    expect(entries[1].message).toBe('ready');
+  });
+
+  it('should group code frames and keep unrelated indented lines separate', () => {
+    const { reader, entries } = createReader();
+
+    reader.push([
+      '\x1b[31m[vite] Internal server error:\x1b[39m Transform failed with 1 error:',
+      '  Plugin: vite:esbuild',
+      '  File: /app/src/App.tsx:3:7',
+      '  1  |  import React from "react";',
+      '  3  |  const x = ;',
+      '     |         ^',
+      '10:01:02 AM [vite] hmr update /src/App.tsx',
+      '  VITE v5.2.0  ready in 312 ms',
+      '  ➜  Local:   http://localhost:5173/',
+      ''
+    ].join('\n'));
+    reader.flush();
+
+    expect(entries.map(entry => entry.message.split('\n').length)).toEqual([6, 1, 1, 1]);
+  });
+
+  it('should emit a trailing line once output goes quiet', async () => {
+    const { reader, entries } = createReader(20);
+
+    reader.push('? Port 3000 is in use, try another one?', false);
+    expect(entries).toEqual([]);
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(entries).toEqual([{ message: '? Port 3000 is in use, try another one?', persist: false }]);
+  });
+});
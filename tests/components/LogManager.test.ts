@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import { LogManager } from '../../src/components/LogManager.js';
+import { parseLogFilter } from '../../src/utils/logFilter.js';
+
+function messages(manager: LogManager, query: Parameters<LogManager['queryLogs']>[0]): string[] {
+  return manager.queryLogs(query).entries.map(entry => entry.message.replace('[npm-dev-mcp] ', ''));
+}
+
+describe('LogManager', () => {
+  describe('queryLogs', () => {
+    it('should return only lines written after the cursor', () => {
+      const manager = new LogManager();
+      manager.addEvent('compiled');
+      const first = manager.queryLogs({});
+
+      manager.addEvent('file changed');
+      manager.addEvent('recompiled');
+      const second = manager.queryLogs({ cursor: first.cursor });
+
+      expect(second.entries.map(entry => entry.message)).toEqual([
+        '[npm-dev-mcp] file changed',
+        '[npm-dev-mcp] recompiled'
+      ]);
+      expect(manager.queryLogs({ cursor: second.cursor }).entries).toEqual([]);
+    });
+
+    it('should page through matches oldest first when the limit is reached', () => {
+      const manager = new LogManager();
+      const start = manager.queryLogs({});
+      for (let i = 1; i <= 5; i++) {
+        manager.addEvent(`line ${i}`);
+      }
+
+      const page = manager.queryLogs({ cursor: start.cursor, limit: 2 });
+      expect(page.hasMore).toBe(true);
+      expect(messages(manager, { cursor: start.cursor, limit: 2 })).toEqual(['line 1', 'line 2']);
+      expect(messages(manager, { cursor: page.cursor, limit: 10 })).toEqual(['line 3', 'line 4', 'line 5']);
+    });
+
+    it('should report lines dropped from the buffer and cursors from another instance', () => {
+      const manager = new LogManager();
+      const start = manager.queryLogs({});
+      for (let i = 0; i < 1005; i++) {
+        manager.addEvent(`line ${i}`);
+      }
+
+      const result = manager.queryLogs({ cursor: start.cursor, limit: 1 });
+      expect(result.skipped).toBe(5);
+      expect(result.entries[0].message).toBe('[npm-dev-mcp] line 5');
+
+      const other = new LogManager().queryLogs({ cursor: start.cursor });
+      expect(other.cursorExpired).toBe(true);
+      expect(() => manager.queryLogs({ cursor: 'not-a-cursor' })).toThrow('Invalid cursor');
+    });
+
+    it('should combine level, text and time filters', () => {
+      const manager = new LogManager();
+      manager.addEvent('GET /api 200');
+      manager.addEvent('GET /api 500');
+      manager.addEvent('POST /login 500');
+
+      expect(messages(manager, parseLogFilter({ pattern: 'get .* 5\\d\\d$', ignoreCase: true }))).toEqual(['GET /api 500']);
+      expect(messages(manager, parseLogFilter({ contains: 'LOGIN', level: 'info,warn' }))).toEqual(['POST /login 500']);
+      expect(messages(manager, parseLogFilter({ level: ['error'] }))).toEqual([]);
+      expect(messages(manager, parseLogFilter({ since: '1h', until: new Date(Date.now() + 1000).toISOString() }))).toHaveLength(3);
+      expect(messages(manager, parseLogFilter({ since: new Date(Date.now() + 60000).toISOString() }))).toEqual([]);
+    });
+
+    it('should reject invalid filters', () => {
+      expect(() => parseLogFilter({ level: 'fatal' })).toThrow('Invalid level');
+      expect(() => parseLogFilter({ pattern: '(' })).toThrow('Invalid pattern');
+      expect(() => parseLogFilter({ since: 'yesterday' })).toThrow('Invalid since');
+    });
+  });
+});
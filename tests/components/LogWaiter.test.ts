@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, it, expect } from '@jest/globals';
+import { appendFile, mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { LogManager } from '../../src/components/LogManager.js';
+import { LogWaiter } from '../../src/components/LogWaiter.js';
+import { CaptureFiles } from '../../src/components/OutputCapture.js';
+import { DevProcess } from '../../src/types.js';
+
+describe('LogWaiter', () => {
+  let waiter: LogWaiter;
+  let logManager: LogManager;
+  let root: string;
+  let capture: CaptureFiles;
+  let status: DevProcess['status'];
+
+  const target = () => ({
+    name: 'api',
+    logManager,
+    getStatus: () => status
+  });
+
+  beforeEach(async () => {
+    waiter = new LogWaiter();
+    logManager = new LogManager();
+    root = await mkdtemp(join(tmpdir(), 'npm-dev-mcp-wait-'));
+    capture = { stdout: join(root, 'out'), stderr: join(root, 'err') };
+    status = 'running';
+    await logManager.startLogging(null, capture);
+  });
+
+  afterEach(async () => {
+    await logManager.stopLogging();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should resolve with the matching line and its surrounding lines', async () => {
+    const waiting = waiter.waitForLog(target(), { filter: { pattern: /Listening on :\d+/ }, timeout: 5000, context: 1 });
+    await appendFile(capture.stdout, 'loading config\nconnecting\nListening on :8080\nConnected to database\nextra\n');
+    const result = await waiting;
+
+    expect(result.outcome).toBe('matched');
+    expect(result.match?.message).toBe('Listening on :8080');
+    expect(result.before.map(log => log.message)).toEqual(['connecting']);
+    expect(result.after.map(log => log.message)).toEqual(['Connected to database']);
+
+    // The cursor points right after the match, so the next lines can be read from it
+    await new Promise(resolve => setTimeout(resolve, 600));
+    const next = logManager.queryLogs({ cursor: result.cursor });
+    expect(next.entries.map(log => log.message)).toEqual(['Connected to database', 'extra']);
+  });
+
+  it('should match lines printed after the cursor before the call', async () => {
+    const { cursor } = logManager.queryLogs({ limit: 0 });
+    await appendFile(capture.stderr, 'Error: connect ECONNREFUSED 127.0.0.1:5432\n');
+    await new Promise(resolve => setTimeout(resolve, 600));
+
+    const result = await waiter.waitForLog(target(), { filter: { pattern: /ECONNREFUSED/, source: 'stderr' }, cursor, timeout: 100 });
+
+    expect(result.outcome).toBe('matched');
+    expect(result.match?.level).toBe('error');
+  });
+
+  it('should wait only for new lines when the cursor has expired', async () => {
+    await appendFile(capture.stdout, 'Compiled in 120ms (old)\n');
+    await new Promise(resolve => setTimeout(resolve, 600));
+    // A cursor from another instance, like one kept across an MCP server restart
+    const { cursor } = new LogManager().queryLogs({ limit: 0 });
+
+    const waiting = waiter.waitForLog(target(), { filter: { pattern: /Compiled in/ }, cursor, timeout: 5000, context: 0 });
+    await new Promise(resolve => setTimeout(resolve, 300));
+    await appendFile(capture.stdout, 'Compiled in 80ms (new)\n');
+    const result = await waiting;
+
+    expect(result.outcome).toBe('matched');
+    expect(result.match?.message).toBe('Compiled in 80ms (new)');
+    expect(result.cursorExpired).toBe(true);
+  });
+
+  it('should time out, and stop early when the process exits', async () => {
+    const timedOut = await waiter.waitForLog(target(), { filter: { pattern: /never/ }, timeout: 200 });
+    expect(timedOut.outcome).toBe('timeout');
+    expect(timedOut.match).toBeUndefined();
+
+    status = 'stopped';
+    const exited = await waiter.waitForLog(target(), { filter: { pattern: /never/ }, timeout: 5000 });
+    expect(exited.outcome).toBe('exited');
+    expect(exited.elapsed).toBeLessThan(2000);
+
+    const ignored = await waiter.waitForLog(target(), { filter: { pattern: /never/ }, timeout: 800, failOnExit: false });
+    expect(ignored.outcome).toBe('timeout');
+  });
+});
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, it, expect } from '@jest/globals';
+import { writeSync } from 'fs';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { CaptureFiles, FileTailer, claimCaptureOwnership, closeCaptureFds, openCaptureFiles } from '../../src/components/OutputCapture.js';
+
+describe('FileTailer', () => {
+  let root: string;
+  let capture: CaptureFiles;
+  let fds: [number, number];
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'npm-dev-mcp-capture-'));
+    capture = { stdout: join(root, 'out'), stderr: join(root, 'err') };
+    fds = openCaptureFiles(capture);
+  });
+
+  afterEach(async () => {
+    closeCaptureFds(fds);
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should truncate what it has read once the file grows past the limit', async () => {
+    const chunks: string[] = [];
+    const offsets: number[] = [];
+    const tailer = new FileTailer(capture.stdout, (chunk, endOffset) => {
+      chunks.push(chunk);
+      offsets.push(endOffset);
+    }, 0, 10);
+
+    // Written through the descriptor the dev server would get
+    writeSync(fds[0], 'hello world\n');
+    await tailer.drain();
+    expect(await readFile(capture.stdout, 'utf-8')).toBe('');
+
+    // The writer continues from the start of the file instead of leaving a hole
+    writeSync(fds[0], 'again\n');
+    expect(await readFile(capture.stdout, 'utf-8')).toBe('again\n');
+    await tailer.stop();
+
+    expect(chunks.join('')).toBe('hello world\nagain\n');
+    expect(offsets).toEqual([12, 18]);
+  });
+
+  it('should only follow a file it does not own while the owner truncates it', async () => {
+    const chunks: string[] = [];
+    const offsets: number[] = [];
+    const follower = new FileTailer(capture.stdout, (chunk, endOffset) => {
+      chunks.push(chunk);
+      offsets.push(endOffset);
+    });
+    const owner = new FileTailer(capture.stdout, () => {}, 0, 10);
+
+    writeSync(fds[0], 'hello world\n');
+    await follower.drain();
+    await owner.drain();
+    expect(await readFile(capture.stdout, 'utf-8')).toBe('');
+
+    writeSync(fds[0], 'again\n');
+    await follower.stop();
+    await owner.stop();
+
+    expect(chunks.join('')).toBe('hello world\nagain\n');
+    expect(offsets).toEqual([12, 18]);
+  });
+
+  it('should let only one live process own the capture', async () => {
+    const ownerFile = `${capture.stdout}.owner`;
+    // Opening the capture for a child records the spawning process
+    expect(await readFile(ownerFile, 'utf-8')).toBe(String(process.pid));
+    expect(await claimCaptureOwnership(capture)).toBe(true);
+
+    // The parent of the test runner stands in for another live reader
+    await writeFile(ownerFile, String(process.ppid));
+    expect(await claimCaptureOwnership(capture)).toBe(false);
+
+    // An owner that has exited can be replaced
+    await writeFile(ownerFile, '0');
+    expect(await claimCaptureOwnership(capture)).toBe(true);
+  });
+});
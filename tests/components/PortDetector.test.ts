@@ -0,0 +1,71 @@
+import { afterEach, describe, it, expect } from '@jest/globals';
+import { spawn, ChildProcess } from 'child_process';
+import { createServer, Server } from 'net';
+import { PortDetector } from '../../src/components/PortDetector.js';
+
+// The /proc implementation only exists on Linux
+const describeLinux = process.platform === 'linux' ? describe : describe.skip;
+
+/**
+ * ポートを待ち受ける孫プロセスを起動する（npm run → サーバーの構成を模す）
+ */
+function spawnListeningGrandchild(): Promise<{ parent: ChildProcess; port: number }> {
+  const server = `
+    const server = require('net').createServer().listen(0, '127.0.0.1', () => {
+      console.log(server.address().port);
+    });
+  `;
+  const parent = spawn(process.execPath, [
+    '-e',
+    `require('child_process').spawn(process.execPath, ['-e', ${JSON.stringify(server)}], { stdio: 'inherit' });
+     setInterval(() => {}, 1000);`
+  ], { stdio: ['ignore', 'pipe', 'inherit'], detached: true });
+
+  return new Promise((resolve, reject) => {
+    parent.once('error', reject);
+    parent.stdout!.once('data', (data: Buffer) => resolve({ parent, port: parseInt(data.toString(), 10) }));
+  });
+}
+
+describeLinux('PortDetector', () => {
+  const detector = new PortDetector();
+  let parent: ChildProcess | null = null;
+  let server: Server | null = null;
+
+  afterEach(async () => {
+    if (parent) {
+      process.kill(-parent.pid!, 'SIGKILL');
+      parent = null;
+    }
+    if (server) {
+      await new Promise(resolve => server!.close(resolve));
+      server = null;
+    }
+  });
+
+  it('should find a port held by a descendant rather than the process itself', async () => {
+    const spawned = await spawnListeningGrandchild();
+    parent = spawned.parent;
+
+    const ports = await detector.detectPorts(parent.pid!);
+
+    expect(ports).toHaveLength(1);
+    expect(ports[0]).toMatchObject({ port: spawned.port, protocol: 'tcp' });
+    expect(ports[0].pid).not.toBe(parent.pid);
+    expect(ports[0].service).toBe('node');
+  });
+
+  it('should not report listening sockets owned by unrelated processes', async () => {
+    server = createServer();
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+    const unrelatedPort = (server.address() as { port: number }).port;
+
+    const spawned = await spawnListeningGrandchild();
+    parent = spawned.parent;
+
+    const ports = await detector.getPortsByPid(parent.pid!);
+
+    expect(ports).toEqual([spawned.port]);
+    expect(ports).not.toContain(unrelatedPort);
+  });
+});
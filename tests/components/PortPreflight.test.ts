@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, it, expect } from '@jest/globals';
+import { createServer, Server } from 'net';
+import { PortConflictError, PortPreflight } from '../../src/components/PortPreflight.js';
+import { getFrameworkAdapter } from '../../src/components/FrameworkDetector.js';
+
+async function listen(server: Server): Promise<number> {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return (server.address() as { port: number }).port;
+}
+
+describe('PortPreflight', () => {
+  const preflight = new PortPreflight();
+  let server: Server;
+  let busyPort: number;
+
+  beforeEach(async () => {
+    server = createServer();
+    busyPort = await listen(server);
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should infer the expected port from the framework when PORT is not set', async () => {
+    const plan = await preflight.check('astro dev', {});
+
+    expect(plan).toEqual({ port: 4321, extraArgs: [], env: {} });
+  });
+
+  it('should report the PID holding the expected port', async () => {
+    const error = await preflight.check('vite', { PORT: String(busyPort) }).catch(e => e);
+
+    expect(error).toBeInstanceOf(PortConflictError);
+    expect(error.port).toBe(busyPort);
+    if (process.platform === 'linux') {
+      expect(error.owner).toMatchObject({ port: busyPort, pid: process.pid });
+      expect(error.message).toContain(`PID ${process.pid}`);
+    }
+  });
+
+  it('should leave a busy framework default port to the dev server unless autoPort is set', async () => {
+    const framework = { ...getFrameworkAdapter('vite')!, defaultPort: busyPort };
+
+    const plan = await preflight.check('vite', {}, { framework });
+    expect(plan.port).toBeUndefined();
+    expect(plan.extraArgs).toEqual([]);
+    expect(plan.defaultPortInUse?.port).toBe(busyPort);
+
+    const assigned = await preflight.check('vite', {}, { framework, autoPort: true });
+    expect(assigned.port).toBeGreaterThan(busyPort);
+  });
+
+  it('should still refuse a busy default port of a framework that does not move off it', async () => {
+    const framework = { ...getFrameworkAdapter('react-scripts')!, defaultPort: busyPort };
+
+    await expect(preflight.check('react-scripts start', {}, { framework })).rejects.toBeInstanceOf(PortConflictError);
+  });
+
+  it('should assign a free port through PORT and the framework flag', async () => {
+    const plan = await preflight.check('vite', { PORT: String(busyPort) }, { autoPort: true });
+
+    expect(plan.port).toBeGreaterThan(busyPort);
+    expect(plan.conflict?.port).toBe(busyPort);
+    expect(plan.extraArgs).toEqual(['--port', String(plan.port)]);
+    expect(plan.env).toEqual({ PORT: String(plan.port) });
+  });
+
+  it('should skip ports reserved by other managed processes', async () => {
+    const plan = await preflight.check('react-scripts start', { PORT: String(busyPort) }, {
+      autoPort: true,
+      reservedPorts: [busyPort + 1]
+    });
+
+    expect(plan.port).not.toBe(busyPort + 1);
+    expect(plan.extraArgs).toEqual([]);
+  });
+
+  it('should refuse to reassign a port fixed by a command-line flag', async () => {
+    await expect(preflight.check(`next dev --port ${busyPort}`, {}, { autoPort: true }))
+      .rejects.toThrow('cannot be reassigned');
+  });
+});
@@ -0,0 +1,89 @@
+import { beforeEach, describe, it, expect, jest } from '@jest/globals';
+
+const calls: string[] = [];
+const waited: string[] = [];
+const running = new Set<string>();
+let failingProcess: string | null = null;
+
+// ProcessManager のモック（起動・停止の順序を記録）
+jest.unstable_mockModule('../../src/components/ProcessManager.js', () => ({
+  ProcessManager: {
+    getInstance: () => ({
+      startDevServer: async (directory: string, _env: unknown, options: { name: string; script: string; waitForReady?: boolean }) => {
+        if (options.name === failingProcess) {
+          throw new Error(`Script "${options.script}" is not defined`);
+        }
+        calls.push(`start:${options.name}`);
+        if (options.waitForReady) {
+          waited.push(options.name);
+        }
+        running.add(options.name);
+        return { pid: calls.length, directory, name: options.name, script: options.script, status: 'running', ports: [] };
+      },
+      stopDevServer: async (_directory: string, name: string) => {
+        calls.push(`stop:${name}`);
+        running.delete(name);
+        return { success: true, pids: [], forced: false, survivors: [], portsInUse: [] };
+      },
+      getProcess: (directory: string, name: string) =>
+        running.has(name) ? { pid: 1, directory, name, script: name, status: 'running', ports: [] } : null
+    })
+  }
+}));
+
+const definition = (name: string, dependsOn: string[] = []) => ({ name, script: 'dev', cwd: `/repo/${name}`, dependsOn });
+let processes = [definition('web', ['api']), definition('api', ['db']), definition('db'), definition('docs')];
+
+// ProjectContextManager のモック
+jest.unstable_mockModule('../../src/context/ProjectContextManager.js', () => ({
+  ProjectContextManager: {
+    getInstance: () => ({
+      getProjectConfig: () => ({ configPath: '/repo/.npm-dev-mcp.json', processes })
+    })
+  }
+}));
+
+describe('ProcessGroupManager', () => {
+  let groupManager: any;
+
+  beforeEach(async () => {
+    calls.length = 0;
+    waited.length = 0;
+    running.clear();
+    failingProcess = null;
+    processes = [definition('web', ['api']), definition('api', ['db']), definition('db'), definition('docs')];
+    const { ProcessGroupManager } = await import('../../src/components/ProcessGroupManager.js');
+    groupManager = ProcessGroupManager.getInstance();
+  });
+
+  it('should start dependencies first and stop in reverse order', async () => {
+    const result = await groupManager.startGroup(['web']);
+    expect(result.order).toEqual(['db', 'api', 'web']);
+    expect(calls).toEqual(['start:db', 'start:api', 'start:web']);
+
+    calls.length = 0;
+    const stopResult = await groupManager.stopGroup(['web']);
+    expect(stopResult.stopped).toEqual(['web', 'api', 'db']);
+    expect(calls).toEqual(['stop:web', 'stop:api', 'stop:db']);
+  });
+
+  it('should wait for every dependency to be ready, even without a readiness check', async () => {
+    await groupManager.startGroup();
+
+    expect(waited).toEqual(['db', 'api']);
+  });
+
+  it('should stop processes it started when a later one fails', async () => {
+    failingProcess = 'web';
+
+    await expect(groupManager.startGroup(['web'])).rejects.toThrow('Script "dev" is not defined');
+    expect(calls).toEqual(['start:db', 'start:api', 'stop:api', 'stop:db']);
+  });
+
+  it('should fail clearly on dependency cycles', async () => {
+    processes = [definition('web', ['api']), definition('api', ['web'])];
+
+    await expect(groupManager.startGroup()).rejects.toThrow('Dependency cycle detected: web -> api -> web');
+    expect(calls).toEqual([]);
+  });
+});
@@ -0,0 +1,317 @@
+import { afterEach, beforeEach, describe, it, expect, jest } from '@jest/globals';
+import { mkdtemp, readFile, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createServer } from 'net';
+
+// 実際の状態ファイル（~/.npm-dev-mcp）に書き込まないようにStateManagerをモック
+let savedState: any = null;
+jest.unstable_mockModule('../../src/components/StateManager.js', () => ({
+  StateManager: {
+    getInstance: () => ({
+      loadState: async () => savedState,
+      saveDevProcessState: async () => {},
+      clearDevProcessState: async () => {}
+    })
+  }
+}));
+
+async function waitFor(condition: () => boolean | Promise<boolean>, timeout: number): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+}
+
+describe('ProcessManager', () => {
+  let root: string;
+  let processManager: any;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'npm-dev-mcp-pm-'));
+    process.env.DEV_LOG_DIR = join(root, 'logs');
+    await writeFile(join(root, 'package.json'), JSON.stringify({
+      name: 'crashing-app',
+      scripts: { dev: 'node -e "process.exit(3)"', serve: 'node server.js', tree: 'node parent.js', 'show-env': 'node env.js' }
+    }));
+    // Prints the variables it was started with, then waits like server.js
+    await writeFile(join(root, 'env.js'), `
+      const fs = require('fs');
+      const { GREETING, OTHER, NPM_DEV_MCP_TEST_HOST, PORT } = process.env;
+      console.log('greeting=' + GREETING + ' other=' + OTHER + ' host=' + (NPM_DEV_MCP_TEST_HOST || 'unset'));
+      console.log('port=' + (PORT || 'unset'));
+      setInterval(() => {
+        if (fs.existsSync('done')) process.exit(0);
+      }, 100);
+    `);
+    // Prints a line every 100ms until the test creates the "done" file
+    await writeFile(join(root, 'server.js'), `
+      const fs = require('fs');
+      let count = 0;
+      setInterval(() => {
+        console.log('tick ' + ++count);
+        if (fs.existsSync('done')) process.exit(0);
+      }, 100);
+    `);
+    // A grandchild that ignores SIGTERM and holds a port, like a stubborn dev server worker
+    await writeFile(join(root, 'parent.js'), `
+      require('child_process').spawn(process.execPath, ['child.js'], { stdio: 'inherit' });
+      setInterval(() => {}, 1000);
+    `);
+    await writeFile(join(root, 'child.js'), `
+      process.on('SIGTERM', () => {});
+      require('fs').writeFileSync('child.pid', String(process.pid));
+      const server = require('net').createServer().listen(0, '127.0.0.1', () => {
+        console.log('listening on http://localhost:' + server.address().port);
+      });
+    `);
+
+    const { ProcessManager } = await import('../../src/components/ProcessManager.js');
+    processManager = new ProcessManager();
+  });
+
+  afterEach(async () => {
+    savedState = null;
+    // Let server.js exit by itself even if a test failed before stopping it
+    await writeFile(join(root, 'done'), '');
+    await processManager.stopDevServer(root, 'dev');
+    await processManager.stopDevServer(root, 'serve');
+    await processManager.stopDevServer(root, 'show-env');
+    delete process.env.NPM_DEV_MCP_TEST_HOST;
+    await processManager.stopDevServer(root, 'tree', { gracePeriod: 0 });
+    await rm(root, { recursive: true, force: true });
+    delete process.env.DEV_LOG_DIR;
+  });
+
+  describe('restart policies', () => {
+    it('should restart a crashing process with backoff and give up on a crash loop', async () => {
+      await processManager.startDevServer(root, undefined, {
+        packageManager: 'npm',
+        restart: { policy: 'on-failure', maxRestarts: 2, windowMs: 60000, backoffMs: 100 }
+      });
+
+      await waitFor(() => processManager.getProcess(root, 'dev')?.status === 'error', 20000);
+
+      const crashed = processManager.getProcess(root, 'dev');
+      expect(crashed.restartCount).toBe(2);
+      expect(crashed.restartHistory).toHaveLength(2);
+      expect(crashed.lastExitCode).toBe(3);
+    }, 30000);
+
+    it('should not restart without a restart policy', async () => {
+      await processManager.startDevServer(root, undefined, { packageManager: 'npm' });
+
+      await waitFor(() => processManager.getProcess(root, 'dev')?.status === 'stopped', 10000);
+      await new Promise(resolve => setTimeout(resolve, 500));
+
+      const stopped = processManager.getProcess(root, 'dev');
+      expect(stopped.status).toBe('stopped');
+      expect(stopped.restartCount).toBe(0);
+      expect(stopped.lastExitCode).toBe(3);
+    }, 20000);
+  });
+
+  describe('restarting', () => {
+    it('should rebuild the environment from the settings given at start', async () => {
+      const { EnvLoader } = await import('../../src/components/EnvLoader.js');
+      process.env.NPM_DEV_MCP_TEST_HOST = 'host';
+      await writeFile(join(root, '.env'), 'GREETING=file\nOTHER=one\n');
+
+      const envSettings = { overrides: { GREETING: 'override' }, inheritEnv: { mode: 'none' as const } };
+      const { env } = await new EnvLoader().prepareEnvironment({ directory: root, framework: null, ...envSettings });
+      await processManager.startDevServer(root, env, { script: 'show-env', packageManager: 'npm', envSettings });
+
+      const printed = async (line: string) => (await processManager.getLogManager(root, 'show-env').getLogs(1000))
+        .some((entry: { message: string }) => entry.message === line);
+      await waitFor(() => printed('greeting=override other=one host=unset'), 10000);
+
+      // Edits to the .env files are picked up, while the overrides and inheritance stay
+      await writeFile(join(root, '.env'), 'GREETING=file\nOTHER=two\n');
+      const restarted = await processManager.restartDevServer(root, 'show-env');
+      expect(restarted.envSettings).toEqual(envSettings);
+      await waitFor(() => printed('greeting=override other=two host=unset'), 10000);
+    }, 40000);
+
+    it('should keep the readiness check given at start', async () => {
+      // server.js never listens, so only the log check can mark it ready
+      const readiness = { type: 'log' as const, pattern: 'tick 3' };
+      const started = await processManager.startDevServer(root, undefined, {
+        script: 'serve', packageManager: 'npm', readiness, waitForReady: true, readyTimeout: 10000
+      });
+      expect(started.status).toBe('ready');
+
+      const restarted = await processManager.restartDevServer(root, 'serve');
+      expect(restarted.pid).not.toBe(started.pid);
+      await waitFor(() => processManager.getProcess(root, 'serve')?.status === 'ready', 10000);
+    }, 40000);
+  });
+
+  describe('reattaching', () => {
+    it('should keep streaming logs and detect exit of a server started by a previous instance', async () => {
+      const { ProcessManager } = await import('../../src/components/ProcessManager.js');
+      const started = await processManager.startDevServer(root, undefined, { script: 'serve', packageManager: 'npm' });
+      const pid = started.pid;
+
+      // Simulate the state file left behind by the previous MCP server
+      savedState = {
+        devProcesses: {
+          [`${root}::serve`]: { ...started, status: 'running', startTime: started.startTime.toISOString() }
+        }
+      };
+      const reattached = new ProcessManager();
+      await waitFor(() => reattached.getProcess(root, 'serve') !== null, 5000);
+      expect(reattached.getProcess(root, 'serve')!.pid).toBe(pid);
+
+      // New output written after reattaching reaches the new instance
+      const logManager = reattached.getLogManager(root, 'serve')!;
+      const seen = (await logManager.getLogs(1000)).length;
+      await waitFor(async () => {
+        const logs = await logManager.getLogs(1000);
+        return logs.length > seen && logs.some(entry => /tick \d+/.test(entry.message));
+      }, 10000);
+
+      await writeFile(join(root, 'done'), '');
+      await waitFor(() => reattached.getProcess(root, 'serve')?.status === 'stopped', 15000);
+      expect(reattached.getProcess(root, 'serve')!.lastExitCode).toBeNull();
+    }, 40000);
+
+    it('should rebuild the environment from the saved settings when restarting a reattached process', async () => {
+      const { ProcessManager } = await import('../../src/components/ProcessManager.js');
+      const { EnvLoader } = await import('../../src/components/EnvLoader.js');
+      process.env.NPM_DEV_MCP_TEST_HOST = 'host';
+      await writeFile(join(root, '.env'), 'GREETING=file\nOTHER=one\n');
+
+      const envSettings = { overrides: { GREETING: 'override' }, inheritEnv: { mode: 'none' as const } };
+      const { env } = await new EnvLoader().prepareEnvironment({ directory: root, framework: null, ...envSettings });
+      const started = await processManager.startDevServer(root, env, { script: 'show-env', packageManager: 'npm', envSettings });
+
+      // Only the new instance has a restart policy, so the original one does not respawn it
+      savedState = {
+        devProcesses: {
+          [`${root}::show-env`]: {
+            ...started,
+            status: 'running',
+            startTime: started.startTime.toISOString(),
+            restartPolicy: { policy: 'always', backoffMs: 100 }
+          }
+        }
+      };
+      const reattached = new ProcessManager();
+      await waitFor(() => reattached.getProcess(root, 'show-env') !== null, 5000);
+
+      await writeFile(join(root, '.env'), 'GREETING=file\nOTHER=two\n');
+      process.kill(-started.pid, 'SIGKILL');
+      await waitFor(() => reattached.getProcess(root, 'show-env')?.restartCount === 1, 10000);
+
+      const printed = async (line: string) => (await reattached.getLogManager(root, 'show-env')!.getLogs(1000))
+        .some(entry => entry.message === line);
+      await waitFor(() => printed('greeting=override other=two host=unset'), 10000);
+      await reattached.stopDevServer(root, 'show-env');
+    }, 40000);
+
+    it('should keep the readiness check when restarting a reattached process', async () => {
+      const { ProcessManager } = await import('../../src/components/ProcessManager.js');
+      // server.js never listens, so only the log check can mark it ready
+      const readiness = { type: 'log' as const, pattern: 'tick 3' };
+      const started = await processManager.startDevServer(root, undefined, { script: 'serve', packageManager: 'npm', readiness });
+
+      savedState = {
+        devProcesses: {
+          [`${root}::serve`]: {
+            ...started,
+            status: 'running',
+            startTime: started.startTime.toISOString(),
+            restartPolicy: { policy: 'always', backoffMs: 100 }
+          }
+        }
+      };
+      const reattached = new ProcessManager();
+      await waitFor(() => reattached.getProcess(root, 'serve') !== null, 5000);
+      expect(reattached.getProcess(root, 'serve')!.readinessCheck).toEqual(readiness);
+
+      process.kill(-started.pid, 'SIGKILL');
+      await waitFor(() => reattached.getProcess(root, 'serve')?.restartCount === 1, 10000);
+      await waitFor(() => reattached.getProcess(root, 'serve')?.status === 'ready', 10000);
+      await reattached.stopDevServer(root, 'serve');
+    }, 40000);
+
+    it('should keep the assigned port when restarting a reattached process', async () => {
+      const { ProcessManager } = await import('../../src/components/ProcessManager.js');
+      const busy = createServer();
+      await new Promise<void>(resolve => busy.listen(0, '127.0.0.1', resolve));
+      const busyPort = (busy.address() as { port: number }).port;
+
+      try {
+        const started = await processManager.startDevServer(root, { ...process.env, PORT: busyPort.toString() }, {
+          script: 'show-env', packageManager: 'npm', autoPort: true
+        });
+        const assigned = started.portAssignment!.port;
+        expect(assigned).toBeGreaterThan(busyPort);
+
+        savedState = {
+          devProcesses: {
+            [`${root}::show-env`]: {
+              ...started,
+              status: 'running',
+              startTime: started.startTime.toISOString(),
+              restartPolicy: { policy: 'always', backoffMs: 100 }
+            }
+          }
+        };
+        const reattached = new ProcessManager();
+        await waitFor(() => reattached.getProcess(root, 'show-env') !== null, 5000);
+        expect(reattached.getProcess(root, 'show-env')!.portAssignment).toEqual(started.portAssignment);
+
+        process.kill(-started.pid, 'SIGKILL');
+        await waitFor(() => reattached.getProcess(root, 'show-env')?.restartCount === 1, 10000);
+
+        const printed = async (line: string) => (await reattached.getLogManager(root, 'show-env')!.getLogs(1000))
+          .some(entry => entry.message === line);
+        await waitFor(() => printed(`port=${assigned}`), 10000);
+        expect(reattached.getProcess(root, 'show-env')!.ports).toContain(assigned);
+        await reattached.stopDevServer(root, 'show-env');
+      } finally {
+        busy.close();
+      }
+    }, 40000);
+  });
+
+  describe('stopping', () => {
+    it('should not keep or signal an entry that never spawned', async () => {
+      const { getDescendantPids, isProcessRunning } = await import('../../src/utils/processUtils.js');
+      // The capture files cannot be created under a regular file, so the spawn fails
+      await writeFile(join(root, 'not-a-dir'), '');
+      process.env.DEV_LOG_DIR = join(root, 'not-a-dir', 'logs');
+
+      await expect(processManager.startDevServer(root, undefined, { script: 'serve', packageManager: 'npm' }))
+        .rejects.toThrow('Failed to start dev server');
+      expect(processManager.getProcess(root, 'serve')).toBeNull();
+
+      // pid 0 stands for our own process group, never for a dev server
+      expect(await isProcessRunning(0)).toBe(false);
+      expect(await getDescendantPids(0)).toEqual([]);
+    });
+
+    it('should kill every descendant and escalate to SIGKILL after the grace period', async () => {
+      const { isProcessRunning } = await import('../../src/utils/processUtils.js');
+      const { isLocalPortAccepting } = await import('../../src/utils/network.js');
+      await processManager.startDevServer(root, undefined, { script: 'tree', packageManager: 'npm' });
+
+      await waitFor(() => processManager.getProcess(root, 'tree')?.ports.length > 0, 15000);
+      const [port] = processManager.getProcess(root, 'tree').ports;
+      const childPid = parseInt(await readFile(join(root, 'child.pid'), 'utf-8'), 10);
+
+      const result = await processManager.stopDevServer(root, 'tree', { gracePeriod: 500 });
+
+      expect(result.success).toBe(true);
+      expect(result.forced).toBe(true);
+      expect(result.pids).toContain(childPid);
+      expect(result.survivors).toEqual([]);
+      expect(await isProcessRunning(childPid)).toBe(false);
+      expect(await isLocalPortAccepting(port)).toBe(false);
+    }, 30000);
+  });
+});
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, it, expect } from '@jest/globals';
+import { appendFile, mkdtemp, rm } from 'fs/promises';
+import { createServer, Server } from 'net';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { LogManager } from '../../src/components/LogManager.js';
+import { CaptureFiles } from '../../src/components/OutputCapture.js';
+import { ProcessNotReadyError, ReadinessChecker } from '../../src/components/ReadinessChecker.js';
+import { DevProcess } from '../../src/types.js';
+
+describe('ReadinessChecker', () => {
+  let checker: ReadinessChecker;
+  let logManager: LogManager;
+  let root: string;
+  let capture: CaptureFiles;
+  let status: DevProcess['status'];
+
+  const target = () => ({
+    name: 'web',
+    logManager,
+    getStatus: () => status,
+    getPorts: () => [] as number[]
+  });
+
+  beforeEach(async () => {
+    checker = new ReadinessChecker();
+    logManager = new LogManager();
+    root = await mkdtemp(join(tmpdir(), 'npm-dev-mcp-ready-'));
+    capture = { stdout: join(root, 'out'), stderr: join(root, 'err') };
+    status = 'running';
+    await logManager.startLogging(null, capture);
+  });
+
+  afterEach(async () => {
+    await logManager.stopLogging();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should become ready when a log line matches the pattern', async () => {
+    const ready = checker.waitUntilReady({ type: 'log', pattern: 'ready in \\d+ms' }, target(), 5000);
+    await appendFile(capture.stdout, 'compiling...\n');
+    await appendFile(capture.stdout, 'VITE ready in 312ms\n');
+
+    await expect(ready).resolves.toBeUndefined();
+  });
+
+  describe('port', () => {
+    let server: Server;
+    let port: number;
+
+    beforeEach(async () => {
+      server = createServer();
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      port = (server.address() as { port: number }).port;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should become ready when the port accepts connections', async () => {
+      await expect(checker.waitUntilReady({ type: 'port', port }, target(), 5000)).resolves.toBeUndefined();
+    });
+  });
+
+  it('should report the last log lines when the process never becomes ready', async () => {
+    await appendFile(capture.stdout, 'Error: Cannot find module "vite"\n');
+
+    const error = await checker.waitUntilReady({ type: 'log', pattern: 'ready' }, target(), 600).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProcessNotReadyError);
+    expect(error.message).toContain('never became ready: timed out after 600ms');
+    expect(error.lastLogs.map((log: { message: string }) => log.message)).toEqual(['Error: Cannot find module "vite"']);
+  });
+
+  it('should fail fast when the process exits before becoming ready', async () => {
+    status = 'stopped';
+
+    await expect(checker.waitUntilReady({ type: 'http', url: 'http://127.0.0.1:1/' }, target(), 5000))
+      .rejects.toThrow('process exited (stopped)');
+  });
+});
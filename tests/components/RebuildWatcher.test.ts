@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, it, expect } from '@jest/globals';
+import { appendFile, mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { getFrameworkAdapter } from '../../src/components/FrameworkDetector.js';
+import { LogManager } from '../../src/components/LogManager.js';
+import { CaptureFiles } from '../../src/components/OutputCapture.js';
+import { RebuildWatcher } from '../../src/components/RebuildWatcher.js';
+import { DevProcess } from '../../src/types.js';
+
+describe('RebuildWatcher', () => {
+  let watcher: RebuildWatcher;
+  let logManager: LogManager;
+  let root: string;
+  let capture: CaptureFiles;
+  let status: DevProcess['status'];
+
+  const target = () => ({
+    name: 'web',
+    logManager,
+    getStatus: () => status,
+    framework: getFrameworkAdapter('vite')
+  });
+
+  beforeEach(async () => {
+    watcher = new RebuildWatcher();
+    logManager = new LogManager(null, getFrameworkAdapter('vite'));
+    root = await mkdtemp(join(tmpdir(), 'npm-dev-mcp-rebuild-'));
+    capture = { stdout: join(root, 'out'), stderr: join(root, 'err') };
+    status = 'running';
+    await logManager.startLogging(null, capture);
+  });
+
+  afterEach(async () => {
+    await logManager.stopLogging();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should report success on the next HMR update', async () => {
+    await appendFile(capture.stdout, '12:00:00 PM [vite] hmr update /src/Old.tsx\n');
+    await new Promise(resolve => setTimeout(resolve, 600));
+
+    const rebuild = watcher.waitForRebuild(target(), undefined, 5000);
+    await appendFile(capture.stdout, '12:00:01 PM [vite] hmr update /src/App.tsx\n');
+    const result = await rebuild;
+
+    expect(result.outcome).toBe('success');
+    expect(result.event?.message).toContain('/src/App.tsx');
+    expect(result.logs.map(log => log.message)).not.toContain('12:00:00 PM [vite] hmr update /src/Old.tsx');
+  });
+
+  it('should report a failure printed after the update with its diagnostics', async () => {
+    const rebuild = watcher.waitForRebuild(target(), undefined, 5000);
+    await appendFile(capture.stdout, '12:00:01 PM [vite] hmr update /src/App.tsx\n');
+    await appendFile(capture.stderr, '12:00:01 PM [vite] Internal server error: Failed to resolve import "./missing"\n  File: /app/src/App.tsx:2:19\n');
+    const result = await rebuild;
+
+    expect(result.outcome).toBe('failure');
+    expect(result.event?.message).toContain('Internal server error');
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ source: 'vite', file: '/app/src/App.tsx', line: 2, column: 19 })
+    ]);
+  });
+
+  it('should include a rebuild that finished after the cursor but before the call', async () => {
+    const { cursor } = logManager.queryLogs({ limit: 0 });
+    await appendFile(capture.stdout, 'webpack 5.90.0 compiled successfully in 80 ms\n');
+    await new Promise(resolve => setTimeout(resolve, 600));
+
+    const result = await watcher.waitForRebuild(target(), cursor, 5000);
+
+    expect(result.outcome).toBe('success');
+    expect(result.cursor).not.toBe(cursor);
+  });
+
+  it('should ignore stored lines when the cursor has expired', async () => {
+    await appendFile(capture.stdout, '12:00:00 PM [vite] hmr update /src/Old.tsx\n');
+    await new Promise(resolve => setTimeout(resolve, 600));
+    // A cursor from another instance, like one kept across an MCP server restart
+    const { cursor } = new LogManager().queryLogs({ limit: 0 });
+
+    const result = await watcher.waitForRebuild(target(), cursor, 800);
+
+    expect(result.outcome).toBe('timeout');
+    expect(result.cursorExpired).toBe(true);
+  });
+
+  it('should time out or stop waiting when the process exits', async () => {
+    expect((await watcher.waitForRebuild(target(), undefined, 300)).outcome).toBe('timeout');
+
+    status = 'stopped';
+    expect((await watcher.waitForRebuild(target(), undefined, 5000)).outcome).toBe('exited');
+  });
+});
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, it, expect } from '@jest/globals';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { WorkspaceScanner } from '../../src/components/WorkspaceScanner.js';
+
+async function writePackage(directory: string, packageJson: Record<string, unknown>): Promise<void> {
+  await mkdir(directory, { recursive: true });
+  await writeFile(join(directory, 'package.json'), JSON.stringify(packageJson));
+}
+
+describe('WorkspaceScanner', () => {
+  let root: string;
+  let scanner: WorkspaceScanner;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'npm-dev-mcp-ws-'));
+    scanner = new WorkspaceScanner();
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  describe('parsePnpmWorkspace', () => {
+    it('should read block and flow style package lists', () => {
+      const block = "packages:\n  - 'apps/*'\n  - \"packages/**\" # libraries\n  - '!**/test/**'\ncatalog:\n  react: ^18\n";
+      expect(scanner.parsePnpmWorkspace(block)).toEqual(['apps/*', 'packages/**', '!**/test/**']);
+
+      expect(scanner.parsePnpmWorkspace("packages: ['apps/*', 'libs/*']\n")).toEqual(['apps/*', 'libs/*']);
+    });
+  });
+
+  describe('scanWorkspace', () => {
+    it('should list npm workspace packages and their internal dependencies', async () => {
+      await writePackage(root, { name: 'monorepo', workspaces: ['apps/*', 'packages/*'] });
+      await writePackage(join(root, 'apps', 'web'), { name: 'web', dependencies: { ui: '*', react: '^18' } });
+      await writePackage(join(root, 'packages', 'ui'), { name: 'ui', devDependencies: { utils: 'workspace:*' } });
+      await writePackage(join(root, 'packages', 'utils'), { name: 'utils' });
+
+      const workspace = await scanner.scanWorkspace(join(root, 'apps', 'web'));
+
+      expect(workspace?.root).toBe(root);
+      expect(workspace?.source).toBe('package.json');
+      const web = workspace?.packages.find(pkg => pkg.name === 'web');
+      expect(web?.internalDependencies).toEqual(['ui']);
+      expect(workspace?.packages.map(pkg => pkg.name).sort()).toEqual(['ui', 'utils', 'web']);
+    });
+
+    it('should honor pnpm-workspace.yaml with nested and negated patterns', async () => {
+      await writePackage(root, { name: 'monorepo' });
+      await writeFile(join(root, 'pnpm-workspace.yaml'), "packages:\n  - 'packages/**'\n  - '!**/fixtures/**'\n");
+      await writeFile(join(root, 'turbo.json'), '{}');
+      await writePackage(join(root, 'packages', 'group', 'api'), { name: 'api' });
+      await writePackage(join(root, 'packages', 'fixtures', 'sample'), { name: 'sample' });
+
+      const workspace = await scanner.scanWorkspace(root);
+
+      expect(workspace?.source).toBe('pnpm-workspace.yaml');
+      expect(workspace?.tools).toEqual(['turbo']);
+      expect(workspace?.packages.map(pkg => pkg.name)).toEqual(['api']);
+    });
+
+    it('should return null outside a workspace', async () => {
+      await writePackage(root, { name: 'single' });
+
+      expect(await scanner.scanWorkspace(root)).toBeNull();
+    });
+  });
+
+  describe('getStartOrder', () => {
+    it('should order dependencies before dependents', () => {
+      const workspace = {
+        root,
+        source: 'package.json' as const,
+        tools: [],
+        packages: [
+          { name: 'web', directory: join(root, 'web'), internalDependencies: ['ui', 'api'] },
+          { name: 'ui', directory: join(root, 'ui'), internalDependencies: ['utils'] },
+          { name: 'api', directory: join(root, 'api'), internalDependencies: ['utils'] },
+          { name: 'utils', directory: join(root, 'utils'), internalDependencies: [] }
+        ]
+      };
+
+      expect(scanner.getStartOrder(workspace, 'web').map(pkg => pkg.name)).toEqual(['utils', 'ui', 'api', 'web']);
+    });
+
+    it('should fail clearly on dependency cycles', () => {
+      const workspace = {
+        root,
+        source: 'package.json' as const,
+        tools: [],
+        packages: [
+          { name: 'a', directory: join(root, 'a'), internalDependencies: ['b'] },
+          { name: 'b', directory: join(root, 'b'), internalDependencies: ['a'] }
+        ]
+      };
+
+      expect(() => scanner.getStartOrder(workspace, 'a')).toThrow('Dependency cycle detected: a -> b -> a');
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+import { ProjectConfigValidator } from '../../src/config/ProjectConfig.js';
+
+const CONFIG_PATH = '/repo/.npm-dev-mcp.json';
+
+describe('ProjectConfigValidator', () => {
+  describe('validateProjectConfig', () => {
+    it('should resolve process definitions relative to the config file', () => {
+      const config = ProjectConfigValidator.validateProjectConfig({
+        processes: {
+          api: { cwd: 'apps/api', envFile: 'apps/api/.env.local', requiredEnv: ['DATABASE_URL'], port: 4000, restart: 'on-failure' },
+          web: {
+            cwd: 'apps/web',
+            script: 'dev',
+            packageManager: 'pnpm',
+            readiness: { type: 'log', pattern: 'ready in' },
+            dependsOn: ['api']
+          }
+        }
+      }, CONFIG_PATH);
+
+      expect(config.processes).toEqual([
+        {
+          name: 'api',
+          script: 'api',
+          cwd: '/repo/apps/api',
+          envFile: '/repo/apps/api/.env.local',
+          requiredEnv: ['DATABASE_URL'],
+          port: 4000,
+          packageManager: undefined,
+          readiness: undefined,
+          restart: { policy: 'on-failure', maxRestarts: undefined, windowMs: undefined, backoffMs: undefined, maxBackoffMs: undefined },
+          dependsOn: []
+        },
+        {
+          name: 'web',
+          script: 'dev',
+          cwd: '/repo/apps/web',
+          envFile: undefined,
+          port: undefined,
+          packageManager: 'pnpm',
+          readiness: { type: 'log', pattern: 'ready in', timeout: undefined },
+          restart: undefined,
+          dependsOn: ['api']
+        }
+      ]);
+    });
+
+    it('should default to no processes', () => {
+      expect(ProjectConfigValidator.validateProjectConfig({}, CONFIG_PATH).processes).toEqual([]);
+    });
+
+    it('should throw error for invalid fields', () => {
+      expect(() => ProjectConfigValidator.validateProjectConfig({ processes: { web: { port: 70000 } } }, CONFIG_PATH))
+        .toThrow('Invalid processes.web.port: 70000. Must be between 1 and 65535');
+      expect(() => ProjectConfigValidator.validateProjectConfig({ processes: { web: { readiness: { type: 'log', pattern: '(' } } } }, CONFIG_PATH))
+        .toThrow('Must be a valid regular expression');
+      expect(() => ProjectConfigValidator.validateProjectConfig({ processes: { 'my web': {} } }, CONFIG_PATH))
+        .toThrow('Invalid process name');
+      expect(() => ProjectConfigValidator.validateProjectConfig({ processes: { web: { requiredEnv: 'API_URL' } } }, CONFIG_PATH))
+        .toThrow('Invalid processes.web.requiredEnv');
+    });
+
+    it('should reject unknown dependencies', () => {
+      expect(() => ProjectConfigValidator.validateProjectConfig({ processes: { web: { dependsOn: ['api'] } } }, CONFIG_PATH))
+        .toThrow('Invalid processes.web.dependsOn: unknown process "api"');
+    });
+  });
+});
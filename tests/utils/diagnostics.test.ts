@@ -0,0 +1,111 @@
+import { describe, it, expect } from '@jest/globals';
+import { collectDiagnostics } from '../../src/utils/diagnostics.js';
+import { LogEntry } from '../../src/types.js';
+
+function entries(...messages: string[]): LogEntry[] {
+  const start = Date.parse('2024-01-01T00:00:00Z');
+  return messages.map((message, i) => ({
+    timestamp: new Date(start + i * 1000),
+    level: 'info',
+    source: 'stdout',
+    message
+  }));
+}
+
+describe('collectDiagnostics', () => {
+  it('should parse TypeScript and webpack output', () => {
+    const diagnostics = collectDiagnostics(entries(
+      'src/App.tsx(3,7): error TS2322: Type \'string\' is not assignable to type \'number\'.',
+      'src/api.ts:10:5 - error TS2304: Cannot find name \'fetchUser\'.\n\n10     fetchUser();\n       ~~~~~~~~~',
+      'ERROR in ./src/index.js 5:2-20',
+      'Module not found: Error: Can\'t resolve \'./missing\' in \'/app/src\'',
+      '[tsl] ERROR in /app/src/a.ts(4,1)\n      TS1005: \';\' expected.'
+    ));
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ source: 'typescript', severity: 'error', file: 'src/App.tsx', line: 3, column: 7, code: 'TS2322' }),
+      expect.objectContaining({ source: 'typescript', file: 'src/api.ts', line: 10, column: 5, message: 'Cannot find name \'fetchUser\'.' }),
+      expect.objectContaining({ source: 'webpack', file: './src/index.js', line: 5, column: 2, message: 'Module not found: Error: Can\'t resolve \'./missing\' in \'/app/src\'' }),
+      expect.objectContaining({ source: 'webpack', file: '/app/src/a.ts', line: 4, column: 1, code: 'TS1005', message: '\';\' expected.' })
+    ]);
+  });
+
+  it('should parse esbuild, Vite and Next.js output', () => {
+    const diagnostics = collectDiagnostics(entries(
+      '✘ [ERROR] Could not resolve "./missing"\n\n    src/main.ts:2:19:\n      2 │ import App from "./missing";\n        ╵                    ~~~~~~~~~~~',
+      '▲ [WARNING] Duplicate key "a" in object literal [duplicate-object-key]\n\n    src/util.ts:1:15:',
+      '12:00:01 PM [vite] Internal server error: Transform failed with 1 error:\n/app/src/App.tsx:3:10: ERROR: Expected ";" but found "x"\n  Plugin: vite:esbuild\n  File: /app/src/App.tsx:3:10',
+      ' ⨯ ./app/page.tsx:3:1',
+      'Module not found: Can\'t resolve \'@/lib/missing\'',
+      ' ⨯ ReferenceError: window is not defined'
+    ));
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ source: 'esbuild', severity: 'error', file: 'src/main.ts', line: 2, column: 19, message: 'Could not resolve "./missing"' }),
+      expect.objectContaining({ source: 'esbuild', severity: 'warning', file: 'src/util.ts', code: 'duplicate-object-key' }),
+      expect.objectContaining({ source: 'vite', file: '/app/src/App.tsx', line: 3, column: 10, code: 'vite:esbuild', message: 'Expected ";" but found "x"' }),
+      expect.objectContaining({ source: 'next', file: './app/page.tsx', line: 3, column: 1, message: 'Module not found: Can\'t resolve \'@/lib/missing\'' }),
+      expect.objectContaining({ source: 'next', message: 'ReferenceError: window is not defined' })
+    ]);
+    expect(diagnostics[4].file).toBeUndefined();
+  });
+
+  it('should parse ESLint output with the rule as the code', () => {
+    const diagnostics = collectDiagnostics(entries(
+      '/app/src/App.tsx',
+      '  3:7   error    \'unused\' is assigned a value but never used  @typescript-eslint/no-unused-vars',
+      '  12:1  warning  Unexpected console statement                 no-console'
+    ));
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ source: 'eslint', severity: 'error', file: '/app/src/App.tsx', line: 3, column: 7, code: '@typescript-eslint/no-unused-vars' }),
+      expect.objectContaining({ source: 'eslint', severity: 'warning', line: 12, message: 'Unexpected console statement', code: 'no-console' })
+    ]);
+  });
+
+  it('should merge repeated errors and count occurrences', () => {
+    const error = 'src/App.tsx(3,7): error TS2322: Type \'string\' is not assignable to type \'number\'.';
+    const diagnostics = collectDiagnostics(entries(error, 'unrelated line', error));
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ count: 2, resolved: false });
+    expect(diagnostics[0].lastSeen.getTime() - diagnostics[0].firstSeen.getTime()).toBe(2000);
+  });
+
+  it('should resolve errors after a successful rebuild and reopen them when printed again', () => {
+    const diagnostics = collectDiagnostics(entries(
+      'ERROR in ./src/index.js 5:2',
+      'Module not found: Error: Can\'t resolve \'./missing\'',
+      'webpack 5.90.0 compiled with 1 error in 120 ms',
+      'webpack 5.90.0 compiled successfully in 80 ms'
+    ));
+    expect(diagnostics[0]).toMatchObject({ resolved: true, resolvedAt: new Date('2024-01-01T00:00:03Z') });
+
+    const viteDiagnostics = collectDiagnostics(entries(
+      '[vite] Internal server error: Failed to resolve import "./a"\n  File: /app/src/a.tsx:1:8',
+      '[vite] Internal server error: Failed to resolve import "./b"\n  File: /app/src/b.tsx:1:8',
+      '12:00:05 PM [vite] hmr update /src/a.tsx'
+    ));
+    expect(viteDiagnostics.map(d => d.resolved)).toEqual([true, false]);
+
+    const tscDiagnostics = collectDiagnostics(entries(
+      'src/a.ts(1,1): error TS2304: Cannot find name \'x\'.',
+      'src/b.ts(1,1): error TS2304: Cannot find name \'y\'.',
+      'Found 2 errors. Watching for file changes.',
+      'File change detected. Starting incremental compilation...',
+      'src/b.ts(1,1): error TS2304: Cannot find name \'y\'.',
+      'Found 1 error. Watching for file changes.'
+    ));
+    expect(tscDiagnostics.map(d => [d.resolved, d.count])).toEqual([[true, 1], [false, 2]]);
+  });
+
+  it('should treat framework rebuild lines as success', () => {
+    const diagnostics = collectDiagnostics(entries(
+      'ERROR in ./src/index.js',
+      'Module parse failed',
+      '💿 Rebuilt in 120ms'
+    ), { successPatterns: [/💿 (Rebuilt|Built) in/] });
+
+    expect(diagnostics[0].resolved).toBe(true);
+  });
+});
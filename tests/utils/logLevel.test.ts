@@ -0,0 +1,42 @@
+import { describe, it, expect } from '@jest/globals';
+import { detectLogLevel } from '../../src/utils/logLevel.js';
+import { getTextColors, stripAnsi } from '../../src/utils/ansi.js';
+
+describe('logLevel', () => {
+  describe('detectLogLevel', () => {
+    it('should recognize tool-specific prefixes', () => {
+      expect(detectLogLevel('✘ [ERROR] Could not resolve "./missing"')).toBe('error');
+      expect(detectLogLevel('▲ [WARNING] Duplicate key "a" in object literal')).toBe('warn');
+      expect(detectLogLevel(' ⨯ ./app/page.tsx:3:1')).toBe('error');
+      expect(detectLogLevel('12:00:01 PM [vite] Internal server error: Failed to resolve import')).toBe('error');
+      expect(detectLogLevel('src/App.tsx:3:7 - error TS2322: Type \'string\' is not assignable')).toBe('error');
+      expect(detectLogLevel('TypeError: Cannot read properties of undefined')).toBe('error');
+      expect(detectLogLevel('(node:123) [DEP0040] DeprecationWarning: The `punycode` module is deprecated')).toBe('warn');
+      expect(detectLogLevel('[info] error overlay enabled')).toBe('info');
+    });
+
+    it('should use red and yellow coloring', () => {
+      expect(detectLogLevel('\x1b[2m12:00:01 PM\x1b[22m \x1b[31m\x1b[1m[vite]\x1b[22m\x1b[39m \x1b[31mhmr reload failed\x1b[39m')).toBe('error');
+      expect(detectLogLevel('\x1b[33mCompiled with some issues\x1b[39m')).toBe('warn');
+      expect(detectLogLevel('\x1b[38;5;196mbuild broke\x1b[0m')).toBe('error');
+      expect(detectLogLevel('\x1b[32m✓\x1b[39m built, error boundary enabled')).toBe('info');
+    });
+
+    it('should not treat counts of zero errors as errors', () => {
+      expect(detectLogLevel('Found 0 errors. Watching for file changes.')).toBeNull();
+      expect(detectLogLevel('webpack compiled successfully with no warnings')).toBeNull();
+      expect(detectLogLevel('Found 2 errors and 1 failed test')).toBe('error');
+    });
+  });
+
+  describe('ansi', () => {
+    it('should strip colors, cursor movement and hyperlinks', () => {
+      expect(stripAnsi('\x1b[2K\x1b[1G\x1b[36m\x1b]8;;http://localhost:3000\x07link\x1b]8;;\x07\x1b[39m done')).toBe('link done');
+    });
+
+    it('should ignore colors that only apply to whitespace', () => {
+      expect(getTextColors('\x1b[31m  \x1b[39mplain')).toEqual(new Set());
+      expect(getTextColors('\x1b[41m ERROR \x1b[49m')).toEqual(new Set(['red']));
+    });
+  });
+});
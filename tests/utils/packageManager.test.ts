@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, it, expect } from '@jest/globals';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { buildRunCommand, detectPackageManager, parsePackageManagerField } from '../../src/utils/packageManager.js';
+
+describe('packageManager', () => {
+  describe('parsePackageManagerField', () => {
+    it('should extract the manager name from a versioned field', () => {
+      expect(parsePackageManagerField('pnpm@9.1.0')).toBe('pnpm');
+      expect(parsePackageManagerField('yarn@4.0.2+sha256.abc')).toBe('yarn');
+    });
+
+    it('should return null for unknown or missing values', () => {
+      expect(parsePackageManagerField('deno@1.0.0')).toBeNull();
+      expect(parsePackageManagerField(undefined)).toBeNull();
+    });
+  });
+
+  describe('buildRunCommand', () => {
+    it('should separate script arguments with -- only for npm', () => {
+      expect(buildRunCommand('npm', 'dev', ['--port', '5174']).args).toEqual(['run', 'dev', '--', '--port', '5174']);
+      expect(buildRunCommand('pnpm', 'dev', ['--port', '5174']).args).toEqual(['run', 'dev', '--port', '5174']);
+      expect(buildRunCommand('yarn', 'dev').args).toEqual(['run', 'dev']);
+    });
+  });
+
+  describe('detectPackageManager', () => {
+    let root: string;
+
+    beforeEach(async () => {
+      root = await mkdtemp(join(tmpdir(), 'npm-dev-mcp-pm-'));
+    });
+
+    afterEach(async () => {
+      await rm(root, { recursive: true, force: true });
+    });
+
+    it('should default to npm when nothing is found', async () => {
+      await writeFile(join(root, 'package.json'), JSON.stringify({ name: 'app' }));
+
+      expect(await detectPackageManager(root)).toBe('npm');
+    });
+
+    it('should detect the manager from a lockfile', async () => {
+      await writeFile(join(root, 'package.json'), JSON.stringify({ name: 'app' }));
+      await writeFile(join(root, 'yarn.lock'), '');
+
+      expect(await detectPackageManager(root)).toBe('yarn');
+    });
+
+    it('should prefer the packageManager field over lockfiles', async () => {
+      await writeFile(join(root, 'package.json'), JSON.stringify({ name: 'app', packageManager: 'bun@1.1.0' }));
+      await writeFile(join(root, 'package-lock.json'), '{}');
+
+      expect(await detectPackageManager(root)).toBe('bun');
+    });
+
+    it('should find the workspace root lockfile from a nested package', async () => {
+      const pkgDir = join(root, 'packages', 'web');
+      await mkdir(pkgDir, { recursive: true });
+      await writeFile(join(root, 'package.json'), JSON.stringify({ name: 'monorepo' }));
+      await writeFile(join(root, 'pnpm-lock.yaml'), '');
+      await writeFile(join(pkgDir, 'package.json'), JSON.stringify({ name: 'web' }));
+
+      expect(await detectPackageManager(pkgDir)).toBe('pnpm');
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseDevServerUrls } from '../../src/utils/urlDiscovery.js';
+import { parsePort } from '../../src/utils/processUtils.js';
+
+describe('urlDiscovery', () => {
+  describe('parseDevServerUrls', () => {
+    it('should parse the Vite banner including colors and the base path', () => {
+      const output = [
+        '  VITE v5.2.0  ready in 312 ms',
+        '',
+        '  \x1b[32m➜\x1b[39m  \x1b[1mLocal\x1b[22m:   \x1b[36mhttp://localhost:\x1b[1m5173\x1b[22m/app/\x1b[39m',
+        '  \x1b[32m➜\x1b[39m  \x1b[1mNetwork\x1b[22m: \x1b[36mhttp://192.168.1.20:\x1b[1m5173\x1b[22m/app/\x1b[39m'
+      ].join('\n');
+
+      expect(parseDevServerUrls(output)).toEqual([
+        { url: 'http://localhost:5173/app/', scheme: 'http', host: 'localhost', port: 5173, path: '/app/', kind: 'local' },
+        { url: 'http://192.168.1.20:5173/app/', scheme: 'http', host: '192.168.1.20', port: 5173, path: '/app/', kind: 'network' }
+      ]);
+    });
+
+    it('should parse the Next.js and Astro banners', () => {
+      const next = '   ▲ Next.js 14.1.0\n   - Local:        https://localhost:3000\n   - Network:      https://my-laptop:3000';
+      const astro = ' astro  v4.5.0 ready in 120 ms\n\n┃ Local    http://[::1]:4321/\n┃ Network  use --host to expose';
+
+      expect(parseDevServerUrls(next).map(url => [url.url, url.kind])).toEqual([
+        ['https://localhost:3000/', 'local'],
+        ['https://my-laptop:3000/', 'network']
+      ]);
+      expect(parseDevServerUrls(astro)).toEqual([
+        { url: 'http://[::1]:4321/', scheme: 'http', host: '[::1]', port: 4321, path: '/', kind: 'local' }
+      ]);
+    });
+
+    it('should turn wildcard bind addresses into openable URLs', () => {
+      expect(parseDevServerUrls('Server listening on 0.0.0.0:8080.').map(url => url.url))
+        .toEqual(['http://localhost:8080/']);
+    });
+
+    it('should ignore links to public sites without an explicit port', () => {
+      expect(parseDevServerUrls('See https://nextjs.org/docs/messages/invalid-config for details')).toEqual([]);
+    });
+  });
+
+  describe('parsePort', () => {
+    it('should return unique ports from all discovered URLs', () => {
+      expect(parsePort('Local: http://localhost:3000/\nNetwork: http://10.0.0.5:3000/\nHMR on 127.0.0.1:24678')).toEqual([3000, 24678]);
+    });
+  });
+});